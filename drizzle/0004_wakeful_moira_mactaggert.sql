@@ -0,0 +1,9 @@
+ALTER TABLE `venues` ADD `type` text DEFAULT 'courtside' NOT NULL;--> statement-breakpoint
+ALTER TABLE `venues` ADD `clubspark_id` text;--> statement-breakpoint
+ALTER TABLE `venues` ADD `clubspark_host` text;--> statement-breakpoint
+ALTER TABLE `venues` ADD `address` text;--> statement-breakpoint
+ALTER TABLE `venues` ADD `timezone` text DEFAULT 'Europe/London' NOT NULL;--> statement-breakpoint
+ALTER TABLE `venues` ADD `enabled` integer DEFAULT 1;--> statement-breakpoint
+-- Backfill platform config for venues previously defined only in constants.ts
+UPDATE `venues` SET `type` = 'clubspark', `clubspark_id` = 'stratford_newhamparkstennis_org_uk', `clubspark_host` = 'stratford.newhamparkstennis.org.uk' WHERE `slug` = 'stratford-park';--> statement-breakpoint
+UPDATE `venues` SET `type` = 'clubspark', `clubspark_id` = 'WestHamPark', `clubspark_host` = 'clubspark.lta.org.uk' WHERE `slug` = 'west-ham-park';
@@ -0,0 +1,14 @@
+CREATE TABLE `slot_events` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`venue_id` integer NOT NULL,
+	`date` text NOT NULL,
+	`time` text NOT NULL,
+	`court` text NOT NULL,
+	`old_status` text,
+	`new_status` text NOT NULL,
+	`price` text,
+	`observed_at` text DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`venue_id`) REFERENCES `venues`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_slot_events_venue_date` ON `slot_events` (`venue_id`,`date`,`observed_at`);
\ No newline at end of file
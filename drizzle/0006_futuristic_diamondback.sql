@@ -0,0 +1 @@
+ALTER TABLE `slots` ADD `stale_since` text;
\ No newline at end of file
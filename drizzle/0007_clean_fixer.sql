@@ -0,0 +1 @@
+ALTER TABLE `watches` ADD `notify_new_dates` integer DEFAULT 0;
\ No newline at end of file
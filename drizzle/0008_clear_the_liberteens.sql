@@ -0,0 +1,3 @@
+ALTER TABLE `watches` ADD `min_consecutive_hours` integer DEFAULT 1;--> statement-breakpoint
+ALTER TABLE `watches` ADD `excluded_courts` text;--> statement-breakpoint
+ALTER TABLE `watches` ADD `max_price` real;
\ No newline at end of file
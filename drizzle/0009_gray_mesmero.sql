@@ -0,0 +1,4 @@
+ALTER TABLE `watches` ADD `specific_dates` text;--> statement-breakpoint
+ALTER TABLE `watches` ADD `start_date` text;--> statement-breakpoint
+ALTER TABLE `watches` ADD `end_date` text;--> statement-breakpoint
+ALTER TABLE `watches` ADD `expired_at` text;
\ No newline at end of file
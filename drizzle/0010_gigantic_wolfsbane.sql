@@ -0,0 +1,20 @@
+CREATE TABLE `pending_notifications` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`channel_id` integer NOT NULL,
+	`slot_key` text NOT NULL,
+	`payload` text NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`channel_id`) REFERENCES `notification_channels`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_pending_user` ON `pending_notifications` (`user_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `pending_notifications_channel_id_slot_key_unique` ON `pending_notifications` (`channel_id`,`slot_key`);--> statement-breakpoint
+ALTER TABLE `users` ADD `delivery_mode` text DEFAULT 'instant' NOT NULL;--> statement-breakpoint
+ALTER TABLE `users` ADD `digest_interval_minutes` integer DEFAULT 60;--> statement-breakpoint
+ALTER TABLE `users` ADD `daily_summary_hour` integer DEFAULT 8;--> statement-breakpoint
+ALTER TABLE `users` ADD `quiet_hours_start` integer;--> statement-breakpoint
+ALTER TABLE `users` ADD `quiet_hours_end` integer;--> statement-breakpoint
+ALTER TABLE `users` ADD `last_digest_sent_at` text;--> statement-breakpoint
+ALTER TABLE `users` ADD `last_daily_summary_date` text;
\ No newline at end of file
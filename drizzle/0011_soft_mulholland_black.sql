@@ -0,0 +1,3 @@
+DROP INDEX `notification_log_channel_id_slot_key_unique`;--> statement-breakpoint
+ALTER TABLE `notification_log` ADD `event_id` integer;--> statement-breakpoint
+CREATE UNIQUE INDEX `notification_log_channel_id_slot_key_event_id_unique` ON `notification_log` (`channel_id`,`slot_key`,`event_id`);
\ No newline at end of file
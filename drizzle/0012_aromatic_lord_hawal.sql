@@ -0,0 +1,2 @@
+ALTER TABLE `notification_log` ADD `message_id` integer;--> statement-breakpoint
+ALTER TABLE `notification_log` ADD `gone_notified_at` text;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `telegram_link_codes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`code` text NOT NULL,
+	`user_id` integer NOT NULL,
+	`expires_at` text NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `telegram_link_codes_code_unique` ON `telegram_link_codes` (`code`);--> statement-breakpoint
+ALTER TABLE `notification_channels` ADD `muted_until` text;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `dismissed_slots` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`slot_key` text NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `dismissed_slots_user_id_slot_key_unique` ON `dismissed_slots` (`user_id`,`slot_key`);--> statement-breakpoint
+ALTER TABLE `watches` ADD `muted_on` text;
\ No newline at end of file
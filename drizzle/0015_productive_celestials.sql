@@ -0,0 +1 @@
+ALTER TABLE `notification_channels` ADD `secret` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `notification_channels` ADD `push_keys` text;
\ No newline at end of file
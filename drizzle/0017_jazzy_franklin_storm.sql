@@ -0,0 +1,16 @@
+CREATE TABLE `notification_deliveries` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`channel_id` integer NOT NULL,
+	`status` text NOT NULL,
+	`slot_count` integer NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`last_error` text,
+	`next_attempt_at` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` text,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`channel_id`) REFERENCES `notification_channels`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_deliveries_channel_status` ON `notification_deliveries` (`channel_id`,`status`);
\ No newline at end of file
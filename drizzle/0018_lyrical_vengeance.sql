@@ -0,0 +1,11 @@
+CREATE TABLE `venue_closures` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`venue_id` integer NOT NULL,
+	`date` text NOT NULL,
+	`reason` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`venue_id`) REFERENCES `venues`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `venue_closures_venue_id_date_unique` ON `venue_closures` (`venue_id`,`date`);--> statement-breakpoint
+ALTER TABLE `venues` ADD `opening_hours` text;
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE `scrape_attempts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`run_id` integer NOT NULL,
+	`venue_slug` text NOT NULL,
+	`date` text NOT NULL,
+	`end_date` text,
+	`started_at` text NOT NULL,
+	`duration_ms` integer NOT NULL,
+	`bytes` integer DEFAULT 0 NOT NULL,
+	`http_status` integer,
+	`slot_count` integer DEFAULT 0 NOT NULL,
+	`error` text,
+	FOREIGN KEY (`run_id`) REFERENCES `scrape_runs`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_scrape_attempts_run` ON `scrape_attempts` (`run_id`);--> statement-breakpoint
+CREATE TABLE `scrape_runs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`trigger` text NOT NULL,
+	`status` text DEFAULT 'running' NOT NULL,
+	`started_at` text NOT NULL,
+	`finished_at` text,
+	`targets_scraped` integer DEFAULT 0 NOT NULL,
+	`targets_failed` integer DEFAULT 0 NOT NULL,
+	`slot_count` integer DEFAULT 0 NOT NULL,
+	`requests` integer DEFAULT 0 NOT NULL,
+	`bytes` integer DEFAULT 0 NOT NULL,
+	`error` text
+);
+--> statement-breakpoint
+CREATE INDEX `idx_scrape_runs_started_at` ON `scrape_runs` (`started_at`);
\ No newline at end of file
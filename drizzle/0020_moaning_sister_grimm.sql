@@ -0,0 +1,14 @@
+CREATE TABLE `venue_health` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`venue_id` integer NOT NULL,
+	`consecutive_failures` integer DEFAULT 0 NOT NULL,
+	`failing_since` text,
+	`last_success_at` text,
+	`last_failure_at` text,
+	`last_error` text,
+	`blocked_until` text,
+	`alerted_at` text,
+	FOREIGN KEY (`venue_id`) REFERENCES `venues`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `venue_health_venue_id_unique` ON `venue_health` (`venue_id`);
\ No newline at end of file
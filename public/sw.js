@@ -0,0 +1,19 @@
+// Service worker for court alerts sent with Web Push (see src/lib/notifiers/web-push.ts)
+
+self.addEventListener("push", (event) => {
+  const data = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || "Tennis courts available", {
+      body: data.body,
+      tag: data.tag,
+      renotify: Boolean(data.tag),
+      data: { url: data.url || "/dashboard" },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(self.clients.openWindow(event.notification.data.url));
+});
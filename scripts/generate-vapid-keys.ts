@@ -0,0 +1,20 @@
+#!/usr/bin/env npx tsx
+/**
+ * Generate VAPID keys for Web Push
+ *
+ * Usage:
+ *   npx tsx scripts/generate-vapid-keys.ts
+ *
+ * Add the printed values to your environment. Changing the keys invalidates
+ * every existing browser subscription, so generate them once per deployment.
+ */
+
+import { generateVapidKeys } from "../src/lib/notifiers/web-push";
+
+const { publicKey, privateKey } = generateVapidKeys();
+
+console.log("🔑 VAPID keys generated. Add these to your environment:");
+console.log();
+console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
+console.log("VAPID_SUBJECT=mailto:you@example.com");
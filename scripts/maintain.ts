@@ -36,8 +36,9 @@ import {
 } from "../src/lib/schema";
 import { eq, lt, sql, count, desc } from "drizzle-orm";
 import { getNextNDays } from "../src/lib/scraper";
+import { addDays, getVenueToday } from "../src/lib/utils/venue-time";
 import { scrapeVenue } from "../src/lib/scrapers";
-import { VENUES } from "../src/lib/constants";
+import { getEnabledVenues } from "../src/lib/venues";
 import { sendEmail } from "../src/lib/notifiers/email";
 import { sendTelegramMessage } from "../src/lib/notifiers/telegram";
 
@@ -339,7 +340,7 @@ async function addUserInteractive() {
     // Venues
     const venueChoices = [
       { value: "all" as const, label: "All venues" },
-      ...VENUES.map((v) => ({ value: v.slug, label: v.name })),
+      ...(await getEnabledVenues()).map((v) => ({ value: v.slug, label: v.name })),
     ];
 
     const selectedVenues = await askMultiChoice(rl, "Which venues?", venueChoices);
@@ -522,7 +523,7 @@ async function editUser() {
       // Venues
       const venueChoices = [
         { value: "all" as const, label: "All venues" },
-        ...VENUES.map((v) => ({ value: v.slug, label: v.name })),
+        ...(await getEnabledVenues()).map((v) => ({ value: v.slug, label: v.name })),
       ];
 
       const selectedVenues = await askMultiChoice(rl, "Which venues?", venueChoices);
@@ -729,9 +730,7 @@ async function cleanup() {
   header("Cleanup Old Data");
 
   const daysToKeep = parseInt(args[1] || "14", 10);
-  const cutoffDate = new Date();
-  cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
-  const cutoff = cutoffDate.toISOString().split("T")[0];
+  const cutoff = addDays(getVenueToday(), -daysToKeep);
 
   log(`Removing data older than ${daysToKeep} days (before ${cutoff})`, "dim");
 
@@ -808,13 +807,14 @@ async function runScrape() {
 
   const venueSlug = args[1];
   const date = args[2] || getNextNDays(1)[0];
+  const enabledVenues = await getEnabledVenues();
 
   if (venueSlug) {
     // Scrape single venue
-    const venue = VENUES.find((v) => v.slug === venueSlug);
+    const venue = enabledVenues.find((v) => v.slug === venueSlug);
     if (!venue) {
       log(`Venue not found: ${venueSlug}`, "red");
-      log(`Available venues: ${VENUES.map((v) => v.slug).join(", ")}`, "dim");
+      log(`Available venues: ${enabledVenues.map((v) => v.slug).join(", ")}`, "dim");
       return;
     }
 
@@ -836,7 +836,7 @@ async function runScrape() {
     let totalSlots = 0;
     let totalAvailable = 0;
 
-    for (const venue of VENUES) {
+    for (const venue of enabledVenues) {
       for (const d of getNextNDays(8)) {
         try {
           const scrapedSlots = await scrapeVenue(venue, d);
@@ -1,6 +1,6 @@
 import { getNextNDays } from "../src/lib/scraper";
 import { scrapeVenue } from "../src/lib/scrapers";
-import { VENUES } from "../src/lib/constants";
+import { DEFAULT_VENUES } from "../src/lib/constants";
 
 async function main() {
   const dates = getNextNDays(2); // Test next 2 days
@@ -8,8 +8,8 @@ async function main() {
 
   // Test both a Courtside venue and a ClubSpark venue
   const testVenues = [
-    VENUES.find((v) => v.slug === "ropemakers-field")!,
-    VENUES.find((v) => v.slug === "stratford-park")!,
+    DEFAULT_VENUES.find((v) => v.slug === "ropemakers-field")!,
+    DEFAULT_VENUES.find((v) => v.slug === "stratford-park")!,
   ];
 
   for (const venue of testVenues) {
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("@/lib/db", async () => (await import("@/lib/test-db")).createTestDb());
+vi.mock("@/lib/auth", () => ({ auth: vi.fn() }));
+
+import { db } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { slots, users, venues } from "@/lib/schema";
+import { POST } from "./route";
+
+beforeEach(async () => {
+  await db.delete(slots);
+  await db.delete(users);
+  await db.delete(venues);
+  await db.insert(users).values({ email: "admin@example.com", isAdmin: 1 });
+  vi.mocked(auth).mockResolvedValue({ user: { email: "admin@example.com" } } as never);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("POST /api/admin/cleanup", () => {
+  it("cuts off by the venue-local date just after midnight", async () => {
+    // 00:30 BST on the 8th, still the 7th in UTC
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-04-07T23:30:00Z"));
+    const [venue] = await db.insert(venues).values({ slug: "victoria-park", name: "Victoria Park" }).returning();
+    await db.insert(slots).values(
+      ["2026-03-31", "2026-04-01"].map((date) => ({
+        venueId: venue.id,
+        date,
+        time: "7pm",
+        court: "Court 1",
+        status: "booked",
+      }))
+    );
+
+    const response = await POST(
+      new Request("http://localhost/api/admin/cleanup", { method: "POST", body: JSON.stringify({ days: 7 }) })
+    );
+
+    expect(await response.json()).toMatchObject({ success: true, deletedSlots: 1 });
+    expect((await db.select().from(slots)).map((slot) => slot.date)).toEqual(["2026-04-01"]);
+  });
+});
@@ -1,9 +1,11 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
-import { users, slots, notificationLog } from "@/lib/schema";
+import { users, slots, slotEvents, notificationLog } from "@/lib/schema";
 import { lt, sql } from "drizzle-orm";
 import { eq } from "drizzle-orm";
+import { SLOT_HISTORY_RETENTION_DAYS } from "@/lib/analytics";
+import { addDays, getVenueToday } from "@/lib/utils/venue-time";
 
 export async function POST(request: Request) {
   try {
@@ -30,13 +32,15 @@ export async function POST(request: Request) {
       );
     }
 
-    // Calculate cutoff date
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - days);
-    const cutoff = cutoffDate.toISOString().split("T")[0];
+    // Calculate cutoff date (venue-local, whatever the server's timezone)
+    const today = getVenueToday();
+    const cutoff = addDays(today, -days);
 
     // Delete old data
     const deletedSlots = await db.delete(slots).where(lt(slots.date, cutoff)).returning();
+    // Slot history is kept longer than slots for cancellation analytics
+    const historyCutoff = addDays(today, -Math.max(days, SLOT_HISTORY_RETENTION_DAYS));
+    const deletedEvents = await db.delete(slotEvents).where(lt(slotEvents.date, historyCutoff)).returning();
     const deletedLogs = await db.delete(notificationLog).where(lt(notificationLog.sentAt, cutoff)).returning();
 
     // Vacuum database
@@ -45,6 +49,7 @@ export async function POST(request: Request) {
     return NextResponse.json({
       success: true,
       deletedSlots: deletedSlots.length,
+      deletedEvents: deletedEvents.length,
       deletedLogs: deletedLogs.length,
     });
   } catch (error) {
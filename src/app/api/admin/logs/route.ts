@@ -1,10 +1,12 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
-import { users, notificationLog } from "@/lib/schema";
-import { eq, desc } from "drizzle-orm";
+import { users, scrapeRuns } from "@/lib/schema";
+import { eq } from "drizzle-orm";
+import { getRecentScrapeRuns, getScrapeAttempts } from "@/lib/scrape-log";
 
-export async function GET() {
+// GET - Recent scrape runs, or one run with its per-target attempts (?runId=)
+export async function GET(request: Request) {
   try {
     const session = await auth();
 
@@ -18,27 +20,24 @@ export async function GET() {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    // Get recent notification logs as system logs
-    const logs = await db
-      .select({
-        id: notificationLog.id,
-        timestamp: notificationLog.sentAt,
-        level: notificationLog.slotKey, // Repurpose slotKey as message type
-        message: notificationLog.slotKey,
-      })
-      .from(notificationLog)
-      .orderBy(desc(notificationLog.sentAt))
-      .limit(100);
+    const runIdParam = new URL(request.url).searchParams.get("runId");
+    if (runIdParam === null) {
+      const runs = await getRecentScrapeRuns();
+      return NextResponse.json({ runs });
+    }
+
+    const runId = parseInt(runIdParam, 10);
+    if (isNaN(runId)) {
+      return NextResponse.json({ error: "Invalid run ID" }, { status: 400 });
+    }
 
-    // Format logs to include proper levels
-    const formattedLogs = logs.map((log) => ({
-      id: log.id,
-      timestamp: log.timestamp,
-      level: "info",
-      message: `Notification sent for slot: ${log.message}`,
-    }));
+    const [run] = await db.select().from(scrapeRuns).where(eq(scrapeRuns.id, runId)).limit(1);
+    if (!run) {
+      return NextResponse.json({ error: "Scrape run not found" }, { status: 404 });
+    }
 
-    return NextResponse.json({ logs: formattedLogs });
+    const attempts = await getScrapeAttempts(runId);
+    return NextResponse.json({ run, attempts });
   } catch (error) {
     console.error("Error fetching logs:", error);
     return NextResponse.json({ error: "Failed to fetch logs" }, { status: 500 });
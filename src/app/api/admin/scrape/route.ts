@@ -4,8 +4,15 @@ import { db } from "@/lib/db";
 import { users } from "@/lib/schema";
 import { eq } from "drizzle-orm";
 import { getNextNDays, runFullScrape } from "@/lib/scraper";
-import { ensureVenuesExist, storeAndDiff } from "@/lib/differ";
-import { notifyUsers, sendScrapeFailureAlert, sendScrapeSummary } from "@/lib/notifiers";
+import { storeAndDiff } from "@/lib/differ";
+import { ensureVenuesExist } from "@/lib/venues";
+import {
+  notifyUsers,
+  flushPendingNotifications,
+  sendSlotGoneUpdates,
+  sendScrapeFailureAlert,
+  sendScrapeSummary,
+} from "@/lib/notifiers";
 
 export async function POST() {
   try {
@@ -31,7 +38,7 @@ export async function POST() {
         const dates = getNextNDays(scrapeDays);
 
         // Run full scrape with timing and stats
-        const { slots: allSlots, stats } = await runFullScrape(dates);
+        const { slots: allSlots, scrapedTargets, stats } = await runFullScrape(dates, "admin");
 
         // Check for high failure rate and alert admin
         await sendScrapeFailureAlert(stats);
@@ -40,10 +47,12 @@ export async function POST() {
         await sendScrapeSummary(stats);
 
         // Store slots and detect changes
-        const changes = await storeAndDiff(allSlots);
+        const changes = await storeAndDiff(allSlots, new Date(), scrapedTargets);
         if (changes.length > 0) {
           await notifyUsers(changes);
         }
+        await sendSlotGoneUpdates();
+        await flushPendingNotifications();
 
         console.log("Manual scrape completed successfully");
       } catch (error) {
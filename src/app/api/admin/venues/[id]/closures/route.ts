@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { users, venueClosures, venues } from "@/lib/schema";
+import { and, asc, eq, gte } from "drizzle-orm";
+import { getVenueToday } from "@/lib/utils/venue-time";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Admin check shared by every method; returns an error response, or the venue
+async function loadVenue(params: Promise<{ id: string }>) {
+  const session = await auth();
+
+  if (!session?.user?.email) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  const adminUser = await db.select().from(users).where(eq(users.email, session.user.email.toLowerCase())).limit(1);
+  if (!adminUser[0] || !adminUser[0].isAdmin) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+
+  const { id } = await params;
+  const venueId = parseInt(id, 10);
+
+  if (isNaN(venueId)) {
+    return { error: NextResponse.json({ error: "Invalid venue ID" }, { status: 400 }) };
+  }
+
+  const [venue] = await db.select().from(venues).where(eq(venues.id, venueId)).limit(1);
+  if (!venue) {
+    return { error: NextResponse.json({ error: "Venue not found" }, { status: 404 }) };
+  }
+
+  return { venue };
+}
+
+// GET /api/admin/venues/[id]/closures - Upcoming closures for a venue
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { venue, error } = await loadVenue(params);
+    if (error) return error;
+
+    const closures = await db
+      .select()
+      .from(venueClosures)
+      .where(and(eq(venueClosures.venueId, venue.id), gte(venueClosures.date, getVenueToday(new Date(), venue.timezone))))
+      .orderBy(asc(venueClosures.date));
+
+    return NextResponse.json({ closures });
+  } catch (error) {
+    console.error("Error fetching venue closures:", error);
+    return NextResponse.json({ error: "Failed to fetch closures" }, { status: 500 });
+  }
+}
+
+// POST /api/admin/venues/[id]/closures - Close a venue for a date ({ date, reason? })
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { venue, error } = await loadVenue(params);
+    if (error) return error;
+
+    const body = await request.json();
+    const date = typeof body.date === "string" ? body.date : "";
+    const reason = typeof body.reason === "string" && body.reason.trim() ? body.reason.trim() : null;
+
+    if (!DATE_PATTERN.test(date) || isNaN(Date.parse(date))) {
+      return NextResponse.json({ error: "Date must be YYYY-MM-DD" }, { status: 400 });
+    }
+
+    const [closure] = await db
+      .insert(venueClosures)
+      .values({ venueId: venue.id, date, reason })
+      .onConflictDoUpdate({ target: [venueClosures.venueId, venueClosures.date], set: { reason } })
+      .returning();
+
+    return NextResponse.json({ closure }, { status: 201 });
+  } catch (error) {
+    console.error("Error adding venue closure:", error);
+    return NextResponse.json({ error: "Failed to add closure" }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/venues/[id]/closures?date=YYYY-MM-DD - Reopen a venue for a date
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { venue, error } = await loadVenue(params);
+    if (error) return error;
+
+    const date = new URL(request.url).searchParams.get("date") ?? "";
+    if (!DATE_PATTERN.test(date)) {
+      return NextResponse.json({ error: "Date must be YYYY-MM-DD" }, { status: 400 });
+    }
+
+    await db.delete(venueClosures).where(and(eq(venueClosures.venueId, venue.id), eq(venueClosures.date, date)));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing venue closure:", error);
+    return NextResponse.json({ error: "Failed to remove closure" }, { status: 500 });
+  }
+}
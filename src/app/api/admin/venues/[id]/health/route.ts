@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { users, venues } from "@/lib/schema";
+import { eq } from "drizzle-orm";
+import { resetVenueHealth } from "@/lib/venue-health";
+
+// DELETE /api/admin/venues/[id]/health - Clear a venue's failures and close its circuit breaker
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const adminUser = await db.select().from(users).where(eq(users.email, session.user.email.toLowerCase())).limit(1);
+    if (!adminUser[0] || !adminUser[0].isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const venueId = parseInt(id, 10);
+
+    if (isNaN(venueId)) {
+      return NextResponse.json({ error: "Invalid venue ID" }, { status: 400 });
+    }
+
+    const [venue] = await db.select().from(venues).where(eq(venues.id, venueId)).limit(1);
+    if (!venue) {
+      return NextResponse.json({ error: "Venue not found" }, { status: 404 });
+    }
+
+    await resetVenueHealth(venue.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error resetting venue health:", error);
+    return NextResponse.json({ error: "Failed to reset venue health" }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@ import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
 import { users, venues, watches, slots } from "@/lib/schema";
 import { eq } from "drizzle-orm";
+import { validateOpeningHours } from "@/lib/opening-hours";
 
 export async function DELETE(
   request: Request,
@@ -41,3 +42,86 @@ export async function DELETE(
     return NextResponse.json({ error: "Failed to delete venue" }, { status: 500 });
   }
 }
+
+// PATCH /api/admin/venues/[id] - Enable/disable a venue or edit its details
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const adminUser = await db.select().from(users).where(eq(users.email, session.user.email.toLowerCase())).limit(1);
+    if (!adminUser[0] || !adminUser[0].isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const venueId = parseInt(id, 10);
+
+    if (isNaN(venueId)) {
+      return NextResponse.json({ error: "Invalid venue ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const updateData: {
+      name?: string;
+      address?: string | null;
+      openingHours?: string | null;
+      enabled?: number;
+    } = {};
+
+    if (body.name !== undefined) {
+      if (typeof body.name !== "string" || body.name.trim() === "") {
+        return NextResponse.json({ error: "Name cannot be empty" }, { status: 400 });
+      }
+      updateData.name = body.name.trim();
+    }
+
+    if (body.address !== undefined) {
+      updateData.address = typeof body.address === "string" && body.address.trim() ? body.address.trim() : null;
+    }
+
+    // null resets the venue to the default hours
+    if (body.openingHours !== undefined) {
+      if (body.openingHours !== null) {
+        const hoursError = validateOpeningHours(body.openingHours);
+        if (hoursError) {
+          return NextResponse.json({ error: hoursError }, { status: 400 });
+        }
+      }
+      updateData.openingHours = body.openingHours === null ? null : JSON.stringify(body.openingHours);
+    }
+
+    if (body.enabled !== undefined) {
+      if (typeof body.enabled !== "boolean") {
+        return NextResponse.json({ error: "enabled must be a boolean" }, { status: 400 });
+      }
+      updateData.enabled = body.enabled ? 1 : 0;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json({ error: "No changes provided" }, { status: 400 });
+    }
+
+    const [updatedVenue] = await db
+      .update(venues)
+      .set(updateData)
+      .where(eq(venues.id, venueId))
+      .returning();
+
+    if (!updatedVenue) {
+      return NextResponse.json({ error: "Venue not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ venue: updatedVenue });
+  } catch (error) {
+    console.error("Error updating venue:", error);
+    return NextResponse.json({ error: "Failed to update venue" }, { status: 500 });
+  }
+}
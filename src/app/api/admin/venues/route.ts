@@ -3,6 +3,10 @@ import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
 import { users, venues } from "@/lib/schema";
 import { eq } from "drizzle-orm";
+import { getScraperAdapter, isSupportedVenueType } from "@/lib/scrapers";
+import { DEFAULT_TIMEZONE } from "@/lib/constants";
+import { validateOpeningHours } from "@/lib/opening-hours";
+import { getVenueHealthByVenue } from "@/lib/venue-health";
 
 export async function GET() {
   try {
@@ -19,8 +23,11 @@ export async function GET() {
     }
 
     const allVenues = await db.select().from(venues);
+    const health = await getVenueHealthByVenue();
 
-    return NextResponse.json({ venues: allVenues });
+    return NextResponse.json({
+      venues: allVenues.map((venue) => ({ ...venue, health: health.get(venue.id) ?? null })),
+    });
   } catch (error) {
     console.error("Error fetching venues:", error);
     return NextResponse.json({ error: "Failed to fetch venues" }, { status: 500 });
@@ -41,22 +48,70 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    const { name, slug } = await request.json();
+    const body = await request.json();
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    const slug = typeof body.slug === "string" ? body.slug.trim() : "";
+    const type = body.type ?? "courtside";
 
     if (!name || !slug) {
       return NextResponse.json({ error: "Name and slug are required" }, { status: 400 });
     }
 
+    if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(slug)) {
+      return NextResponse.json(
+        { error: "Slug must be lowercase letters, numbers and hyphens (e.g. victoria-park)" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof type !== "string" || !isSupportedVenueType(type)) {
+      return NextResponse.json({ error: `Unsupported venue type: ${type}` }, { status: 400 });
+    }
+
+    const config = {
+      clubsparkId: typeof body.clubsparkId === "string" && body.clubsparkId.trim() ? body.clubsparkId.trim() : null,
+      clubsparkHost: typeof body.clubsparkHost === "string" && body.clubsparkHost.trim() ? body.clubsparkHost.trim() : null,
+    };
+
+    // Each platform declares the config its scraper needs
+    const missing = getScraperAdapter(type).capabilities.requiredConfig.filter(
+      (field) => !config[field as keyof typeof config]
+    );
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: `Missing ${type} config: ${missing.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const timezone = typeof body.timezone === "string" && body.timezone.trim() ? body.timezone.trim() : DEFAULT_TIMEZONE;
+    if (!Intl.supportedValuesOf("timeZone").includes(timezone) && timezone !== "UTC") {
+      return NextResponse.json({ error: `Unknown timezone: ${timezone}` }, { status: 400 });
+    }
+
+    if (body.openingHours != null) {
+      const hoursError = validateOpeningHours(body.openingHours);
+      if (hoursError) {
+        return NextResponse.json({ error: hoursError }, { status: 400 });
+      }
+    }
+
     // Check if venue with slug already exists
     const existingVenue = await db.select().from(venues).where(eq(venues.slug, slug)).limit(1);
     if (existingVenue.length > 0) {
       return NextResponse.json({ error: "Venue with this slug already exists" }, { status: 400 });
     }
 
-    // Create new venue (type/platform config is defined in constants.ts)
+    // Create new venue - picked up by the scheduler on the next cron run
     const [newVenue] = await db.insert(venues).values({
       name,
       slug,
+      type,
+      ...config,
+      address: typeof body.address === "string" && body.address.trim() ? body.address.trim() : null,
+      timezone,
+      openingHours: body.openingHours != null ? JSON.stringify(body.openingHours) : null,
+      enabled: body.enabled === false ? 0 : 1,
     }).returning();
 
     return NextResponse.json({ venue: newVenue }, { status: 201 });
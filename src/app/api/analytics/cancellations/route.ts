@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { getCancellationStats, SLOT_HISTORY_RETENTION_DAYS } from "@/lib/analytics";
+
+// GET /api/analytics/cancellations?venue=<slug>[,<slug>]&days=28
+// Per venue/weekday/hour cancellation rates and lead-time distribution
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const venueParam = searchParams.get("venue");
+  const days = parseInt(searchParams.get("days") || "28", 10);
+
+  if (!venueParam) {
+    return NextResponse.json({ error: "Missing venue parameter" }, { status: 400 });
+  }
+
+  if (isNaN(days) || days < 1 || days > SLOT_HISTORY_RETENTION_DAYS) {
+    return NextResponse.json(
+      { error: `days must be a number between 1 and ${SLOT_HISTORY_RETENTION_DAYS}` },
+      { status: 400 }
+    );
+  }
+
+  const venueSlugs = venueParam.split(",").map((s) => s.trim()).filter(Boolean);
+  const stats = await getCancellationStats(venueSlugs, days);
+
+  if (stats.length === 0) {
+    return NextResponse.json({ error: "No venues found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ days, venues: stats });
+}
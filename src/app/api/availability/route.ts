@@ -1,7 +1,10 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { slots, venues } from "@/lib/schema";
-import { eq, and, desc, inArray } from "drizzle-orm";
+import { eq, and, inArray } from "drizzle-orm";
+import { getBookingUrl } from "@/lib/utils/link-helpers";
+import { toVenueConfig } from "@/lib/venues";
+import { STALE_STATUS } from "@/lib/differ";
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
@@ -53,16 +56,6 @@ export async function GET(request: Request) {
     .from(slots)
     .where(and(inArray(slots.venueId, venueIds), eq(slots.date, date)));
 
-  // Get the most recent updatedAt timestamp across all venues
-  const mostRecentSlots = await db
-    .select()
-    .from(slots)
-    .where(inArray(slots.venueId, venueIds))
-    .orderBy(desc(slots.updatedAt))
-    .limit(1);
-
-  const mostRecentSlot = mostRecentSlots[0] || null;
-
   // Create a map of venue ID to venue info for quick lookup
   const venueMap = new Map(venueRecords.map((v) => [v.id, v]));
 
@@ -70,6 +63,7 @@ export async function GET(request: Request) {
     venues: venueRecords.map((v) => ({
       slug: v.slug,
       name: v.name,
+      bookingUrl: getBookingUrl(toVenueConfig(v), date),
     })),
     date,
     slots: availableSlots.map((s) => {
@@ -81,8 +75,11 @@ export async function GET(request: Request) {
         court: s.court,
         status: s.status,
         price: s.price,
+        // When the slot was last seen in a scrape; stale slots vanished from a later one
+        updatedAt: s.updatedAt,
+        stale: s.status === STALE_STATUS,
+        staleSince: s.staleSince,
       };
     }),
-    lastUpdated: mostRecentSlot?.updatedAt || null,
   });
 }
@@ -3,6 +3,9 @@ import { db } from "@/lib/db";
 import { notificationChannels } from "@/lib/schema";
 import { eq, and } from "drizzle-orm";
 import { auth } from "@/lib/auth";
+import { CHANNEL_TYPES } from "@/lib/constants";
+import { generateWebhookSecret } from "@/lib/notifiers/webhook";
+import { validateChannelDestination } from "@/lib/notifiers/registry";
 
 // GET /api/channels/[id] - Get a specific channel
 export async function GET(
@@ -39,6 +42,7 @@ export async function GET(
       type: channel.type,
       destination: channel.destination,
       active: Boolean(channel.active),
+      secret: channel.secret,
     },
   });
 }
@@ -80,12 +84,13 @@ export async function PUT(
     type?: string;
     destination?: string;
     active?: number;
+    secret?: string;
   } = {};
 
   if (type !== undefined) {
-    if (!["telegram", "email"].includes(type)) {
+    if (!(CHANNEL_TYPES as readonly string[]).includes(type)) {
       return NextResponse.json(
-        { error: "type must be telegram or email. WhatsApp support is not yet available." },
+        { error: `type must be one of ${CHANNEL_TYPES.join(", ")}. WhatsApp support is not yet available.` },
         { status: 400 }
       );
     }
@@ -102,6 +107,30 @@ export async function PUT(
     updateData.destination = destination.trim();
   }
 
+  const newType = updateData.type ?? existingChannel.type;
+  // A push channel is tied to one browser subscription; re-subscribe instead
+  if (
+    (newType === "push" || existingChannel.type === "push") &&
+    (newType !== existingChannel.type || (updateData.destination ?? existingChannel.destination) !== existingChannel.destination)
+  ) {
+    return NextResponse.json(
+      { error: "Push channels can only be paused or deleted; subscribe again via /api/channels/push" },
+      { status: 400 }
+    );
+  }
+
+  const destinationError = validateChannelDestination(
+    newType,
+    updateData.destination ?? existingChannel.destination
+  );
+  if (destinationError) {
+    return NextResponse.json({ error: destinationError }, { status: 400 });
+  }
+
+  if (newType === "webhook" && !existingChannel.secret) {
+    updateData.secret = generateWebhookSecret();
+  }
+
   if (active !== undefined) {
     updateData.active = active ? 1 : 0;
   }
@@ -133,6 +162,7 @@ export async function PUT(
       type: updatedChannel.type,
       destination: updatedChannel.destination,
       active: Boolean(updatedChannel.active),
+      secret: updatedChannel.secret,
     },
   });
 }
@@ -255,6 +285,7 @@ export async function PATCH(
       type: updatedChannel.type,
       destination: updatedChannel.destination,
       active: Boolean(updatedChannel.active),
+      secret: updatedChannel.secret,
     },
   });
 }
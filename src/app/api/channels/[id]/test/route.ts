@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { notificationChannels } from "@/lib/schema";
+import { eq, and } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { buildWebhookPayload, sendWebhook } from "@/lib/notifiers/webhook";
+import { getVenueToday } from "@/lib/utils/venue-time";
+
+// POST /api/channels/[id]/test - Send a test delivery to a webhook channel
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const channelId = parseInt(id);
+  const userId = parseInt(session.user.id);
+
+  if (isNaN(channelId)) {
+    return NextResponse.json({ error: "Invalid channel ID" }, { status: 400 });
+  }
+
+  const channel = await db.query.notificationChannels.findFirst({
+    where: and(
+      eq(notificationChannels.id, channelId),
+      eq(notificationChannels.userId, userId)
+    ),
+  });
+
+  if (!channel) {
+    return NextResponse.json({ error: "Channel not found" }, { status: 404 });
+  }
+
+  if (channel.type !== "webhook" || !channel.secret) {
+    return NextResponse.json({ error: "Test delivery is only available for webhook channels" }, { status: 400 });
+  }
+
+  const payload = buildWebhookPayload(
+    [
+      {
+        venue: "victoria-park",
+        venueName: "Victoria Park",
+        date: getVenueToday(),
+        time: "7pm",
+        court: "Court 1",
+        oldStatus: "booked",
+        newStatus: "available",
+        price: "£10.00",
+      },
+    ],
+    "test"
+  );
+
+  try {
+    // A single attempt so the button reports the receiver's answer promptly
+    await sendWebhook(channel.destination, channel.secret, payload, { attempts: 1 });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    // Don't echo the receiver's status back, or the endpoint becomes a port scanner
+    console.error(`Test delivery to channel ${channel.id} failed:`, error);
+    return NextResponse.json({ error: "Test delivery failed" }, { status: 502 });
+  }
+}
@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { notificationChannels } from "@/lib/schema";
+import { and, eq } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { parseSessionUserId } from "@/lib/utils/fetch-helpers";
+import { PushTarget, getVapidKeys, validatePushSubscription } from "@/lib/notifiers/web-push";
+
+// GET /api/channels/push - VAPID public key for pushManager.subscribe()
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const vapid = getVapidKeys();
+  if (!vapid) {
+    return NextResponse.json({ error: "Push notifications are not configured" }, { status: 503 });
+  }
+
+  return NextResponse.json({ publicKey: vapid.publicKey });
+}
+
+// POST /api/channels/push - Save this browser's push subscription as a channel
+export async function POST(request: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = parseSessionUserId(session);
+    const { subscription } = await request.json();
+
+    const subscriptionError = validatePushSubscription(subscription);
+    if (subscriptionError) {
+      return NextResponse.json({ error: subscriptionError }, { status: 400 });
+    }
+
+    const { endpoint, keys } = subscription as PushTarget;
+    const pushKeys = JSON.stringify({ p256dh: keys.p256dh, auth: keys.auth });
+
+    // Subscribing the same browser again refreshes its keys and reactivates it
+    const [channel] = await db
+      .insert(notificationChannels)
+      .values({ userId, type: "push", destination: endpoint, active: 1, pushKeys })
+      .onConflictDoUpdate({
+        target: [notificationChannels.userId, notificationChannels.type, notificationChannels.destination],
+        set: { active: 1, pushKeys },
+      })
+      .returning();
+
+    return NextResponse.json({
+      channel: {
+        id: channel.id,
+        type: channel.type,
+        destination: channel.destination,
+        active: Boolean(channel.active),
+        secret: channel.secret,
+      },
+    });
+  } catch (error) {
+    console.error("Error saving push subscription:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save push subscription" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/channels/push - Remove this browser's subscription
+export async function DELETE(request: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = parseSessionUserId(session);
+    const { endpoint } = await request.json();
+
+    if (typeof endpoint !== "string" || endpoint === "") {
+      return NextResponse.json({ error: "endpoint is required" }, { status: 400 });
+    }
+
+    const deleted = await db
+      .delete(notificationChannels)
+      .where(
+        and(
+          eq(notificationChannels.userId, userId),
+          eq(notificationChannels.type, "push"),
+          eq(notificationChannels.destination, endpoint)
+        )
+      )
+      .returning();
+
+    if (deleted.length === 0) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing push subscription:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to remove push subscription" },
+      { status: 500 }
+    );
+  }
+}
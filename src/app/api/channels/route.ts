@@ -1,9 +1,12 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { notificationChannels } from "@/lib/schema";
-import { eq } from "drizzle-orm";
+import { notificationChannels, notificationDeliveries } from "@/lib/schema";
+import { desc, eq } from "drizzle-orm";
 import { auth } from "@/lib/auth";
 import { parseSessionUserId } from "@/lib/utils/fetch-helpers";
+import { CHANNEL_TYPES } from "@/lib/constants";
+import { generateWebhookSecret } from "@/lib/notifiers/webhook";
+import { validateChannelDestination } from "@/lib/notifiers/registry";
 
 // GET /api/channels - List user's notification channels
 export async function GET() {
@@ -18,13 +21,38 @@ export async function GET() {
       where: eq(notificationChannels.userId, userId),
     });
 
+    // Latest delivery per channel, so failing or deactivated channels can say why
+    const deliveries = await db
+      .select()
+      .from(notificationDeliveries)
+      .where(eq(notificationDeliveries.userId, userId))
+      .orderBy(desc(notificationDeliveries.id));
+    const lastDelivery = new Map<number, (typeof deliveries)[number]>();
+    for (const delivery of deliveries) {
+      if (!lastDelivery.has(delivery.channelId)) lastDelivery.set(delivery.channelId, delivery);
+    }
+
     return NextResponse.json({
-      channels: channels.map((c) => ({
-        id: c.id,
-        type: c.type,
-        destination: c.destination,
-        active: Boolean(c.active),
-      })),
+      channels: channels.map((c) => {
+        const delivery = lastDelivery.get(c.id);
+        return {
+          id: c.id,
+          type: c.type,
+          destination: c.destination,
+          active: Boolean(c.active),
+          mutedUntil: c.mutedUntil,
+          secret: c.secret,
+          lastDelivery: delivery
+            ? {
+                status: delivery.status,
+                attempts: delivery.attempts,
+                lastError: delivery.lastError,
+                nextAttemptAt: delivery.nextAttemptAt,
+                updatedAt: delivery.updatedAt,
+              }
+            : null,
+        };
+      }),
     });
   } catch (error) {
     console.error("Error fetching channels:", error);
@@ -71,14 +99,27 @@ export async function POST(request: Request) {
     );
   }
 
-  // Only allow telegram and email (whatsapp not yet implemented)
-  if (!["telegram", "email"].includes(type)) {
+  // whatsapp is not yet implemented
+  if (!(CHANNEL_TYPES as readonly string[]).includes(type)) {
     return NextResponse.json(
-      { error: "type must be telegram or email. WhatsApp support is not yet available." },
+      { error: `type must be one of ${CHANNEL_TYPES.join(", ")}. WhatsApp support is not yet available.` },
       { status: 400 }
     );
   }
 
+  // Push channels need the browser's encryption keys
+  if (type === "push") {
+    return NextResponse.json(
+      { error: "Push channels are created by subscribing a browser via /api/channels/push" },
+      { status: 400 }
+    );
+  }
+
+  const destinationError = validateChannelDestination(type, trimmedDestination);
+  if (destinationError) {
+    return NextResponse.json({ error: destinationError }, { status: 400 });
+  }
+
   const [channel] = await db
     .insert(notificationChannels)
     .values({
@@ -86,6 +127,8 @@ export async function POST(request: Request) {
       type,
       destination: trimmedDestination,
       active: 1,
+      // Webhook payloads are signed with a per-channel secret
+      secret: type === "webhook" ? generateWebhookSecret() : null,
     })
     .returning();
 
@@ -96,6 +139,7 @@ export async function POST(request: Request) {
         type: channel.type,
         destination: channel.destination,
         active: Boolean(channel.active),
+        secret: channel.secret,
       },
     });
   } catch (error) {
@@ -1,12 +1,34 @@
 import { NextResponse } from "next/server";
 import { runScheduledScrape } from "@/lib/scrape-scheduler";
-import { ensureVenuesExist, storeAndDiff } from "@/lib/differ";
-import { notifyUsers, sendScrapeFailureAlert, sendScrapeSummary } from "@/lib/notifiers";
+import { storeAndDiff } from "@/lib/differ";
+import { ensureVenuesExist } from "@/lib/venues";
+import {
+  notifyUsers,
+  flushPendingNotifications,
+  sendSlotGoneUpdates,
+  sendScrapeFailureAlert,
+  sendScrapeSummary,
+} from "@/lib/notifiers";
 import { db } from "@/lib/db";
-import { slots, notificationLog, scrapeTargets } from "@/lib/schema";
+import {
+  slots,
+  slotEvents,
+  notificationLog,
+  notificationDeliveries,
+  pendingNotifications,
+  dismissedSlots,
+  scrapeTargets,
+} from "@/lib/schema";
 import { lt, sql } from "drizzle-orm";
-import { proxyManager, formatBytes } from "@/lib/proxy-manager";
+import { proxyManager } from "@/lib/proxy-manager";
+import { formatBytes } from "@/lib/utils/format-bytes";
 import type { ScrapeStats } from "@/lib/scraper";
+import { SLOT_HISTORY_RETENTION_DAYS } from "@/lib/analytics";
+import { expireWatches } from "@/lib/watches";
+import { deleteExpiredLinkCodes } from "@/lib/telegram-bot";
+import { deleteOldScrapeRuns } from "@/lib/scrape-log";
+import { alertDownVenues } from "@/lib/venue-health";
+import { addDays, getVenueToday } from "@/lib/utils/venue-time";
 
 // Protect the cron endpoint with a secret (skip in development)
 const CRON_SECRET = process.env.CRON_SECRET;
@@ -18,18 +40,52 @@ async function runCleanup() {
 
     // Keep data for 7 days (can be configured)
     const daysToKeep = parseInt(process.env.CLEANUP_DAYS || "7", 10);
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
-    const cutoff = cutoffDate.toISOString().split("T")[0];
+    const today = getVenueToday();
+    const cutoff = addDays(today, -daysToKeep);
 
     // Delete old slots
     const deletedSlots = await db.delete(slots).where(lt(slots.date, cutoff)).returning();
     console.log(`Deleted ${deletedSlots.length} old slots (before ${cutoff})`);
 
+    // Delete old slot history (kept longer than slots for cancellation analytics)
+    const historyCutoff = addDays(today, -Math.max(daysToKeep, SLOT_HISTORY_RETENTION_DAYS));
+    const deletedEvents = await db.delete(slotEvents).where(lt(slotEvents.date, historyCutoff)).returning();
+    console.log(`Deleted ${deletedEvents.length} old slot events`);
+
     // Delete old notification logs
     const deletedLogs = await db.delete(notificationLog).where(lt(notificationLog.sentAt, cutoff)).returning();
     console.log(`Deleted ${deletedLogs.length} old notification logs`);
 
+    // Delivery history (the latest rows explain a failing channel on the dashboard)
+    const deletedDeliveries = await db
+      .delete(notificationDeliveries)
+      .where(lt(notificationDeliveries.createdAt, cutoff))
+      .returning();
+    console.log(`Deleted ${deletedDeliveries.length} old notification deliveries`);
+
+    // Drop queued notifications that never became deliverable
+    const deletedPending = await db
+      .delete(pendingNotifications)
+      .where(lt(pendingNotifications.createdAt, cutoff))
+      .returning();
+    console.log(`Deleted ${deletedPending.length} stale queued notifications`);
+
+    // Scrape run log (attempts go with their runs)
+    const deletedRuns = await deleteOldScrapeRuns(cutoff);
+    console.log(`Deleted ${deletedRuns} old scrape runs`);
+
+    // Deactivate date-limited watches whose dates have passed
+    const expiredWatches = await expireWatches();
+    console.log(`Expired ${expiredWatches} watches`);
+
+    // Forget "Not interested" slots along with the slots themselves
+    const deletedDismissals = await db.delete(dismissedSlots).where(lt(dismissedSlots.createdAt, cutoff)).returning();
+    console.log(`Deleted ${deletedDismissals.length} old slot dismissals`);
+
+    // Drop unused Telegram link codes
+    const deletedCodes = await deleteExpiredLinkCodes();
+    console.log(`Deleted ${deletedCodes} expired Telegram link codes`);
+
     // Vacuum database to reclaim space
     await db.run(sql`VACUUM`);
     console.log("Database vacuumed");
@@ -60,7 +116,10 @@ async function runScrapeJob(force = false) {
     const scrapeDays = parseInt(process.env.SCRAPE_DAYS || "8", 10);
 
     // Run scheduled scrape (only scrapes targets that are due)
-    const { slots: allSlots, targetsScraped, targetsSkipped, errors } = await runScheduledScrape(scrapeDays);
+    const { slots: allSlots, scrapedTargets, targetsScraped, targetsSkipped, errors } = await runScheduledScrape(
+      scrapeDays,
+      force ? "forced" : "cron"
+    );
 
     // Build stats for alerting/summary
     const durationMs = Date.now() - startTime;
@@ -92,17 +151,29 @@ async function runScrapeJob(force = false) {
       await sendScrapeSummary(stats);
 
       // Store slots and detect changes
-      const changes = await storeAndDiff(allSlots);
+      const changes = await storeAndDiff(allSlots, new Date(), scrapedTargets);
       console.log(`Detected ${changes.length} newly available slots`);
 
       // Notify users about changes
       if (changes.length > 0) {
         await notifyUsers(changes);
       }
+
+      // Mark alerted slots that have since been rebooked
+      const gone = await sendSlotGoneUpdates();
+      if (gone > 0) console.log(`Updated ${gone} alerted slots that are no longer available`);
     } else {
       console.log("No targets were due for scraping");
     }
 
+    // Tell the admin about venues that have been failing for a while (blocked venues aren't scraped above)
+    const downVenues = await alertDownVenues();
+    if (downVenues > 0) console.log(`Alerted admin about ${downVenues} venues with no recent successful scrape`);
+
+    // Deliver queued notifications whose digest interval, summary hour or quiet hours allow it
+    const delivered = await flushPendingNotifications();
+    console.log(`Delivered ${delivered} queued notifications`);
+
     // Run cleanup after scraping
     await runCleanup();
 
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { venues } from "@/lib/schema";
+import { eq } from "drizzle-orm";
+import { getSlotHistory } from "@/lib/differ";
+
+// GET /api/slots/history?venue=<slug>&date=<YYYY-MM-DD> - Status transitions per slot
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const venueSlug = searchParams.get("venue");
+  const date = searchParams.get("date");
+
+  if (!venueSlug || !date) {
+    return NextResponse.json(
+      { error: "Missing venue or date parameter" },
+      { status: 400 }
+    );
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return NextResponse.json(
+      { error: "date must be in YYYY-MM-DD format" },
+      { status: 400 }
+    );
+  }
+
+  const venue = await db.query.venues.findFirst({
+    where: eq(venues.slug, venueSlug),
+  });
+
+  if (!venue) {
+    return NextResponse.json({ error: "Venue not found" }, { status: 404 });
+  }
+
+  const events = await getSlotHistory(venue.id, date);
+
+  // Group into one timeline per slot (time + court)
+  const timelines = new Map<string, { time: string; court: string; events: { oldStatus: string | null; newStatus: string; price: string | null; observedAt: string | null }[] }>();
+  for (const event of events) {
+    const key = `${event.time}|${event.court}`;
+    if (!timelines.has(key)) {
+      timelines.set(key, { time: event.time, court: event.court, events: [] });
+    }
+    timelines.get(key)!.events.push({
+      oldStatus: event.oldStatus,
+      newStatus: event.newStatus,
+      price: event.price,
+      observedAt: event.observedAt,
+    });
+  }
+
+  return NextResponse.json({
+    venue: { slug: venue.slug, name: venue.name },
+    date,
+    slots: Array.from(timelines.values()),
+  });
+}
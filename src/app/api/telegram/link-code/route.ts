@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { createLinkCode } from "@/lib/telegram-bot";
+import { parseSessionUserId } from "@/lib/utils/fetch-helpers";
+
+// POST /api/telegram/link-code - Generate a code to send to the bot as /link <code>,
+// plus a t.me deep link that links the chat in one tap
+export async function POST() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { code, expiresAt, deepLink } = await createLinkCode(parseSessionUserId(session));
+
+    return NextResponse.json({ code, expiresAt, deepLink });
+  } catch (error) {
+    console.error("Error creating Telegram link code:", error);
+    return NextResponse.json({ error: "Failed to create link code" }, { status: 500 });
+  }
+}
@@ -1,10 +1,11 @@
 import { NextResponse } from "next/server";
-import { sendTelegramMessage } from "@/lib/notifiers/telegram";
+import { answerTelegramCallbackQuery, sendTelegramMessage } from "@/lib/notifiers/telegram";
+import { handleTelegramCallback, handleTelegramUpdate, TelegramUpdate } from "@/lib/telegram-bot";
 
 const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
 const TELEGRAM_WEBHOOK_SECRET = process.env.TELEGRAM_WEBHOOK_SECRET;
 
-// POST /api/telegram/webhook - Handle incoming Telegram bot messages
+// POST /api/telegram/webhook - Handle incoming Telegram bot messages and commands
 export async function POST(request: Request) {
   if (!TELEGRAM_BOT_TOKEN) {
     return NextResponse.json({ error: "Telegram bot not configured" }, { status: 500 });
@@ -18,26 +19,27 @@ export async function POST(request: Request) {
   }
 
   try {
-    const update = await request.json();
-
-    // Handle message updates
-    if (update.message) {
-      const chatId = update.message.chat.id;
-      const firstName = update.message.chat.first_name || "there";
-
-      // Respond with chat ID
-      const responseMessage = `👋 Hello ${firstName}!\n\n` +
-        `Your Telegram Chat ID is:\n` +
-        `<b>${chatId}</b>\n\n` +
-        `Copy this number and use it when setting up notifications in the dashboard.\n\n` +
-        `🔗 Visit your dashboard to configure alerts: ${process.env.NEXT_PUBLIC_APP_URL || "https://your-app.com"}/dashboard?tab=settings`;
-
-      await sendTelegramMessage(String(chatId), responseMessage);
-
+    const update: TelegramUpdate = await request.json();
+
+    // Buttons on alerts ("Mute this watch today", "Not interested")
+    if (update.callback_query) {
+      const toast = await handleTelegramCallback(update.callback_query);
+      // The action has run; a failed answer (e.g. query too old) must not make
+      // Telegram redeliver the update and run it again
+      try {
+        await answerTelegramCallbackQuery(update.callback_query.id, toast);
+      } catch (error) {
+        console.error("Failed to answer Telegram callback query:", error);
+      }
       return NextResponse.json({ ok: true });
     }
 
-    // Handle other update types (e.g., edited messages, channel posts)
+    // Commands (/link, /watches, /pause, ...) are handled in lib/telegram-bot
+    const reply = await handleTelegramUpdate(update);
+    if (reply && update.message) {
+      await sendTelegramMessage(String(update.message.chat.id), reply);
+    }
+
     return NextResponse.json({ ok: true });
   } catch (error) {
     console.error("Telegram webhook error:", error);
@@ -0,0 +1,120 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { users } from "@/lib/schema";
+import { eq } from "drizzle-orm";
+import { DELIVERY_MODES, DeliveryMode } from "@/lib/constants";
+import { MAX_DIGEST_INTERVAL_MINUTES, MIN_DIGEST_INTERVAL_MINUTES } from "@/lib/notifiers/schedule";
+
+function isHour(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 23;
+}
+
+function toPreferences(user: typeof users.$inferSelect) {
+  return {
+    deliveryMode: user.deliveryMode,
+    digestIntervalMinutes: user.digestIntervalMinutes ?? 60,
+    dailySummaryHour: user.dailySummaryHour ?? 8,
+    quietHoursStart: user.quietHoursStart,
+    quietHoursEnd: user.quietHoursEnd,
+  };
+}
+
+// GET /api/user/preferences - Notification delivery preferences
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, parseInt(session.user.id)),
+  });
+
+  if (!user) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ preferences: toPreferences(user) });
+}
+
+// PATCH /api/user/preferences - Update delivery mode, digest interval, summary hour and quiet hours
+export async function PATCH(request: Request) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json();
+  const { deliveryMode, digestIntervalMinutes, dailySummaryHour, quietHoursStart, quietHoursEnd } = body;
+
+  const updateData: {
+    deliveryMode?: DeliveryMode;
+    digestIntervalMinutes?: number;
+    dailySummaryHour?: number;
+    quietHoursStart?: number | null;
+    quietHoursEnd?: number | null;
+  } = {};
+
+  if (deliveryMode !== undefined) {
+    if (!DELIVERY_MODES.includes(deliveryMode)) {
+      return NextResponse.json(
+        { error: `deliveryMode must be one of: ${DELIVERY_MODES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    updateData.deliveryMode = deliveryMode;
+  }
+
+  if (digestIntervalMinutes !== undefined) {
+    if (
+      !Number.isInteger(digestIntervalMinutes) ||
+      digestIntervalMinutes < MIN_DIGEST_INTERVAL_MINUTES ||
+      digestIntervalMinutes > MAX_DIGEST_INTERVAL_MINUTES
+    ) {
+      return NextResponse.json(
+        {
+          error: `digestIntervalMinutes must be between ${MIN_DIGEST_INTERVAL_MINUTES} and ${MAX_DIGEST_INTERVAL_MINUTES}`,
+        },
+        { status: 400 }
+      );
+    }
+    updateData.digestIntervalMinutes = digestIntervalMinutes;
+  }
+
+  if (dailySummaryHour !== undefined) {
+    if (!isHour(dailySummaryHour)) {
+      return NextResponse.json({ error: "dailySummaryHour must be an hour from 0 to 23" }, { status: 400 });
+    }
+    updateData.dailySummaryHour = dailySummaryHour;
+  }
+
+  // Quiet hours are set (or cleared) together
+  if (quietHoursStart !== undefined || quietHoursEnd !== undefined) {
+    const cleared = quietHoursStart === null && quietHoursEnd === null;
+    if (!cleared && !(isHour(quietHoursStart) && isHour(quietHoursEnd))) {
+      return NextResponse.json(
+        { error: "quietHoursStart and quietHoursEnd must both be hours from 0 to 23, or both null" },
+        { status: 400 }
+      );
+    }
+    updateData.quietHoursStart = quietHoursStart;
+    updateData.quietHoursEnd = quietHoursEnd;
+  }
+
+  if (Object.keys(updateData).length === 0) {
+    return NextResponse.json({ error: "No changes provided" }, { status: 400 });
+  }
+
+  const [user] = await db
+    .update(users)
+    .set(updateData)
+    .where(eq(users.id, parseInt(session.user.id)))
+    .returning();
+
+  if (!user) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ preferences: toPreferences(user) });
+}
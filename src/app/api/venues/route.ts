@@ -1,10 +1,18 @@
 import { NextResponse } from "next/server";
-import { VENUES } from "@/lib/constants";
+import { ensureVenuesExist, getEnabledVenues } from "@/lib/venues";
 
 export async function GET() {
-  // Return venues from the scraper config (always up to date)
-  // Could also fetch from DB if we need dynamic venues
+  // Venue catalogue lives in the database so admins can add venues without a redeploy
+  await ensureVenuesExist();
+  const enabledVenues = await getEnabledVenues();
+
   return NextResponse.json({
-    venues: VENUES,
+    venues: enabledVenues.map((v) => ({
+      slug: v.slug,
+      name: v.name,
+      type: v.type,
+      address: v.address ?? null,
+      timezone: v.timezone,
+    })),
   });
 }
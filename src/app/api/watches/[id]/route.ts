@@ -3,6 +3,7 @@ import { db } from "@/lib/db";
 import { watches, venues } from "@/lib/schema";
 import { eq, and } from "drizzle-orm";
 import { auth } from "@/lib/auth";
+import { parseWatchRules, validateWatchInput } from "@/lib/watch-rules";
 
 // GET /api/watches/[id] - Get a specific watch
 export async function GET(
@@ -63,6 +64,9 @@ export async function GET(
       venue: venue ? { slug: venue.slug, name: venue.name } : null,
       dayTimes,
       active: Boolean(watch.active),
+      notifyNewDates: Boolean(watch.notifyNewDates),
+      ...parseWatchRules(watch),
+      expired: Boolean(watch.expiredAt),
     },
   });
 }
@@ -95,11 +99,34 @@ export async function PUT(
   }
 
   const body = await request.json();
-  const { dayTimes, active } = body;
+  const {
+    dayTimes,
+    active,
+    notifyNewDates,
+    minConsecutiveHours,
+    excludedCourts,
+    maxPrice,
+    specificDates,
+    startDate,
+    endDate,
+  } = body;
+
+  const validationError = validateWatchInput(body);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
 
   const updateData: {
     dayTimes?: string | null;
     active?: number;
+    notifyNewDates?: number;
+    minConsecutiveHours?: number;
+    excludedCourts?: string | null;
+    maxPrice?: number | null;
+    specificDates?: string | null;
+    startDate?: string | null;
+    endDate?: string | null;
+    expiredAt?: string | null;
   } = {};
 
   if (dayTimes !== undefined) {
@@ -110,6 +137,41 @@ export async function PUT(
     updateData.active = active ? 1 : 0;
   }
 
+  if (notifyNewDates !== undefined) {
+    updateData.notifyNewDates = notifyNewDates ? 1 : 0;
+  }
+
+  if (minConsecutiveHours !== undefined) {
+    updateData.minConsecutiveHours = minConsecutiveHours ?? 1;
+  }
+
+  if (excludedCourts !== undefined) {
+    updateData.excludedCourts = excludedCourts?.length ? JSON.stringify(excludedCourts) : null;
+  }
+
+  if (maxPrice !== undefined) {
+    updateData.maxPrice = maxPrice;
+  }
+
+  if (specificDates !== undefined) {
+    updateData.specificDates = specificDates?.length ? JSON.stringify([...specificDates].sort()) : null;
+  }
+
+  if (startDate !== undefined) {
+    updateData.startDate = startDate || null;
+  }
+
+  if (endDate !== undefined) {
+    updateData.endDate = endDate || null;
+  }
+
+  // New dates revive an expired watch; the cron expires it again if they have also passed
+  const datesChanged = specificDates !== undefined || startDate !== undefined || endDate !== undefined;
+  if (existingWatch.expiredAt && active !== false && (datesChanged || active)) {
+    updateData.active = 1;
+    updateData.expiredAt = null;
+  }
+
   const updatedWatches = await db
     .update(watches)
     .set(updateData)
@@ -159,6 +221,9 @@ export async function PUT(
       venue: venue ? { slug: venue.slug, name: venue.name } : null,
       dayTimes: responseDayTimes,
       active: Boolean(updatedWatch.active),
+      notifyNewDates: Boolean(updatedWatch.notifyNewDates),
+      ...parseWatchRules(updatedWatch),
+      expired: Boolean(updatedWatch.expiredAt),
     },
   });
 }
@@ -245,7 +310,7 @@ export async function PATCH(
 
   const updatedWatches = await db
     .update(watches)
-    .set({ active: active ? 1 : 0 })
+    .set({ active: active ? 1 : 0, ...(active ? { expiredAt: null } : {}) })
     .where(and(eq(watches.id, watchId), eq(watches.userId, userId)))
     .returning();
 
@@ -292,6 +357,9 @@ export async function PATCH(
       venue: venue ? { slug: venue.slug, name: venue.name } : null,
       dayTimes,
       active: Boolean(updatedWatch.active),
+      notifyNewDates: Boolean(updatedWatch.notifyNewDates),
+      ...parseWatchRules(updatedWatch),
+      expired: Boolean(updatedWatch.expiredAt),
     },
   });
 }
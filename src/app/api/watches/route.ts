@@ -3,6 +3,7 @@ import { db } from "@/lib/db";
 import { watches, venues } from "@/lib/schema";
 import { eq } from "drizzle-orm";
 import { auth } from "@/lib/auth";
+import { parseWatchRules, validateWatchInput } from "@/lib/watch-rules";
 
 // GET /api/watches - List user's watches
 export async function GET() {
@@ -51,6 +52,9 @@ export async function GET() {
         venue: venue ? { slug: venue.slug, name: venue.name } : null,
         dayTimes,
         active: Boolean(watch.active),
+        notifyNewDates: Boolean(watch.notifyNewDates),
+        ...parseWatchRules(watch),
+        expired: Boolean(watch.expiredAt),
       };
     })
   );
@@ -67,7 +71,22 @@ export async function POST(request: Request) {
 
   const userId = parseInt(session.user.id);
   const body = await request.json();
-  const { venueSlug, dayTimes } = body;
+  const {
+    venueSlug,
+    dayTimes,
+    notifyNewDates,
+    minConsecutiveHours,
+    excludedCourts,
+    maxPrice,
+    specificDates,
+    startDate,
+    endDate,
+  } = body;
+
+  const validationError = validateWatchInput(body);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
 
   // Get venue ID if provided
   let venueId = null;
@@ -85,6 +104,13 @@ export async function POST(request: Request) {
       venueId,
       dayTimes: dayTimes ? JSON.stringify(dayTimes) : null,
       active: 1,
+      notifyNewDates: notifyNewDates ? 1 : 0,
+      minConsecutiveHours: minConsecutiveHours ?? 1,
+      excludedCourts: excludedCourts?.length ? JSON.stringify(excludedCourts) : null,
+      maxPrice: maxPrice ?? null,
+      specificDates: specificDates?.length ? JSON.stringify([...specificDates].sort()) : null,
+      startDate: startDate || null,
+      endDate: endDate || null,
     })
     .returning();
 
@@ -103,6 +129,9 @@ export async function POST(request: Request) {
       venue: venue ? { slug: venue.slug, name: venue.name } : null,
       dayTimes: watch.dayTimes ? JSON.parse(watch.dayTimes) : null,
       active: Boolean(watch.active),
+      notifyNewDates: Boolean(watch.notifyNewDates),
+      ...parseWatchRules(watch),
+      expired: Boolean(watch.expiredAt),
     },
   });
 }
@@ -4,24 +4,34 @@ import { Suspense, useEffect, useState, Fragment, useCallback } from "react";
 import { useSession, signOut } from "next-auth/react";
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { VENUES } from "@/lib/constants";
-import { getBookingUrl } from "@/lib/utils/link-helpers";
+import { MAX_CONSECUTIVE_HOURS, WEEK_DAYS, matchesTimePreferences } from "@/lib/watch-rules";
+import { formatSlotDate, getUpcomingDates } from "@/lib/utils/venue-time";
+import { formatSlotHour } from "@/lib/utils/slot-time";
+import { formatBytes } from "@/lib/utils/format-bytes";
+import { DEFAULT_DAY_HOURS, DayHours, OpeningHours, parseOpeningHours } from "@/lib/opening-hours";
 
 interface Slot {
   venueSlug?: string;
   venueName?: string;
   time: string;
   court: string;
-  status: "available" | "booked" | "closed" | "coaching";
+  status: "available" | "booked" | "closed" | "coaching" | "unknown";
   price: string | null;
+  updatedAt?: string | null;
+  stale?: boolean;
+  staleSince?: string | null;
 }
 
 interface VenueAvailability {
-  venues?: { slug: string; name: string }[];
+  venues?: { slug: string; name: string; bookingUrl?: string }[];
   venue?: { slug: string; name: string }; // Keep for backward compatibility
   date: string;
   slots: Slot[];
-  lastUpdated: string | null;
+}
+
+interface VenueOption {
+  slug: string;
+  name: string;
 }
 
 interface Watch {
@@ -41,6 +51,14 @@ interface Watch {
   weekdayTimes?: string[];
   weekendTimes?: string[];
   active: boolean;
+  notifyNewDates: boolean;
+  minConsecutiveHours: number;
+  excludedCourts: string[];
+  maxPrice: number | null;
+  specificDates: string[];
+  startDate: string | null;
+  endDate: string | null;
+  expired: boolean;
 }
 
 interface Channel {
@@ -48,6 +66,14 @@ interface Channel {
   type: string;
   destination: string;
   active: boolean;
+  secret?: string | null; // Webhook signing secret
+  lastDelivery?: {
+    status: "sent" | "retrying" | "failed";
+    attempts: number;
+    lastError: string | null;
+    nextAttemptAt: string | null;
+    updatedAt: string | null;
+  } | null;
 }
 
 interface AdminStats {
@@ -88,9 +114,28 @@ interface AdminVenue {
   id: number;
   slug: string;
   name: string;
-  type?: string;
-  clubsparkHost?: string;
-  clubsparkId?: string;
+  type: string;
+  clubsparkHost: string | null;
+  clubsparkId: string | null;
+  address: string | null;
+  timezone: string;
+  openingHours: string | null;
+  enabled: number;
+  health: VenueHealth | null;
+}
+
+interface VenueHealth {
+  consecutiveFailures: number;
+  failingSince: string | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  blockedUntil: string | null;
+}
+
+interface VenueClosure {
+  id: number;
+  date: string;
+  reason: string | null;
 }
 
 interface VenueFormData {
@@ -99,6 +144,9 @@ interface VenueFormData {
   type: string;
   clubsparkHost: string | null;
   clubsparkId: string | null;
+  address: string | null;
+  timezone: string;
+  openingHours: OpeningHours | null;
 }
 
 interface RegistrationRequest {
@@ -111,11 +159,47 @@ interface RegistrationRequest {
   reviewedAt: string | null;
 }
 
-interface SystemLog {
+interface CancellationCell {
+  dayOfWeek: number;
+  hour: number;
+  bookedSlots: number;
+  cancellations: number;
+  rate: number;
+  medianLeadHours: number | null;
+  leadTimes: Record<string, number>;
+}
+
+interface VenueCancellationStats {
+  slug: string;
+  name: string;
+  cells: CancellationCell[];
+}
+
+interface ScrapeRun {
   id: number;
-  timestamp: string;
-  level: "info" | "warn" | "error";
-  message: string;
+  trigger: "cron" | "forced" | "admin";
+  status: "running" | "completed" | "failed";
+  startedAt: string;
+  finishedAt: string | null;
+  targetsScraped: number;
+  targetsFailed: number;
+  slotCount: number;
+  requests: number;
+  bytes: number;
+  error: string | null;
+}
+
+interface ScrapeAttempt {
+  id: number;
+  venueSlug: string;
+  date: string;
+  endDate: string | null;
+  startedAt: string;
+  durationMs: number;
+  bytes: number;
+  httpStatus: number | null;
+  slotCount: number;
+  error: string | null;
 }
 
 interface DbStats {
@@ -135,26 +219,42 @@ function getErrorMessage(error: unknown): string {
   return String(error);
 }
 
-function getNext7Days(): string[] {
-  const dates: string[] = [];
-  const today = new Date();
+function formatDayHours(hours: DayHours): string {
+  return `${formatSlotHour(hours.open)}–${formatSlotHour(hours.close % 24)}`;
+}
 
-  for (let i = 0; i < 7; i++) {
-    const date = new Date(today);
-    date.setDate(today.getDate() + i);
-    dates.push(date.toISOString().split("T")[0]);
-  }
+// Summary of a venue's stored opening hours for the admin venue list
+function describeOpeningHours(json: string | null): string {
+  const hours = parseOpeningHours(json);
+  if (!hours) return formatDayHours(DEFAULT_DAY_HOURS);
 
-  return dates;
+  const days = WEEK_DAYS.map((day) => (hours[day] === undefined ? DEFAULT_DAY_HOURS : hours[day]));
+  const first = days[0];
+  const same = days.every((d) => d?.open === first?.open && d?.close === first?.close);
+  return same && first ? formatDayHours(first) : "custom hours";
 }
 
-function formatDate(dateStr: string): string {
-  const date = new Date(dateStr);
-  return date.toLocaleDateString("en-GB", {
-    weekday: "short",
-    day: "numeric",
-    month: "short",
-  });
+// Health badge for the admin venue list: blocked (circuit open), failing or healthy
+function describeVenueHealth(health: VenueHealth | null): { label: string; className: string } | null {
+  if (!health) return null;
+  if (health.blockedUntil && new Date(health.blockedUntil) > new Date()) {
+    return {
+      label: `Blocked until ${new Date(health.blockedUntil).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`,
+      className: "bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300",
+    };
+  }
+  if (health.consecutiveFailures > 0) {
+    return {
+      label: `${health.consecutiveFailures} failed ${health.consecutiveFailures === 1 ? "run" : "runs"}`,
+      className: "bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300",
+    };
+  }
+  return { label: "Healthy", className: "bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300" };
+}
+
+// The dashboard's dates are the venues' (London) dates, whatever the browser's timezone
+function getNext7Days(): string[] {
+  return getUpcomingDates(7);
 }
 
 // localStorage utility helpers for dashboard preferences
@@ -181,19 +281,36 @@ function loadDashboardPreferences(): DashboardPreferences {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
       const prefs = JSON.parse(stored);
-      // Validate venues still exist
-      if (prefs.selectedVenues) {
-        const validVenues = prefs.selectedVenues.filter((slug: string) => 
-          VENUES.some(v => v.slug === slug)
-        );
-        prefs.selectedVenues = validVenues.length > 0 ? validVenues : [VENUES[0].slug];
+      // Venues are validated against the catalogue once it has loaded
+      if (!Array.isArray(prefs.selectedVenues)) {
+        prefs.selectedVenues = [];
       }
       return prefs;
     }
   } catch (error) {
     console.error("Failed to load preferences:", error);
   }
-  return { selectedVenues: [VENUES[0].slug] };
+  return { selectedVenues: [] };
+}
+
+// Venue catalogue comes from the database, so admins can add venues without a redeploy
+function useVenues(): VenueOption[] {
+  const [venueOptions, setVenueOptions] = useState<VenueOption[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/venues")
+      .then((res) => res.json())
+      .then((data) => {
+        if (!cancelled) setVenueOptions(data.venues || []);
+      })
+      .catch((error) => console.error("Failed to fetch venues:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return venueOptions;
 }
 
 function DashboardContent() {
@@ -206,10 +323,21 @@ function DashboardContent() {
   const [selectedVenues, setSelectedVenues] = useState<string[]>(() => {
     if (typeof window !== "undefined") {
       const prefs = loadDashboardPreferences();
-      return prefs.selectedVenues.length > 0 ? prefs.selectedVenues : [VENUES[0].slug];
+      return prefs.selectedVenues;
     }
-    return [VENUES[0].slug];
+    return [];
   });
+  const venueOptions = useVenues();
+
+  // Drop saved venues that no longer exist and fall back to the first venue
+  useEffect(() => {
+    if (venueOptions.length === 0) return;
+    setSelectedVenues((prev) => {
+      const valid = prev.filter((slug) => venueOptions.some((v) => v.slug === slug));
+      if (valid.length === prev.length && valid.length > 0) return prev;
+      return valid.length > 0 ? valid : [venueOptions[0].slug];
+    });
+  }, [venueOptions]);
 
   const [selectedDate, setSelectedDate] = useState(() => {
     if (typeof window !== "undefined") {
@@ -382,6 +510,14 @@ function DashboardContent() {
                 sunday: string[];
               } | null;
               active: number | boolean;
+              notifyNewDates?: boolean;
+              minConsecutiveHours?: number;
+              excludedCourts?: string[];
+              maxPrice?: number | null;
+              specificDates?: string[];
+              startDate?: string | null;
+              endDate?: string | null;
+              expired?: boolean;
             }) => ({
               id: w.id,
               venueSlug: w.venue?.slug || null,
@@ -396,6 +532,14 @@ function DashboardContent() {
                 sunday: [],
               },
               active: Boolean(w.active),
+              notifyNewDates: Boolean(w.notifyNewDates),
+              minConsecutiveHours: w.minConsecutiveHours ?? 1,
+              excludedCourts: w.excludedCourts ?? [],
+              maxPrice: w.maxPrice ?? null,
+              specificDates: w.specificDates ?? [],
+              startDate: w.startDate ?? null,
+              endDate: w.endDate ?? null,
+              expired: Boolean(w.expired),
             })
           )
         );
@@ -468,6 +612,13 @@ function DashboardContent() {
       saturday: string[];
       sunday: string[];
     };
+    notifyNewDates: boolean;
+    minConsecutiveHours: number;
+    excludedCourts: string[];
+    maxPrice: number | null;
+    specificDates: string[];
+    startDate: string | null;
+    endDate: string | null;
   }) => {
     try {
       // Create one watch per selected venue
@@ -479,6 +630,13 @@ function DashboardContent() {
             body: JSON.stringify({
               venueSlug,
               dayTimes: watchData.dayTimes,
+              notifyNewDates: watchData.notifyNewDates,
+              minConsecutiveHours: watchData.minConsecutiveHours,
+              excludedCourts: watchData.excludedCourts,
+              maxPrice: watchData.maxPrice,
+              specificDates: watchData.specificDates,
+              startDate: watchData.startDate,
+              endDate: watchData.endDate,
             }),
           })
         )
@@ -510,6 +668,13 @@ function DashboardContent() {
       saturday: string[];
       sunday: string[];
     };
+    notifyNewDates: boolean;
+    minConsecutiveHours: number;
+    excludedCourts: string[];
+    maxPrice: number | null;
+    specificDates: string[];
+    startDate: string | null;
+    endDate: string | null;
   }) => {
     try {
       const res = await fetch(`/api/watches/${watchId}`, {
@@ -517,6 +682,13 @@ function DashboardContent() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           dayTimes: watchData.dayTimes,
+          notifyNewDates: watchData.notifyNewDates,
+          minConsecutiveHours: watchData.minConsecutiveHours,
+          excludedCourts: watchData.excludedCourts,
+          maxPrice: watchData.maxPrice,
+          specificDates: watchData.specificDates,
+          startDate: watchData.startDate,
+          endDate: watchData.endDate,
         }),
       });
 
@@ -759,6 +931,64 @@ function DashboardContent() {
     }
   };
 
+  const handleTestChannel = async (channelId: number) => {
+    try {
+      const res = await fetch(`/api/channels/${channelId}/test`, { method: "POST" });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Test delivery failed");
+      }
+
+      showMessage("success", "Test delivery sent!");
+    } catch (error) {
+      showMessage("error", getErrorMessage(error));
+    }
+  };
+
+  // Subscribe this browser to Web Push and save it as a "push" channel
+  const handleEnablePush = async () => {
+    try {
+      if (!("serviceWorker" in navigator) || !("PushManager" in window)) {
+        throw new Error("This browser doesn't support push notifications. On iPhone, add the app to your Home Screen first.");
+      }
+
+      const keyRes = await fetch("/api/channels/push");
+      if (!keyRes.ok) {
+        const error = await keyRes.json();
+        throw new Error(error.error || "Push notifications are unavailable");
+      }
+      const { publicKey } = await keyRes.json();
+
+      if ((await Notification.requestPermission()) !== "granted") {
+        throw new Error("Notifications are blocked for this site");
+      }
+
+      const registration = await navigator.serviceWorker.register("/sw.js");
+      await navigator.serviceWorker.ready;
+      const base64 = publicKey.replace(/-/g, "+").replace(/_/g, "/");
+      const subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: Uint8Array.from(atob(base64), (c) => c.charCodeAt(0)),
+      });
+
+      const res = await fetch("/api/channels/push", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ subscription: subscription.toJSON() }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to save push subscription");
+      }
+
+      await fetchChannels();
+      showMessage("success", "Push notifications enabled on this device!");
+    } catch (error) {
+      showMessage("error", getErrorMessage(error));
+    }
+  };
+
   const handleToggleChannel = async (channelId: number, currentActive: boolean) => {
     try {
       const res = await fetch(`/api/channels/${channelId}`, {
@@ -780,11 +1010,17 @@ function DashboardContent() {
   };
 
   // Group slots by time and venue, aggregating counts and prices
-  const slotsByTimeAndVenue: Record<string, Record<string, { available: number; booked: number; closed: number; coaching: number; prices: number[] }>> = {};
+  const slotsByTimeAndVenue: Record<string, Record<string, { available: number; booked: number; closed: number; coaching: number; unknown: number; prices: number[] }>> = {};
   const allTimes = new Set<string>();
+  // Most recent time any shown slot was seen by a scrape
+  let lastUpdated: string | null = null;
   
   if (availability?.slots) {
     for (const slot of availability.slots) {
+      if (slot.updatedAt && (!lastUpdated || slot.updatedAt > lastUpdated)) {
+        lastUpdated = slot.updatedAt;
+      }
+
       const venueSlug = slot.venueSlug || "";
       const time = slot.time;
       allTimes.add(time);
@@ -793,7 +1029,7 @@ function DashboardContent() {
         slotsByTimeAndVenue[time] = {};
       }
       if (!slotsByTimeAndVenue[time][venueSlug]) {
-        slotsByTimeAndVenue[time][venueSlug] = { available: 0, booked: 0, closed: 0, coaching: 0, prices: [] };
+        slotsByTimeAndVenue[time][venueSlug] = { available: 0, booked: 0, closed: 0, coaching: 0, unknown: 0, prices: [] };
       }
       
       if (slot.status === "available") {
@@ -811,14 +1047,22 @@ function DashboardContent() {
         slotsByTimeAndVenue[time][venueSlug].closed++;
       } else if (slot.status === "coaching") {
         slotsByTimeAndVenue[time][venueSlug].coaching++;
+      } else if (slot.stale) {
+        slotsByTimeAndVenue[time][venueSlug].unknown++;
       }
     }
   }
 
+  // Booking links are built server-side by each venue's scraper adapter
+  const bookingUrls: Record<string, string> = {};
+  for (const v of availability?.venues ?? []) {
+    if (v.bookingUrl) bookingUrls[v.slug] = v.bookingUrl;
+  }
+
   // Get venue info for selected venues
   const selectedVenueInfo = selectedVenues
     .map((slug) => {
-      const venue = VENUES.find((v) => v.slug === slug);
+      const venue = venueOptions.find((v) => v.slug === slug);
       return venue ? { slug: venue.slug, name: venue.name } : null;
     })
     .filter((v): v is { slug: string; name: string } => v !== null);
@@ -978,7 +1222,7 @@ function DashboardContent() {
                   {selectedVenues.length === 0
                     ? "Select venues..."
                     : selectedVenues.length === 1
-                    ? VENUES.find((v) => v.slug === selectedVenues[0])?.name || "Select venues..."
+                    ? venueOptions.find((v) => v.slug === selectedVenues[0])?.name || "Select venues..."
                     : `${selectedVenues.length} venues selected`}
                 </span>
                 <svg
@@ -1013,17 +1257,17 @@ function DashboardContent() {
                       >
                         <input
                           type="checkbox"
-                          checked={selectedVenues.length === VENUES.length}
+                          checked={selectedVenues.length === venueOptions.length}
                           ref={(input) => {
                             if (input) {
-                              input.indeterminate = selectedVenues.length > 0 && selectedVenues.length < VENUES.length;
+                              input.indeterminate = selectedVenues.length > 0 && selectedVenues.length < venueOptions.length;
                             }
                           }}
                           onChange={(e) => {
                             if (e.target.checked) {
-                              setSelectedVenues(VENUES.map(v => v.slug));
+                              setSelectedVenues(venueOptions.map(v => v.slug));
                             } else {
-                              setSelectedVenues([VENUES[0].slug]);
+                              setSelectedVenues([venueOptions[0].slug]);
                             }
                           }}
                           className="w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
@@ -1033,7 +1277,7 @@ function DashboardContent() {
                         </span>
                       </label>
 
-                      {VENUES.map((venue) => {
+                      {venueOptions.map((venue) => {
                         const isSelected = selectedVenues.includes(venue.slug);
                         return (
                           <label
@@ -1077,7 +1321,7 @@ function DashboardContent() {
               {selectedVenues.length > 0 && (
                 <div className="mt-2 flex flex-wrap gap-2">
                   {selectedVenues.map((venueSlug) => {
-                    const venue = VENUES.find((v) => v.slug === venueSlug);
+                    const venue = venueOptions.find((v) => v.slug === venueSlug);
                     if (!venue) return null;
                     return (
                       <span
@@ -1118,7 +1362,7 @@ function DashboardContent() {
                       : "bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700"
                   }`}
                 >
-                  {formatDate(date)}
+                  {formatSlotDate(date)}
                 </button>
               ))}
             </div>
@@ -1130,16 +1374,16 @@ function DashboardContent() {
               <div className="flex justify-between items-start">
                 <div>
                   <h2 className="font-semibold">Availability</h2>
-                  <p className="text-sm text-gray-500">{formatDate(selectedDate)}</p>
+                  <p className="text-sm text-gray-500">{formatSlotDate(selectedDate)}</p>
                 </div>
-                {availability?.lastUpdated && (
+                {lastUpdated && (
                   <div className="flex items-center gap-2 px-3 py-1.5 bg-gray-100 dark:bg-gray-700 rounded-full border border-gray-200 dark:border-gray-600">
                     <span className="relative flex h-2 w-2">
                       <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-green-400 opacity-75"></span>
                       <span className="relative inline-flex rounded-full h-2 w-2 bg-green-500"></span>
                     </span>
                     <span className="text-xs font-medium text-gray-600 dark:text-gray-300">
-                      Updated {new Date(availability.lastUpdated).toLocaleString("en-GB", {
+                      Updated {new Date(lastUpdated).toLocaleString("en-GB", {
                         day: "numeric",
                         month: "short",
                         hour: "2-digit",
@@ -1197,6 +1441,7 @@ function DashboardContent() {
                             booked: 0,
                             closed: 0,
                             coaching: 0,
+                            unknown: 0,
                             prices: [],
                           };
                           const total = venueData.available + venueData.booked + venueData.closed + venueData.coaching;
@@ -1204,6 +1449,8 @@ function DashboardContent() {
                           const isCoaching = venueData.coaching > 0 && venueData.available === 0;
                           const isBooked = venueData.booked > 0 && venueData.available === 0 && venueData.coaching === 0;
                           const isClosed = total > 0 && venueData.available === 0 && venueData.booked === 0 && venueData.coaching === 0;
+                          // Every court at this time vanished from the last scrape
+                          const isUnknown = total === 0 && venueData.unknown > 0;
 
                           let statusClass = "bg-gray-100 dark:bg-gray-800 text-gray-600";
                           let statusText = "No data";
@@ -1228,6 +1475,9 @@ function DashboardContent() {
                           } else if (isClosed) {
                             statusClass = "bg-gray-300 text-gray-600";
                             statusText = "Closed";
+                          } else if (isUnknown) {
+                            statusClass = "bg-gray-100 dark:bg-gray-800 text-gray-400 italic";
+                            statusText = "Unknown";
                           }
 
                           const cellContent = (
@@ -1250,7 +1500,7 @@ function DashboardContent() {
                             <td key={venue.slug} className="px-4 py-3">
                               {hasAvailable ? (
                                 <a
-                                  href={getBookingUrl(venue.slug, selectedDate)}
+                                  href={bookingUrls[venue.slug] ?? "#"}
                                   target="_blank"
                                   rel="noopener noreferrer"
                                   className="block hover:opacity-90 transition-opacity cursor-pointer"
@@ -1299,12 +1549,12 @@ function DashboardContent() {
               </p>
               <div className="flex flex-wrap gap-2">
                 {selectedVenues.map((venueSlug) => {
-                  const venue = VENUES.find((v) => v.slug === venueSlug);
+                  const venue = venueOptions.find((v) => v.slug === venueSlug);
                   if (!venue) return null;
                   return (
                     <a
                       key={venueSlug}
-                      href={getBookingUrl(venueSlug, selectedDate)}
+                      href={bookingUrls[venueSlug] ?? "#"}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="inline-block px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors text-sm"
@@ -1316,6 +1566,11 @@ function DashboardContent() {
               </div>
             </div>
           )}
+
+          {/* Cancellation heatmap */}
+          {selectedVenues.length > 0 && (
+            <CancellationHeatmap venueSlugs={selectedVenues} />
+          )}
         </>
       )}
 
@@ -1502,8 +1757,8 @@ function DashboardContent() {
                     { bg: 'bg-orange-500', bgLight: 'bg-orange-100', bgDark: 'dark:bg-orange-900/30', text: 'text-orange-700', textDark: 'dark:text-orange-300', border: 'border-orange-500', borderLight: 'border-orange-200', borderDark: 'dark:border-orange-800' },
                   ];
 
-                  // Assign colors to watches
-                  const watchesWithColors = watches.map((watch, index) => ({
+                  // Assign colors to watches (expired ones are listed separately below)
+                  const watchesWithColors = watches.filter(w => !w.expired).map((watch, index) => ({
                     ...watch,
                     color: WATCH_COLORS[index % WATCH_COLORS.length],
                   })) as Array<Watch & { color: typeof WATCH_COLORS[0] }>;
@@ -1531,14 +1786,12 @@ function DashboardContent() {
                       sunday: 'Sun',
                     };
 
-                    // Get all unique time slots across all watches
-                    const allTimeSlots = new Set<string>();
-                    venueWatches.forEach(watch => {
-                      Object.values(watch.dayTimes).forEach(times => {
-                        times.forEach(time => allTimeSlots.add(time));
-                      });
-                    });
-                    const sortedTimeSlots = TIME_SLOTS.filter(t => allTimeSlots.has(t));
+                    // Get all time slots covered by any watch (exact times or ranges)
+                    const sortedTimeSlots = TIME_SLOTS.filter(t =>
+                      venueWatches.some(watch =>
+                        Object.values(watch.dayTimes).some(times => matchesTimePreferences(times, t))
+                      )
+                    );
 
                     return (
                       <div key={venueName} className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden bg-white dark:bg-gray-800">
@@ -1599,7 +1852,7 @@ function DashboardContent() {
                                     {DAYS.map((day) => {
                                       // Find watches that have this time on this day
                                       const watchesForThisSlot = venueWatches.filter((watch): watch is WatchWithColor => 
-                                        watch.dayTimes[day]?.includes(time) ?? false
+                                        matchesTimePreferences(watch.dayTimes[day] ?? [], time)
                                       );
 
                                       return (
@@ -1704,6 +1957,21 @@ function DashboardContent() {
                                       {totalTimeSlots} slots
                                     </span>
                                   )}
+                                  {watch.minConsecutiveHours > 1 && (
+                                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                                      {watch.minConsecutiveHours}h+ blocks
+                                    </span>
+                                  )}
+                                  {watch.maxPrice !== null && (
+                                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                                      ≤ £{watch.maxPrice.toFixed(2)}
+                                    </span>
+                                  )}
+                                  {watch.excludedCourts.length > 0 && (
+                                    <span className="text-xs text-gray-500 dark:text-gray-400" title={watch.excludedCourts.join(", ")}>
+                                      {watch.excludedCourts.length} court{watch.excludedCourts.length > 1 ? "s" : ""} excluded
+                                    </span>
+                                  )}
                                 </div>
 
                                 {/* Actions */}
@@ -1746,6 +2014,45 @@ function DashboardContent() {
                   );
                 });
                 })()}
+
+                {/* Expired Watches */}
+                {watches.some(w => w.expired) && (
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Expired watches</h3>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                      These watches were switched off automatically once their dates passed. Edit the dates to reuse one.
+                    </p>
+                    <div className="space-y-2">
+                      {watches.filter(w => w.expired).map((watch) => (
+                        <div
+                          key={watch.id}
+                          className="flex items-center gap-3 px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/30 opacity-75"
+                        >
+                          <span className="text-sm font-medium">{watch.venueName || "All venues"}</span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            {watch.specificDates.length > 0
+                              ? watch.specificDates.map(d => formatSlotDate(d)).join(", ")
+                              : `${watch.startDate ? formatSlotDate(watch.startDate) : "…"} – ${watch.endDate ? formatSlotDate(watch.endDate) : "…"}`}
+                          </span>
+                          <div className="flex gap-1 ml-auto">
+                            <button
+                              onClick={() => setEditingWatch(watch)}
+                              className="px-2 py-1 text-xs rounded font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600 transition-colors"
+                            >
+                              Edit
+                            </button>
+                            <button
+                              onClick={() => handleDeleteWatch(watch.id)}
+                              className="px-2 py-1 text-xs rounded font-medium bg-red-100 text-red-700 hover:bg-red-200 dark:bg-red-900/30 dark:text-red-300 dark:hover:bg-red-900/50 transition-colors"
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             )}
           </section>
@@ -1760,15 +2067,23 @@ function DashboardContent() {
                   available.
                 </p>
               </div>
-              <button
-                onClick={() => {
-                  setEditingChannel(null);
-                  setShowChannelForm(true);
-                }}
-                className="px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors text-sm"
-              >
-                + Add Channel
-              </button>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleEnablePush}
+                  className="px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg font-medium hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors text-sm"
+                >
+                  Enable push on this device
+                </button>
+                <button
+                  onClick={() => {
+                    setEditingChannel(null);
+                    setShowChannelForm(true);
+                  }}
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors text-sm"
+                >
+                  + Add Channel
+                </button>
+              </div>
             </div>
 
             {loadingChannels ? (
@@ -1825,12 +2140,54 @@ function DashboardContent() {
                               W
                             </span>
                           )}
+                          {channel.type === "webhook" && (
+                            <span className="text-green-600 dark:text-green-400">
+                              {"{}"}
+                            </span>
+                          )}
+                          {channel.type === "discord" && (
+                            <span className="text-indigo-600 dark:text-indigo-400">
+                              D
+                            </span>
+                          )}
+                          {channel.type === "slack" && (
+                            <span className="text-pink-600 dark:text-pink-400">
+                              S
+                            </span>
+                          )}
+                          {channel.type === "push" && (
+                            <span className="text-orange-600 dark:text-orange-400">
+                              P
+                            </span>
+                          )}
                         </div>
-                        <div>
+                        <div className="min-w-0">
                           <p className="font-medium capitalize">{channel.type}</p>
-                          <p className="text-sm text-gray-500">
-                            {channel.destination}
+                          <p className="text-sm text-gray-500 break-all">
+                            {channel.type === "push"
+                              ? `Browser push via ${new URL(channel.destination).host}`
+                              : channel.destination}
                           </p>
+                          {channel.lastDelivery && channel.lastDelivery.status !== "sent" && (
+                            <p
+                              className={`text-xs mt-1 ${
+                                channel.lastDelivery.status === "failed"
+                                  ? "text-red-600 dark:text-red-400"
+                                  : "text-amber-600 dark:text-amber-400"
+                              }`}
+                            >
+                              {channel.lastDelivery.status === "failed"
+                                ? `Delivery failed after ${channel.lastDelivery.attempts} attempt${channel.lastDelivery.attempts === 1 ? "" : "s"}`
+                                : `Delivery failing, retrying${channel.lastDelivery.nextAttemptAt ? ` at ${new Date(channel.lastDelivery.nextAttemptAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}` : ""}`}
+                              {channel.lastDelivery.lastError && `: ${channel.lastDelivery.lastError}`}
+                            </p>
+                          )}
+                          {channel.type === "webhook" && channel.secret && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              Signing secret:{" "}
+                              <code className="font-mono select-all break-all">{channel.secret}</code>
+                            </p>
+                          )}
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
@@ -1853,12 +2210,22 @@ function DashboardContent() {
                         >
                           {channel.active ? "Pause" : "Activate"}
                         </button>
-                        <button
-                          onClick={() => setEditingChannel(channel)}
-                          className="px-3 py-1 text-xs bg-blue-100 dark:bg-blue-900 hover:bg-blue-200 dark:hover:bg-blue-800 rounded"
-                        >
-                          Edit
-                        </button>
+                        {channel.type === "webhook" && (
+                          <button
+                            onClick={() => handleTestChannel(channel.id)}
+                            className="px-3 py-1 text-xs bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded"
+                          >
+                            Send test
+                          </button>
+                        )}
+                        {channel.type !== "push" && (
+                          <button
+                            onClick={() => setEditingChannel(channel)}
+                            className="px-3 py-1 text-xs bg-blue-100 dark:bg-blue-900 hover:bg-blue-200 dark:hover:bg-blue-800 rounded"
+                          >
+                            Edit
+                          </button>
+                        )}
                         <button
                           onClick={() => handleDeleteChannel(channel.id)}
                           className="px-3 py-1 text-xs bg-red-100 dark:bg-red-900 hover:bg-red-200 dark:hover:bg-red-800 rounded"
@@ -1872,6 +2239,9 @@ function DashboardContent() {
               </div>
             )}
           </section>
+
+          {/* Delivery Preferences Section */}
+          <DeliveryPreferencesSection showMessage={showMessage} />
         </div>
       )}
 
@@ -1968,6 +2338,7 @@ function DashboardContent() {
             ? (data) => handleUpdateWatch(editingWatch.id, data)
             : handleCreateWatch}
           timeSlots={TIME_SLOTS}
+          venueOptions={venueOptions}
         />
       )}
 
@@ -1997,70 +2368,386 @@ function DashboardContent() {
           onSubmit={editingChannel
             ? (data) => handleUpdateChannel(editingChannel.id, data)
             : handleCreateChannel}
+          onLinked={() => {
+            setShowChannelForm(false);
+            fetchChannels();
+          }}
         />
       )}
     </main>
   );
 }
 
-// Watch Form Modal Component
-function WatchFormModal({
-  watch,
-  onClose,
-  onSubmit,
-  timeSlots,
-}: {
-  watch: Watch | null;
-  onClose: () => void;
-  onSubmit: (data: {
-    venueSlugs: string[];
-    dayTimes: {
-      monday: string[];
-      tuesday: string[];
-      wednesday: string[];
-      thursday: string[];
-      friday: string[];
-      saturday: string[];
-      sunday: string[];
+// Heatmap of how often booked courts get freed up, by weekday and hour
+function CancellationHeatmap({ venueSlugs }: { venueSlugs: string[] }) {
+  const [stats, setStats] = useState<VenueCancellationStats[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [activeVenue, setActiveVenue] = useState<string | null>(null);
+
+  const venueParam = venueSlugs.join(",");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchStats() {
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/analytics/cancellations?venue=${venueParam}&days=28`);
+        const data = await res.json();
+        if (!cancelled) setStats(data.venues || []);
+      } catch (error) {
+        console.error("Failed to fetch cancellation stats:", error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchStats();
+    return () => {
+      cancelled = true;
     };
-  }) => void;
-  timeSlots: string[];
-}) {
-  const DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
-  const DAY_LABELS = {
-    monday: 'Monday',
-    tuesday: 'Tuesday',
-    wednesday: 'Wednesday',
-    thursday: 'Thursday',
-    friday: 'Friday',
-    saturday: 'Saturday',
-    sunday: 'Sunday',
+  }, [venueParam]);
+
+  const current = stats.find((v) => v.slug === activeVenue) ?? stats[0];
+  const DAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+  const DAY_INDEXES = [1, 2, 3, 4, 5, 6, 0]; // Monday-first, matching dayOfWeek (0 = Sunday)
+
+  const cellMap = new Map<string, CancellationCell>();
+  for (const cell of current?.cells ?? []) {
+    cellMap.set(`${cell.dayOfWeek}|${cell.hour}`, cell);
+  }
+  const hours = Array.from(new Set((current?.cells ?? []).map((c) => c.hour))).sort((a, b) => a - b);
+  const maxRate = Math.max(0.01, ...(current?.cells ?? []).map((c) => c.rate));
+
+  const formatHour = (hour: number) => {
+    if (hour === 0) return "12am";
+    if (hour < 12) return `${hour}am`;
+    if (hour === 12) return "12pm";
+    return `${hour - 12}pm`;
   };
-  const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] as const;
-  const WEEKENDS = ['saturday', 'sunday'] as const;
 
-  // For editing, we only edit one watch at a time (single venue)
-  const [selectedVenues, setSelectedVenues] = useState<string[]>(
-    watch?.venueSlug ? [watch.venueSlug] : []
+  const formatLead = (hours: number | null) => {
+    if (hours === null) return "-";
+    if (hours < 24) return `${Math.round(hours)}h`;
+    return `${(hours / 24).toFixed(1)}d`;
+  };
+
+  return (
+    <div className="mt-8 border rounded-lg overflow-hidden dark:border-gray-700">
+      <div className="bg-gray-50 dark:bg-gray-800 px-4 py-3 border-b dark:border-gray-700 flex flex-wrap justify-between items-center gap-2">
+        <div>
+          <h2 className="font-semibold">Cancellation Heatmap</h2>
+          <p className="text-sm text-gray-500">How often booked courts were freed up (last 4 weeks)</p>
+        </div>
+        {stats.length > 1 && (
+          <select
+            value={current?.slug ?? ""}
+            onChange={(e) => setActiveVenue(e.target.value)}
+            className="p-2 border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-700 text-sm"
+          >
+            {stats.map((v) => (
+              <option key={v.slug} value={v.slug}>{v.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="p-8 text-center text-gray-500">Loading...</div>
+      ) : !current || hours.length === 0 ? (
+        <div className="p-8 text-center text-gray-500">
+          Not enough history yet. Cancellations show up here once bookings start changing.
+        </div>
+      ) : (
+        <div className="overflow-x-auto p-4">
+          <table className="text-xs" style={{ borderCollapse: "separate", borderSpacing: "2px" }}>
+            <thead>
+              <tr>
+                <th></th>
+                {hours.map((hour) => (
+                  <th key={hour} className="px-1 font-medium text-gray-500">{formatHour(hour)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {DAY_INDEXES.map((dayOfWeek, i) => (
+                <tr key={dayOfWeek}>
+                  <th className="pr-2 text-left font-medium text-gray-500">{DAY_LABELS[i]}</th>
+                  {hours.map((hour) => {
+                    const cell = cellMap.get(`${dayOfWeek}|${hour}`);
+                    const intensity = cell ? cell.rate / maxRate : 0;
+                    return (
+                      <td
+                        key={hour}
+                        title={
+                          cell
+                            ? `${DAY_LABELS[i]} ${formatHour(hour)}: ${cell.cancellations} of ${cell.bookedSlots} booked slots freed (${Math.round(cell.rate * 100)}%), median ${formatLead(cell.medianLeadHours)} before play`
+                            : `${DAY_LABELS[i]} ${formatHour(hour)}: no data`
+                        }
+                        className="w-10 h-8 rounded text-center align-middle"
+                        style={{
+                          backgroundColor: cell && cell.cancellations > 0
+                            ? `rgba(22, 163, 74, ${0.15 + intensity * 0.85})`
+                            : "rgba(156, 163, 175, 0.15)",
+                          color: intensity > 0.5 ? "white" : undefined,
+                        }}
+                      >
+                        {cell && cell.cancellations > 0 ? `${Math.round(cell.rate * 100)}%` : ""}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-3 text-xs text-gray-500">
+            Percentage of booked slots that were later freed up. Hover a cell for counts and typical notice.
+          </p>
+        </div>
+      )}
+    </div>
   );
-  const [venueDropdownOpen, setVenueDropdownOpen] = useState(false);
-  const [venueSearch, setVenueSearch] = useState("");
-  const [dayViewTab, setDayViewTab] = useState<'all' | 'weekdays' | 'weekends'>('all');
-  
-  const [dayTimes, setDayTimes] = useState<{
-    monday: string[];
-    tuesday: string[];
-    wednesday: string[];
-    thursday: string[];
-    friday: string[];
-    saturday: string[];
-    sunday: string[];
-  }>(
-    watch?.dayTimes || {
-      monday: [],
-      tuesday: [],
-      wednesday: [],
-      thursday: [],
+}
+
+// Watch Form Modal Component
+interface DeliveryPreferences {
+  deliveryMode: "instant" | "digest" | "daily";
+  digestIntervalMinutes: number;
+  dailySummaryHour: number;
+  quietHoursStart: number | null;
+  quietHoursEnd: number | null;
+}
+
+const HOUR_OPTIONS = Array.from({ length: 24 }, (_, hour) => hour);
+
+function formatHourLabel(hour: number): string {
+  return `${String(hour).padStart(2, "0")}:00`;
+}
+
+function DeliveryPreferencesSection({ showMessage }: { showMessage: (type: "success" | "error", text: string) => void }) {
+  const [preferences, setPreferences] = useState<DeliveryPreferences | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/user/preferences")
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.preferences) setPreferences(data.preferences);
+      })
+      .catch((error) => console.error("Failed to fetch delivery preferences:", error));
+  }, []);
+
+  if (!preferences) return null;
+
+  const quietHoursEnabled = preferences.quietHoursStart !== null && preferences.quietHoursEnd !== null;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch("/api/user/preferences", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(preferences),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to save preferences");
+      }
+      setPreferences(data.preferences);
+      showMessage("success", "Delivery preferences saved");
+    } catch (error) {
+      showMessage("error", getErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section>
+      <div className="mb-4">
+        <h2 className="text-xl font-semibold">Delivery</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+          Choose when alerts are sent. Times are UK time.
+        </p>
+      </div>
+
+      <div className="border rounded-lg p-4 dark:border-gray-700 space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          {([
+            { mode: "instant", label: "Instant", hint: "As soon as a court frees up" },
+            { mode: "digest", label: "Digest", hint: "Batched into one message" },
+            { mode: "daily", label: "Daily summary", hint: "One message each morning" },
+          ] as const).map(({ mode, label, hint }) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => setPreferences({ ...preferences, deliveryMode: mode })}
+              className={`p-3 rounded-lg border-2 text-left transition-colors ${
+                preferences.deliveryMode === mode
+                  ? "border-green-600 bg-green-50 dark:bg-green-900/20"
+                  : "border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800"
+              }`}
+            >
+              <div className="text-sm font-medium">{label}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">{hint}</div>
+            </button>
+          ))}
+        </div>
+
+        {preferences.deliveryMode === "digest" && (
+          <label className="flex items-center gap-2 text-sm">
+            Send at most every
+            <select
+              value={preferences.digestIntervalMinutes}
+              onChange={(e) => setPreferences({ ...preferences, digestIntervalMinutes: parseInt(e.target.value) })}
+              className="px-2 py-1 border rounded dark:bg-gray-700 dark:border-gray-600"
+            >
+              {[15, 30, 60, 120, 240].map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes > 60 ? "s" : ""}`}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {preferences.deliveryMode === "daily" && (
+          <label className="flex items-center gap-2 text-sm">
+            Send the summary at
+            <select
+              value={preferences.dailySummaryHour}
+              onChange={(e) => setPreferences({ ...preferences, dailySummaryHour: parseInt(e.target.value) })}
+              className="px-2 py-1 border rounded dark:bg-gray-700 dark:border-gray-600"
+            >
+              {HOUR_OPTIONS.map((hour) => (
+                <option key={hour} value={hour}>{formatHourLabel(hour)}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={quietHoursEnabled}
+              onChange={(e) =>
+                setPreferences({
+                  ...preferences,
+                  quietHoursStart: e.target.checked ? 22 : null,
+                  quietHoursEnd: e.target.checked ? 7 : null,
+                })
+              }
+              className="w-4 h-4 accent-green-600"
+            />
+            Quiet hours
+          </label>
+          {quietHoursEnabled && (
+            <>
+              <select
+                value={preferences.quietHoursStart!}
+                onChange={(e) => setPreferences({ ...preferences, quietHoursStart: parseInt(e.target.value) })}
+                className="px-2 py-1 border rounded dark:bg-gray-700 dark:border-gray-600"
+              >
+                {HOUR_OPTIONS.map((hour) => (
+                  <option key={hour} value={hour}>{formatHourLabel(hour)}</option>
+                ))}
+              </select>
+              <span>to</span>
+              <select
+                value={preferences.quietHoursEnd!}
+                onChange={(e) => setPreferences({ ...preferences, quietHoursEnd: parseInt(e.target.value) })}
+                className="px-2 py-1 border rounded dark:bg-gray-700 dark:border-gray-600"
+              >
+                {HOUR_OPTIONS.map((hour) => (
+                  <option key={hour} value={hour}>{formatHourLabel(hour)}</option>
+                ))}
+              </select>
+              <span className="text-xs text-gray-500 dark:text-gray-400">Alerts are held and sent afterwards</span>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors text-sm disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+function WatchFormModal({
+  watch,
+  onClose,
+  onSubmit,
+  timeSlots,
+  venueOptions,
+}: {
+  watch: Watch | null;
+  onClose: () => void;
+  onSubmit: (data: {
+    venueSlugs: string[];
+    dayTimes: {
+      monday: string[];
+      tuesday: string[];
+      wednesday: string[];
+      thursday: string[];
+      friday: string[];
+      saturday: string[];
+      sunday: string[];
+    };
+    notifyNewDates: boolean;
+    minConsecutiveHours: number;
+    excludedCourts: string[];
+    maxPrice: number | null;
+    specificDates: string[];
+    startDate: string | null;
+    endDate: string | null;
+  }) => void;
+  timeSlots: string[];
+  venueOptions: VenueOption[];
+}) {
+  const DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+  const DAY_LABELS = {
+    monday: 'Monday',
+    tuesday: 'Tuesday',
+    wednesday: 'Wednesday',
+    thursday: 'Thursday',
+    friday: 'Friday',
+    saturday: 'Saturday',
+    sunday: 'Sunday',
+  };
+  const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] as const;
+  const WEEKENDS = ['saturday', 'sunday'] as const;
+
+  // For editing, we only edit one watch at a time (single venue)
+  const [selectedVenues, setSelectedVenues] = useState<string[]>(
+    watch?.venueSlug ? [watch.venueSlug] : []
+  );
+  const [venueDropdownOpen, setVenueDropdownOpen] = useState(false);
+  const [venueSearch, setVenueSearch] = useState("");
+  const [dayViewTab, setDayViewTab] = useState<'all' | 'weekdays' | 'weekends'>('all');
+  
+  const [dayTimes, setDayTimes] = useState<{
+    monday: string[];
+    tuesday: string[];
+    wednesday: string[];
+    thursday: string[];
+    friday: string[];
+    saturday: string[];
+    sunday: string[];
+  }>(
+    watch?.dayTimes || {
+      monday: [],
+      tuesday: [],
+      wednesday: [],
+      thursday: [],
       friday: [],
       saturday: [],
       sunday: [],
@@ -2080,6 +2767,16 @@ function WatchFormModal({
     return enabled;
   });
   
+  const [notifyNewDates, setNotifyNewDates] = useState(watch?.notifyNewDates ?? false);
+  const [minConsecutiveHours, setMinConsecutiveHours] = useState(watch?.minConsecutiveHours ?? 1);
+  const [excludedCourtsInput, setExcludedCourtsInput] = useState(watch?.excludedCourts.join(", ") ?? "");
+  const [maxPriceInput, setMaxPriceInput] = useState(watch?.maxPrice != null ? String(watch.maxPrice) : "");
+  const [specificDates, setSpecificDates] = useState<string[]>(watch?.specificDates ?? []);
+  const [specificDateInput, setSpecificDateInput] = useState("");
+  const [startDate, setStartDate] = useState(watch?.startDate ?? "");
+  const [endDate, setEndDate] = useState(watch?.endDate ?? "");
+  const [rangeStart, setRangeStart] = useState("6pm");
+  const [rangeEnd, setRangeEnd] = useState("9pm");
   const [submitting, setSubmitting] = useState(false);
   
   const toggleDay = (day: typeof DAYS[number]) => {
@@ -2195,6 +2892,18 @@ function WatchFormModal({
     applyToDays(DAYS, times);
   };
 
+  // Add a "6pm-9pm" range entry - matches any slot starting from 6pm until 9pm
+  const addTimeRange = (day: typeof DAYS[number]) => {
+    if (timeSlots.indexOf(rangeEnd) <= timeSlots.indexOf(rangeStart)) return;
+    const range = `${rangeStart}-${rangeEnd}`;
+    setDayTimes(prev => prev[day].includes(range) ? prev : { ...prev, [day]: [...prev[day], range] });
+    setEnabledDays(prev => new Set(prev).add(day));
+  };
+
+  const removeTimeEntry = (day: typeof DAYS[number], entry: string) => {
+    setDayTimes(prev => ({ ...prev, [day]: prev[day].filter(t => t !== entry) }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -2211,18 +2920,36 @@ function WatchFormModal({
       return;
     }
 
+    if (startDate && endDate && endDate < startDate) {
+      alert("End date must not be before the start date");
+      return;
+    }
+
+    const maxPrice = maxPriceInput.trim() === "" ? null : parseFloat(maxPriceInput);
+    if (maxPrice !== null && (isNaN(maxPrice) || maxPrice <= 0)) {
+      alert("Max price must be a positive number");
+      return;
+    }
+
     setSubmitting(true);
     try {
       await onSubmit({
         venueSlugs: selectedVenues,
         dayTimes,
+        notifyNewDates,
+        minConsecutiveHours,
+        excludedCourts: excludedCourtsInput.split(",").map(c => c.trim()).filter(Boolean),
+        maxPrice,
+        specificDates,
+        startDate: startDate || null,
+        endDate: endDate || null,
       });
     } finally {
       setSubmitting(false);
     }
   };
 
-  const filteredVenues = VENUES.filter(venue =>
+  const filteredVenues = venueOptions.filter(venue =>
     venue.name.toLowerCase().includes(venueSearch.toLowerCase())
   );
 
@@ -2267,7 +2994,7 @@ function WatchFormModal({
             {selectedVenues.length > 0 && (
               <div className="flex flex-wrap gap-2 mb-2">
                 {selectedVenues.map((slug) => {
-                  const venue = VENUES.find(v => v.slug === slug);
+                  const venue = venueOptions.find(v => v.slug === slug);
                   return (
                     <span
                       key={slug}
@@ -2311,7 +3038,7 @@ function WatchFormModal({
                   {selectedVenues.length === 0
                     ? "Click to select venues..."
                     : selectedVenues.length === 1
-                    ? VENUES.find((v) => v.slug === selectedVenues[0])?.name || "Select venues..."
+                    ? venueOptions.find((v) => v.slug === selectedVenues[0])?.name || "Select venues..."
                     : `${selectedVenues.length} venues selected`}
                 </span>
                 <svg
@@ -2630,6 +3357,14 @@ function WatchFormModal({
                           >
                             + Afternoon
                           </button>
+                          <button
+                            type="button"
+                            onClick={() => addTimeRange(day)}
+                            className="px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                            title="Any slot starting within this range"
+                          >
+                            + {rangeStart}–{rangeEnd}
+                          </button>
                         </div>
                         
                         {/* Time slot grid - more compact */}
@@ -2650,6 +3385,19 @@ function WatchFormModal({
                           ))}
                         </div>
                         
+                        {dayTimes[day].some(t => t.includes("-")) && (
+                          <div className="mt-2 flex flex-wrap gap-1">
+                            {dayTimes[day].filter(t => t.includes("-")).map(range => (
+                              <span key={range} className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                                Any time {range.replace("-", "–")}
+                                <button type="button" onClick={() => removeTimeEntry(day, range)} className="hover:text-green-950" aria-label={`Remove ${range}`}>
+                                  ×
+                                </button>
+                              </span>
+                            ))}
+                          </div>
+                        )}
+
                         {dayTimes[day].length > 0 && (
                           <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 line-clamp-1">
                             <span className="font-medium">Selected:</span> {dayTimes[day].join(", ")}
@@ -2668,6 +3416,161 @@ function WatchFormModal({
             </div>
           </div>
 
+          {/* Dates */}
+          <div className="border-2 border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-4">
+            <div>
+              <p className="text-sm font-medium">Dates</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Optional. Limit this watch to certain dates - it switches itself off once they have passed.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Starting from</label>
+                <input
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className="w-full px-2 py-1.5 text-sm border rounded dark:bg-gray-700 dark:border-gray-600"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Until</label>
+                <input
+                  type="date"
+                  value={endDate}
+                  min={startDate || undefined}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className="w-full px-2 py-1.5 text-sm border rounded dark:bg-gray-700 dark:border-gray-600"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Only on specific dates</label>
+                <div className="flex gap-2">
+                  <input
+                    type="date"
+                    value={specificDateInput}
+                    onChange={(e) => setSpecificDateInput(e.target.value)}
+                    className="flex-1 min-w-0 px-2 py-1.5 text-sm border rounded dark:bg-gray-700 dark:border-gray-600"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (specificDateInput && !specificDates.includes(specificDateInput)) {
+                        setSpecificDates(prev => [...prev, specificDateInput].sort());
+                      }
+                      setSpecificDateInput("");
+                    }}
+                    className="px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                  >
+                    Add
+                  </button>
+                </div>
+              </div>
+            </div>
+            {specificDates.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {specificDates.map(date => (
+                  <span key={date} className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">
+                    {formatSlotDate(date)}
+                    <button
+                      type="button"
+                      onClick={() => setSpecificDates(prev => prev.filter(d => d !== date))}
+                      aria-label={`Remove ${date}`}
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Match rules */}
+          <div className="border-2 border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-4">
+            <p className="text-sm font-medium">Match rules</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                  Time range (use &quot;+ range&quot; on a day)
+                </label>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={rangeStart}
+                    onChange={(e) => setRangeStart(e.target.value)}
+                    className="flex-1 px-2 py-1.5 text-sm border rounded dark:bg-gray-700 dark:border-gray-600"
+                  >
+                    {timeSlots.map(t => <option key={t} value={t}>{t}</option>)}
+                  </select>
+                  <span className="text-sm text-gray-500">to</span>
+                  <select
+                    value={rangeEnd}
+                    onChange={(e) => setRangeEnd(e.target.value)}
+                    className="flex-1 px-2 py-1.5 text-sm border rounded dark:bg-gray-700 dark:border-gray-600"
+                  >
+                    {timeSlots.map(t => <option key={t} value={t}>{t}</option>)}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                  Minimum consecutive hours on one court
+                </label>
+                <select
+                  value={minConsecutiveHours}
+                  onChange={(e) => setMinConsecutiveHours(parseInt(e.target.value))}
+                  className="w-full px-2 py-1.5 text-sm border rounded dark:bg-gray-700 dark:border-gray-600"
+                >
+                  {Array.from({ length: MAX_CONSECUTIVE_HOURS }, (_, i) => i + 1).map(n => (
+                    <option key={n} value={n}>{n === 1 ? "Any single hour" : `${n} hours in a row`}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                  Exclude courts (comma separated)
+                </label>
+                <input
+                  type="text"
+                  value={excludedCourtsInput}
+                  onChange={(e) => setExcludedCourtsInput(e.target.value)}
+                  placeholder="e.g. Court 4"
+                  className="w-full px-2 py-1.5 text-sm border rounded dark:bg-gray-700 dark:border-gray-600"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                  Max price (£)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={maxPriceInput}
+                  onChange={(e) => setMaxPriceInput(e.target.value)}
+                  placeholder="No limit"
+                  className="w-full px-2 py-1.5 text-sm border rounded dark:bg-gray-700 dark:border-gray-600"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* New date releases */}
+          <label className="flex items-start gap-3 p-4 border-2 border-gray-200 dark:border-gray-700 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50">
+            <input
+              type="checkbox"
+              checked={notifyNewDates}
+              onChange={(e) => setNotifyNewDates(e.target.checked)}
+              className="mt-0.5 w-4 h-4 accent-green-600"
+            />
+            <span className="text-sm">
+              <span className="font-medium">Alert me about newly released dates</span>
+              <span className="block text-gray-500 dark:text-gray-400">
+                Also notify when a new day opens for booking with matching slots already free, not only when a booked slot is cancelled
+              </span>
+            </span>
+          </label>
+
           {/* Summary */}
           <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
             <div className="flex items-start gap-2">
@@ -2682,7 +3585,7 @@ function WatchFormModal({
                   ) : (
                     <>
                       Creating <strong>{selectedVenues.length}</strong> watch{selectedVenues.length > 1 ? 'es' : ''} for{' '}
-                      <strong>{selectedVenues.length === 1 ? VENUES.find(v => v.slug === selectedVenues[0])?.name : `${selectedVenues.length} venues`}</strong>
+                      <strong>{selectedVenues.length === 1 ? venueOptions.find(v => v.slug === selectedVenues[0])?.name : `${selectedVenues.length} venues`}</strong>
                       {DAYS.some(day => dayTimes[day].length > 0) && (
                         <> with time preferences for {DAYS.filter(day => dayTimes[day].length > 0).length} day{DAYS.filter(day => dayTimes[day].length > 0).length > 1 ? 's' : ''}</>
                       )}
@@ -3136,17 +4039,36 @@ function ChannelFormModal({
   userEmail,
   onClose,
   onSubmit,
+  onLinked,
 }: {
   channel: Channel | null;
   userEmail: string;
   onClose: () => void;
   onSubmit: (data: { type: string; destination: string }) => void;
+  onLinked: () => void;
 }) {
   const [type, setType] = useState<string>(channel?.type || "email");
   const [destination, setDestination] = useState<string>(
     channel?.destination || userEmail
   );
   const [submitting, setSubmitting] = useState(false);
+  const [telegramLink, setTelegramLink] = useState<{ deepLink: string; expiresAt: string } | null>(null);
+  const [generatingLink, setGeneratingLink] = useState(false);
+
+  // One-tap linking: the bot creates the channel when the user opens this link
+  const handleGenerateTelegramLink = async () => {
+    setGeneratingLink(true);
+    try {
+      const res = await fetch("/api/telegram/link-code", { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to create link");
+      setTelegramLink({ deepLink: data.deepLink, expiresAt: data.expiresAt });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to create link");
+    } finally {
+      setGeneratingLink(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -3188,6 +4110,9 @@ function ChannelFormModal({
             >
               <option value="email">Email</option>
               <option value="telegram">Telegram</option>
+              <option value="webhook">Webhook</option>
+              <option value="discord">Discord</option>
+              <option value="slack">Slack</option>
             </select>
           </div>
 
@@ -3198,7 +4123,11 @@ function ChannelFormModal({
                 ? "Email Address"
                 : type === "telegram"
                   ? "Telegram Chat ID"
-                  : "WhatsApp Number"}
+                  : type === "webhook"
+                    ? "Webhook URL"
+                    : type === "discord" || type === "slack"
+                      ? "Incoming Webhook URL"
+                      : "WhatsApp Number"}
             </label>
             <input
               type="text"
@@ -3209,15 +4138,79 @@ function ChannelFormModal({
                   ? "email@example.com"
                   : type === "telegram"
                     ? "123456789"
-                    : "+1234567890"
+                    : type === "webhook"
+                      ? "https://example.com/hooks/courts"
+                      : type === "discord"
+                        ? "https://discord.com/api/webhooks/..."
+                        : type === "slack"
+                          ? "https://hooks.slack.com/services/..."
+                          : "+1234567890"
               }
               className="w-full p-2 border rounded-lg bg-white dark:bg-gray-700 dark:border-gray-600"
               required
             />
+            {type === "webhook" && (
+              <p className="mt-2 text-xs text-gray-500">
+                Alerts are POSTed as JSON. Each request is signed with an HMAC-SHA256 of
+                {" "}<code>timestamp.body</code> in the <code>X-Webhook-Signature</code> header; the
+                signing secret is shown once the channel is saved.
+              </p>
+            )}
+            {type === "discord" && (
+              <p className="mt-2 text-xs text-gray-500">
+                In Discord, open Server Settings → Integrations → Webhooks, create a webhook for
+                your channel and copy its URL.
+              </p>
+            )}
+            {type === "slack" && (
+              <p className="mt-2 text-xs text-gray-500">
+                Create a Slack app with Incoming Webhooks enabled, add a webhook to your channel
+                and copy its URL.
+              </p>
+            )}
+            {type === "telegram" && !channel && (
+              <div className="mt-2 p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
+                <p className="text-xs font-medium text-green-900 dark:text-green-200 mb-2">
+                  Quickest: connect Telegram in one tap
+                </p>
+                {telegramLink ? (
+                  <div className="space-y-2">
+                    <a
+                      href={telegramLink.deepLink}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-block px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors font-medium"
+                    >
+                      Open Telegram to connect
+                    </a>
+                    <p className="text-xs text-green-800 dark:text-green-300">
+                      Press Start in the chat and the bot will confirm. Link expires at{" "}
+                      {new Date(telegramLink.expiresAt).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" })}.
+                    </p>
+                    <button
+                      type="button"
+                      onClick={onLinked}
+                      className="text-xs text-green-700 dark:text-green-400 hover:underline font-medium"
+                    >
+                      I&apos;ve connected - refresh my channels
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={handleGenerateTelegramLink}
+                    disabled={generatingLink}
+                    className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+                  >
+                    {generatingLink ? "Creating link..." : "Connect Telegram"}
+                  </button>
+                )}
+              </div>
+            )}
             {type === "telegram" && (
               <div className="mt-2 space-y-2 p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
                 <p className="text-xs font-medium text-blue-900 dark:text-blue-200 mb-2">
-                  How to get your Telegram Chat ID:
+                  {channel ? "How to get your Telegram Chat ID:" : "Or enter your Chat ID by hand:"}
                 </p>
                 <ol className="text-xs text-blue-800 dark:text-blue-300 space-y-1.5 list-decimal list-inside">
                   <li>
@@ -4034,10 +5027,13 @@ function AdminRequests({ showMessage }: { showMessage: (type: "success" | "error
 function AdminSystem({ showMessage }: { showMessage: (type: "success" | "error", text: string) => void }) {
   const [loading, setLoading] = useState<string | null>(null);
   const [cleanupDays, setCleanupDays] = useState(7);
-  const [logs, setLogs] = useState<SystemLog[]>([]);
+  const [runs, setRuns] = useState<ScrapeRun[]>([]);
   const [loadingLogs, setLoadingLogs] = useState(false);
+  const [expandedRunId, setExpandedRunId] = useState<number | null>(null);
+  const [attempts, setAttempts] = useState<ScrapeAttempt[]>([]);
   const [showVenueForm, setShowVenueForm] = useState(false);
   const [venues, setVenues] = useState<AdminVenue[]>([]);
+  const [closuresVenue, setClosuresVenue] = useState<AdminVenue | null>(null);
 
   useEffect(() => {
     fetchLogs();
@@ -4049,7 +5045,7 @@ function AdminSystem({ showMessage }: { showMessage: (type: "success" | "error",
     try {
       const res = await fetch("/api/admin/logs");
       const data = await res.json();
-      setLogs(data.logs || []);
+      setRuns(data.runs || []);
     } catch (error) {
       console.error("Failed to fetch logs:", error);
     } finally {
@@ -4057,6 +5053,22 @@ function AdminSystem({ showMessage }: { showMessage: (type: "success" | "error",
     }
   };
 
+  const toggleRun = async (runId: number) => {
+    if (expandedRunId === runId) {
+      setExpandedRunId(null);
+      return;
+    }
+    setExpandedRunId(runId);
+    setAttempts([]);
+    try {
+      const res = await fetch(`/api/admin/logs?runId=${runId}`);
+      const data = await res.json();
+      setAttempts(data.attempts || []);
+    } catch (error) {
+      console.error("Failed to fetch scrape attempts:", error);
+    }
+  };
+
   const fetchVenues = async () => {
     try {
       const res = await fetch("/api/admin/venues");
@@ -4088,6 +5100,35 @@ function AdminSystem({ showMessage }: { showMessage: (type: "success" | "error",
     }
   };
 
+  const handleToggleVenue = async (venue: AdminVenue) => {
+    try {
+      const res = await fetch(`/api/admin/venues/${venue.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled: !venue.enabled }),
+      });
+
+      if (!res.ok) throw new Error("Failed to update venue");
+
+      await fetchVenues();
+      showMessage("success", venue.enabled ? "Venue disabled" : "Venue enabled");
+    } catch {
+      showMessage("error", "Failed to update venue");
+    }
+  };
+
+  const handleResetHealth = async (venue: AdminVenue) => {
+    try {
+      const res = await fetch(`/api/admin/venues/${venue.id}/health`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Failed to reset venue health");
+
+      await fetchVenues();
+      showMessage("success", `${venue.name} will be scraped on the next run`);
+    } catch {
+      showMessage("error", "Failed to reset venue health");
+    }
+  };
+
   const handleDeleteVenue = async (venueId: number, venueName: string) => {
     if (!confirm(`Delete venue "${venueName}"? This will also delete all associated watches and slots.`)) {
       return;
@@ -4238,30 +5279,70 @@ function AdminSystem({ showMessage }: { showMessage: (type: "success" | "error",
           </button>
         </div>
         <div className="space-y-2">
-          {venues.map((venue) => (
-            <div key={venue.id} className="flex justify-between items-center p-3 bg-gray-50 dark:bg-gray-900 rounded">
-              <div>
-                <p className="font-medium text-sm">{venue.name}</p>
-                <p className="text-xs text-gray-500">{venue.slug} • {venue.type}</p>
+          {venues.map((venue) => {
+            const health = describeVenueHealth(venue.health);
+            return (
+              <div key={venue.id} className="flex justify-between items-center p-3 bg-gray-50 dark:bg-gray-900 rounded">
+                <div>
+                  <p className={`font-medium text-sm ${venue.enabled ? "" : "text-gray-400 line-through"}`}>
+                    {venue.name}
+                    {health && <span className={`ml-2 px-1 rounded text-xs font-normal ${health.className}`}>{health.label}</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {venue.slug} • {venue.type} • {venue.timezone} • {describeOpeningHours(venue.openingHours)}
+                    {venue.address && <> • {venue.address}</>}
+                  </p>
+                  {venue.health && venue.health.consecutiveFailures > 0 && (
+                    <p className="text-xs text-gray-500">
+                      Last success:{" "}
+                      {venue.health.lastSuccessAt ? new Date(venue.health.lastSuccessAt).toLocaleString() : "never"}
+                      {venue.health.lastError && (
+                        <span className="text-red-600 dark:text-red-400"> • {venue.health.lastError}</span>
+                      )}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  {venue.health && venue.health.consecutiveFailures > 0 && (
+                    <button
+                      onClick={() => handleResetHealth(venue)}
+                      className="px-3 py-1 text-xs bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded"
+                    >
+                      Reset
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setClosuresVenue(venue)}
+                    className="px-3 py-1 text-xs bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded"
+                  >
+                    Closures
+                  </button>
+                  <button
+                    onClick={() => handleToggleVenue(venue)}
+                    className="px-3 py-1 text-xs bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded"
+                  >
+                    {venue.enabled ? "Disable" : "Enable"}
+                  </button>
+                  <button
+                    onClick={() => handleDeleteVenue(venue.id, venue.name)}
+                    className="px-3 py-1 text-xs bg-red-100 dark:bg-red-900 hover:bg-red-200 dark:hover:bg-red-800 rounded"
+                  >
+                    Delete
+                  </button>
+                </div>
               </div>
-              <button
-                onClick={() => handleDeleteVenue(venue.id, venue.name)}
-                className="px-3 py-1 text-xs bg-red-100 dark:bg-red-900 hover:bg-red-200 dark:hover:bg-red-800 rounded"
-              >
-                Delete
-              </button>
-            </div>
-          ))}
+            );
+          })}
           {venues.length === 0 && (
             <p className="text-sm text-gray-500 text-center py-4">No venues configured</p>
           )}
         </div>
       </div>
 
-      {/* System Logs */}
+      {/* Scrape Runs */}
       <div className="bg-white dark:bg-gray-800 rounded-lg border dark:border-gray-700 p-6">
         <div className="flex justify-between items-center mb-4">
-          <h2 className="text-lg font-semibold">Recent System Logs</h2>
+          <h2 className="text-lg font-semibold">Recent Scrape Runs</h2>
           <button
             onClick={fetchLogs}
             className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded"
@@ -4270,25 +5351,52 @@ function AdminSystem({ showMessage }: { showMessage: (type: "success" | "error",
           </button>
         </div>
         {loadingLogs ? (
-          <div className="text-center text-gray-500 text-sm py-4">Loading logs...</div>
-        ) : logs.length > 0 ? (
+          <div className="text-center text-gray-500 text-sm py-4">Loading scrape runs...</div>
+        ) : runs.length > 0 ? (
           <div className="space-y-2 max-h-96 overflow-y-auto">
-            {logs.map((log) => (
-              <div key={log.id} className="text-xs p-2 bg-gray-50 dark:bg-gray-900 rounded font-mono">
-                <div className="flex items-start gap-2">
-                  <span className="text-gray-500">{new Date(log.timestamp).toLocaleString()}</span>
+            {runs.map((run) => (
+              <div key={run.id} className="text-xs p-2 bg-gray-50 dark:bg-gray-900 rounded font-mono">
+                <button onClick={() => toggleRun(run.id)} className="w-full flex items-start gap-2 text-left">
+                  <span className="text-gray-500">{new Date(run.startedAt).toLocaleString()}</span>
+                  <span className="px-1 rounded bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                    {run.trigger}
+                  </span>
                   <span className={`px-1 rounded ${
-                    log.level === "error" ? "bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300" :
-                    log.level === "warn" ? "bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300" :
+                    run.status === "failed" ? "bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300" :
+                    run.status === "running" ? "bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300" :
                     "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300"
-                  }`}>{log.level}</span>
-                  <span className="flex-1">{log.message}</span>
-                </div>
+                  }`}>{run.status}</span>
+                  <span className="flex-1">
+                    {run.targetsScraped - run.targetsFailed}/{run.targetsScraped} targets ok · {run.slotCount} slots ·{" "}
+                    {formatBytes(run.bytes)}
+                    {run.finishedAt &&
+                      ` · ${((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000).toFixed(1)}s`}
+                  </span>
+                </button>
+                {run.error && <div className="mt-1 text-red-600 dark:text-red-400">{run.error}</div>}
+                {expandedRunId === run.id && (
+                  <div className="mt-2 space-y-1 border-t dark:border-gray-700 pt-2">
+                    {attempts.map((attempt) => (
+                      <div key={attempt.id} className="flex items-start gap-2">
+                        <span className="flex-1">
+                          {attempt.venueSlug} {attempt.date}
+                          {attempt.endDate && `..${attempt.endDate}`}
+                        </span>
+                        <span className="text-gray-500">
+                          {attempt.httpStatus ?? "-"} · {(attempt.durationMs / 1000).toFixed(1)}s ·{" "}
+                          {formatBytes(attempt.bytes)} · {attempt.slotCount} slots
+                        </span>
+                        {attempt.error && <span className="text-red-600 dark:text-red-400">{attempt.error}</span>}
+                      </div>
+                    ))}
+                    {attempts.length === 0 && <div className="text-gray-500">No targets scraped</div>}
+                  </div>
+                )}
               </div>
             ))}
           </div>
         ) : (
-          <p className="text-sm text-gray-500 text-center py-4">No recent logs</p>
+          <p className="text-sm text-gray-500 text-center py-4">No scrape runs yet</p>
         )}
       </div>
 
@@ -4299,6 +5407,15 @@ function AdminSystem({ showMessage }: { showMessage: (type: "success" | "error",
           onSubmit={handleAddVenue}
         />
       )}
+
+      {/* Venue Closures Modal */}
+      {closuresVenue && (
+        <VenueClosuresModal
+          venue={closuresVenue}
+          onClose={() => setClosuresVenue(null)}
+          showMessage={showMessage}
+        />
+      )}
     </div>
   );
 }
@@ -4315,6 +5432,10 @@ function AddVenueModal({
   const [type, setType] = useState("clubspark");
   const [clubsparkHost, setClubsparkHost] = useState("");
   const [clubsparkId, setClubsparkId] = useState("");
+  const [address, setAddress] = useState("");
+  const [timezone, setTimezone] = useState("Europe/London");
+  const [openHour, setOpenHour] = useState(DEFAULT_DAY_HOURS.open);
+  const [closeHour, setCloseHour] = useState(DEFAULT_DAY_HOURS.close);
   const [submitting, setSubmitting] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -4324,6 +5445,22 @@ function AddVenueModal({
       return;
     }
 
+    if (type === "clubspark" && (!clubsparkHost.trim() || !clubsparkId.trim())) {
+      alert("ClubSpark host and ID are required for ClubSpark venues");
+      return;
+    }
+
+    if (openHour >= closeHour) {
+      alert("Opening time must be before closing time");
+      return;
+    }
+
+    // The same hours every day; the defaults are left unset
+    const isDefault = openHour === DEFAULT_DAY_HOURS.open && closeHour === DEFAULT_DAY_HOURS.close;
+    const openingHours = isDefault
+      ? null
+      : Object.fromEntries(WEEK_DAYS.map((day) => [day, { open: openHour, close: closeHour }]));
+
     setSubmitting(true);
     try {
       await onSubmit({
@@ -4332,6 +5469,9 @@ function AddVenueModal({
         type,
         clubsparkHost: type === "clubspark" ? clubsparkHost.trim() : null,
         clubsparkId: type === "clubspark" ? clubsparkId.trim() : null,
+        address: address.trim() || null,
+        timezone: timezone.trim() || "Europe/London",
+        openingHours,
       });
     } finally {
       setSubmitting(false);
@@ -4385,7 +5525,7 @@ function AddVenueModal({
           {type === "clubspark" && (
             <>
               <div>
-                <label className="block text-sm font-medium mb-2">ClubSpark Host</label>
+                <label className="block text-sm font-medium mb-2">ClubSpark Host *</label>
                 <input
                   type="text"
                   value={clubsparkHost}
@@ -4396,7 +5536,7 @@ function AddVenueModal({
               </div>
 
               <div>
-                <label className="block text-sm font-medium mb-2">ClubSpark ID</label>
+                <label className="block text-sm font-medium mb-2">ClubSpark ID *</label>
                 <input
                   type="text"
                   value={clubsparkId}
@@ -4408,6 +5548,55 @@ function AddVenueModal({
             </>
           )}
 
+          <div>
+            <label className="block text-sm font-medium mb-2">Address</label>
+            <input
+              type="text"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              placeholder="Grove Rd, London E3 5TB"
+              className="w-full p-2 border rounded-lg bg-white dark:bg-gray-700 dark:border-gray-600"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Timezone</label>
+            <input
+              type="text"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              placeholder="Europe/London"
+              className="w-full p-2 border rounded-lg bg-white dark:bg-gray-700 dark:border-gray-600"
+            />
+            <p className="text-xs text-gray-500 mt-1">IANA timezone used for the venue&apos;s local dates</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Opening Hours</label>
+            <div className="flex items-center gap-2">
+              <select
+                value={openHour}
+                onChange={(e) => setOpenHour(parseInt(e.target.value, 10))}
+                className="flex-1 p-2 border rounded-lg bg-white dark:bg-gray-700 dark:border-gray-600"
+              >
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <option key={hour} value={hour}>{formatSlotHour(hour)}</option>
+                ))}
+              </select>
+              <span className="text-sm">to</span>
+              <select
+                value={closeHour}
+                onChange={(e) => setCloseHour(parseInt(e.target.value, 10))}
+                className="flex-1 p-2 border rounded-lg bg-white dark:bg-gray-700 dark:border-gray-600"
+              >
+                {Array.from({ length: 24 }, (_, i) => i + 1).map((hour) => (
+                  <option key={hour} value={hour}>{formatSlotHour(hour % 24)}</option>
+                ))}
+              </select>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Every day, in the venue&apos;s timezone. Past and closed hours aren&apos;t scraped.</p>
+          </div>
+
           <div className="flex gap-3 justify-end pt-4 border-t dark:border-gray-700">
             <button
               type="button"
@@ -4431,6 +5620,142 @@ function AddVenueModal({
   );
 }
 
+function VenueClosuresModal({
+  venue,
+  onClose,
+  showMessage,
+}: {
+  venue: AdminVenue;
+  onClose: () => void;
+  showMessage: (type: "success" | "error", text: string) => void;
+}) {
+  const [closures, setClosures] = useState<VenueClosure[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [date, setDate] = useState("");
+  const [reason, setReason] = useState("");
+
+  const fetchClosures = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/admin/venues/${venue.id}/closures`);
+      const data = await res.json();
+      setClosures(data.closures || []);
+    } catch (error) {
+      console.error("Failed to fetch closures:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [venue.id]);
+
+  useEffect(() => {
+    fetchClosures();
+  }, [fetchClosures]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!date) return;
+
+    try {
+      const res = await fetch(`/api/admin/venues/${venue.id}/closures`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date, reason: reason.trim() || null }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to add closure");
+      }
+
+      setDate("");
+      setReason("");
+      await fetchClosures();
+    } catch (error) {
+      showMessage("error", getErrorMessage(error));
+    }
+  };
+
+  const handleRemove = async (closureDate: string) => {
+    try {
+      const res = await fetch(`/api/admin/venues/${venue.id}/closures?date=${closureDate}`, {
+        method: "DELETE",
+      });
+
+      if (!res.ok) throw new Error("Failed to remove closure");
+
+      await fetchClosures();
+    } catch {
+      showMessage("error", "Failed to remove closure");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b dark:border-gray-700">
+          <h2 className="text-xl font-semibold">{venue.name} Closures</h2>
+          <p className="text-sm text-gray-500 mt-1">Closed dates aren&apos;t scraped and never raise alerts.</p>
+        </div>
+        <div className="p-6 space-y-4">
+          {loading ? (
+            <div className="text-center text-gray-500 text-sm py-4">Loading closures...</div>
+          ) : closures.length > 0 ? (
+            <div className="space-y-2">
+              {closures.map((closure) => (
+                <div key={closure.id} className="flex justify-between items-center p-2 bg-gray-50 dark:bg-gray-900 rounded">
+                  <div className="text-sm">
+                    <span className="font-medium">{formatSlotDate(closure.date)}</span>
+                    {closure.reason && <span className="text-gray-500"> • {closure.reason}</span>}
+                  </div>
+                  <button
+                    onClick={() => handleRemove(closure.date)}
+                    className="px-3 py-1 text-xs bg-red-100 dark:bg-red-900 hover:bg-red-200 dark:hover:bg-red-800 rounded"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 text-center py-4">No upcoming closures</p>
+          )}
+
+          <form onSubmit={handleAdd} className="flex gap-2">
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="p-2 border rounded-lg bg-white dark:bg-gray-700 dark:border-gray-600 text-sm"
+              required
+            />
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason (optional)"
+              className="flex-1 min-w-0 p-2 border rounded-lg bg-white dark:bg-gray-700 dark:border-gray-600 text-sm"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm"
+            >
+              Add
+            </button>
+          </form>
+
+          <div className="flex justify-end pt-4 border-t dark:border-gray-700">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function AdminDatabase({ showMessage }: { showMessage: (type: "success" | "error", text: string) => void }) {
   const [dbStats, setDbStats] = useState<DbStats | null>(null);
   const [loading, setLoading] = useState(true);
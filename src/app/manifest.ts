@@ -0,0 +1,13 @@
+import type { MetadataRoute } from "next";
+
+// Installing the app lets mobile browsers (notably iOS Safari) receive push alerts
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Time for Tennis",
+    short_name: "Tennis",
+    start_url: "/dashboard",
+    display: "standalone",
+    background_color: "#ffffff",
+    theme_color: "#16a34a",
+  };
+}
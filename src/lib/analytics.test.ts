@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("./db", () => ({ db: {} }));
+
+import { aggregateCancellations } from "./analytics";
+import { parseSlotHour } from "./utils/slot-time";
+
+// 2026-04-07 is a Tuesday
+const TUESDAY = "2026-04-07";
+
+function event(overrides: Partial<{ date: string; time: string; court: string; oldStatus: string | null; newStatus: string; observedAt: string | null }>) {
+  return {
+    date: TUESDAY,
+    time: "7pm",
+    court: "Court 1",
+    oldStatus: null,
+    newStatus: "booked",
+    observedAt: "2026-04-01T10:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("parseSlotHour", () => {
+  it("converts am/pm slot times to 24-hour hours", () => {
+    expect(parseSlotHour("7am")).toBe(7);
+    expect(parseSlotHour("12pm")).toBe(12);
+    expect(parseSlotHour("7pm")).toBe(19);
+    expect(parseSlotHour("12am")).toBe(0);
+  });
+
+  it("returns null for unrecognised times", () => {
+    expect(parseSlotHour("evening")).toBeNull();
+  });
+});
+
+describe("aggregateCancellations", () => {
+  it("counts booked → available transitions per weekday and hour", () => {
+    const cells = aggregateCancellations([
+      event({ court: "Court 1" }),
+      event({ court: "Court 2" }),
+      event({ court: "Court 1", oldStatus: "booked", newStatus: "available", observedAt: "2026-04-07T15:00:00.000Z" }),
+    ]);
+
+    expect(cells).toHaveLength(1);
+    expect(cells[0]).toMatchObject({
+      dayOfWeek: 2,
+      hour: 19,
+      bookedSlots: 2,
+      cancellations: 1,
+      rate: 0.5,
+      // 7pm BST is 18:00 UTC
+      medianLeadHours: 3,
+    });
+    expect(cells[0].leadTimes["2-6h"]).toBe(1);
+  });
+
+  it("ignores other transitions", () => {
+    const cells = aggregateCancellations([
+      event({ oldStatus: null, newStatus: "available" }),
+      event({ oldStatus: "closed", newStatus: "available" }),
+      event({ oldStatus: "available", newStatus: "booked" }),
+    ]);
+
+    expect(cells[0].cancellations).toBe(0);
+    expect(cells[0].bookedSlots).toBe(1);
+  });
+
+  it("buckets lead times and handles SQLite timestamps", () => {
+    const cells = aggregateCancellations([
+      event({ oldStatus: "booked", newStatus: "available", observedAt: "2026-04-03 19:00:00" }),
+    ]);
+
+    expect(cells[0].medianLeadHours).toBe(95);
+    expect(cells[0].leadTimes["3d+"]).toBe(1);
+  });
+
+  it("measures lead times to the slot's start in the venue's timezone", () => {
+    const freed = [
+      event({ date: "2026-01-13", oldStatus: "booked", newStatus: "available", observedAt: "2026-01-13T15:00:00.000Z" }),
+    ];
+
+    // 7pm GMT is 19:00 UTC
+    expect(aggregateCancellations(freed)[0].medianLeadHours).toBe(4);
+    // 7pm in New York is 00:00 UTC the next day
+    expect(aggregateCancellations(freed, "America/New_York")[0].medianLeadHours).toBe(9);
+  });
+});
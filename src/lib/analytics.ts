@@ -0,0 +1,158 @@
+import { db } from "./db";
+import { slotEvents, venues } from "./schema";
+import type { SlotEvent } from "./schema";
+import { and, gte, inArray } from "drizzle-orm";
+import { DEFAULT_TIMEZONE } from "./constants";
+import { parseSlotHour } from "./utils/slot-time";
+import { addDays, getDayOfWeek, getVenueToday, zonedTimeToInstant } from "./utils/venue-time";
+
+/**
+ * Cancellation analytics
+ *
+ * A "cancellation" is a slot_events row going booked → available, i.e. a court
+ * that someone had booked was freed up again. For each venue, weekday and hour
+ * we report how often booked slots get freed and how far ahead of play it happens.
+ */
+
+// slot_events are kept longer than slots so the analytics have a few weeks of history
+export const SLOT_HISTORY_RETENTION_DAYS = parseInt(process.env.SLOT_HISTORY_DAYS || "90", 10);
+
+// Lead time = hours between the cancellation being observed and the slot starting
+export const LEAD_TIME_BUCKETS = [
+  { label: "<2h", maxHours: 2 },
+  { label: "2-6h", maxHours: 6 },
+  { label: "6-24h", maxHours: 24 },
+  { label: "1-3d", maxHours: 72 },
+  { label: "3d+", maxHours: Infinity },
+] as const;
+
+export type LeadTimeBucket = (typeof LEAD_TIME_BUCKETS)[number]["label"];
+
+export interface CancellationCell {
+  dayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+  hour: number; // 0-23
+  bookedSlots: number; // distinct (date, court) slots seen booked at this weekday/hour
+  cancellations: number; // booked → available transitions
+  rate: number; // cancellations / bookedSlots
+  medianLeadHours: number | null;
+  leadTimes: Record<LeadTimeBucket, number>;
+}
+
+export interface VenueCancellationStats {
+  slug: string;
+  name: string;
+  cells: CancellationCell[];
+}
+
+// observedAt is ISO from storeAndDiff, or SQLite's "YYYY-MM-DD HH:MM:SS" (UTC) default
+function parseTimestamp(value: string): number {
+  return Date.parse(value.includes("T") ? value : `${value.replace(" ", "T")}Z`);
+}
+
+function leadTimeBucket(hours: number): LeadTimeBucket {
+  return LEAD_TIME_BUCKETS.find((b) => hours < b.maxHours)!.label;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Aggregate slot events for a single venue into weekday/hour cells.
+ * Pure function so it can be unit tested without a database.
+ * Lead times are measured to the slot's start in the venue's timezone.
+ */
+export function aggregateCancellations(
+  events: Pick<SlotEvent, "date" | "time" | "court" | "oldStatus" | "newStatus" | "observedAt">[],
+  timeZone: string = DEFAULT_TIMEZONE
+): CancellationCell[] {
+  const cells = new Map<string, { booked: Set<string>; cancellations: number; leadHours: number[] }>();
+
+  const cellFor = (dayOfWeek: number, hour: number) => {
+    const key = `${dayOfWeek}|${hour}`;
+    if (!cells.has(key)) {
+      cells.set(key, { booked: new Set(), cancellations: 0, leadHours: [] });
+    }
+    return cells.get(key)!;
+  };
+
+  for (const event of events) {
+    const hour = parseSlotHour(event.time);
+    if (hour === null) continue;
+
+    // Weekday of the calendar date itself, independent of server timezone
+    const dayOfWeek = getDayOfWeek(event.date);
+    const cell = cellFor(dayOfWeek, hour);
+    const slotKey = `${event.date}|${event.court}`;
+
+    if (event.newStatus === "booked" || event.oldStatus === "booked") {
+      cell.booked.add(slotKey);
+    }
+
+    if (event.oldStatus === "booked" && event.newStatus === "available") {
+      cell.cancellations++;
+      if (event.observedAt) {
+        const slotStart = zonedTimeToInstant(event.date, hour, timeZone).getTime();
+        const observed = parseTimestamp(event.observedAt);
+        if (!isNaN(slotStart) && !isNaN(observed)) {
+          cell.leadHours.push(Math.max(0, (slotStart - observed) / (60 * 60 * 1000)));
+        }
+      }
+    }
+  }
+
+  const result: CancellationCell[] = [];
+  for (const [key, cell] of cells) {
+    const [dayOfWeek, hour] = key.split("|").map(Number);
+    const leadTimes = Object.fromEntries(LEAD_TIME_BUCKETS.map((b) => [b.label, 0])) as Record<LeadTimeBucket, number>;
+    for (const hours of cell.leadHours) {
+      leadTimes[leadTimeBucket(hours)]++;
+    }
+
+    result.push({
+      dayOfWeek,
+      hour,
+      bookedSlots: cell.booked.size,
+      cancellations: cell.cancellations,
+      rate: cell.booked.size > 0 ? cell.cancellations / cell.booked.size : 0,
+      medianLeadHours: median(cell.leadHours),
+      leadTimes,
+    });
+  }
+
+  return result.sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.hour - b.hour);
+}
+
+/**
+ * Load cancellation stats for the given venues over the last `days` days of play
+ */
+export async function getCancellationStats(
+  venueSlugs: string[],
+  days: number = 28
+): Promise<VenueCancellationStats[]> {
+  if (venueSlugs.length === 0) return [];
+
+  const venueRecords = await db.select().from(venues).where(inArray(venues.slug, venueSlugs));
+  if (venueRecords.length === 0) return [];
+
+  const sinceDate = addDays(getVenueToday(), -days);
+
+  const events = await db
+    .select()
+    .from(slotEvents)
+    .where(
+      and(
+        inArray(slotEvents.venueId, venueRecords.map((v) => v.id)),
+        gte(slotEvents.date, sinceDate)
+      )
+    );
+
+  return venueRecords.map((venue) => ({
+    slug: venue.slug,
+    name: venue.name,
+    cells: aggregateCancellations(events.filter((e) => e.venueId === venue.id), venue.timezone),
+  }));
+}
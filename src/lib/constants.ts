@@ -1,3 +1,5 @@
+import type { OpeningHours } from "./opening-hours";
+
 export type VenueType = "courtside" | "clubspark";
 
 export interface Venue {
@@ -7,9 +9,28 @@ export interface Venue {
   // ClubSpark-specific config
   clubsparkId?: string;
   clubsparkHost?: string;
+  address?: string;
+  timezone?: string; // IANA timezone, defaults to Europe/London
+  openingHours?: OpeningHours; // Defaults to DEFAULT_DAY_HOURS every day
 }
 
-export const VENUES: Venue[] = [
+export const DEFAULT_TIMEZONE = "Europe/London";
+
+// Notification channel types users can add (whatsapp is not implemented yet)
+export const CHANNEL_TYPES = ["telegram", "email", "webhook", "discord", "slack", "push"] as const;
+export type ChannelType = (typeof CHANNEL_TYPES)[number];
+
+// How a user's alerts are delivered: as they happen, batched every N minutes, or once each morning
+export const DELIVERY_MODES = ["instant", "digest", "daily"] as const;
+export type DeliveryMode = (typeof DELIVERY_MODES)[number];
+
+// What started a scrape run: the scheduled cron, a forced cron run (?force=true) or an admin's full scrape
+export const SCRAPE_TRIGGERS = ["cron", "forced", "admin"] as const;
+export type ScrapeTrigger = (typeof SCRAPE_TRIGGERS)[number];
+
+// Seed catalogue used to populate an empty venues table.
+// After the first run the venues table is the source of truth (admins add venues from the dashboard).
+export const DEFAULT_VENUES: Venue[] = [
   // Courtside platform (Tower Hamlets)
   { slug: "bethnal-green-gardens", name: "Bethnal Green Gardens", type: "courtside" },
   { slug: "ropemakers-field", name: "Ropemakers Field", type: "courtside" },
@@ -31,6 +52,4 @@ export const VENUES: Venue[] = [
     clubsparkId: "WestHamPark",
     clubsparkHost: "clubspark.lta.org.uk",
   },
-] as const;
-
-export type VenueSlug = (typeof VENUES)[number]["slug"];
+];
@@ -0,0 +1,94 @@
+import { bench, describe, vi } from "vitest";
+import { and, eq } from "drizzle-orm";
+
+vi.mock("./db", async () => (await import("./test-db")).createTestDb());
+
+import { db } from "./db";
+import { slots, venues } from "./schema";
+import { storeAndDiff } from "./differ";
+import type { ScrapedSlot } from "./scraper";
+
+// Run with `npm run bench`. Kept out of `npm test` since timings vary with load.
+
+const TIMES = Array.from({ length: 15 }, (_, i) => {
+  const hour = 7 + i;
+  return hour < 12 ? `${hour}am` : hour === 12 ? "12pm" : `${hour - 12}pm`;
+});
+const VENUES = Array.from({ length: 6 }, (_, i) => `venue-${i}`);
+const DATES = Array.from({ length: 8 }, (_, i) => `2026-04-${String(i + 1).padStart(2, "0")}`);
+
+function buildRun(status: (i: number) => ScrapedSlot["status"]): ScrapedSlot[] {
+  const run: ScrapedSlot[] = [];
+  let i = 0;
+  for (const venue of VENUES) {
+    for (const date of DATES) {
+      for (const time of TIMES) {
+        for (let c = 1; c <= 4; c++) {
+          run.push({ venue, date, time, court: `Court ${c}`, status: status(i++), price: "£10" });
+        }
+      }
+    }
+  }
+  return run;
+}
+
+// The previous implementation: one SELECT and one write per scraped slot
+async function storeAndDiffPerRow(scrapedSlots: ScrapedSlot[]) {
+  let changes = 0;
+  for (const scrapedSlot of scrapedSlots) {
+    const venue = await db.query.venues.findFirst({ where: eq(venues.slug, scrapedSlot.venue) });
+    if (!venue) continue;
+
+    const existing = await db.query.slots.findFirst({
+      where: and(
+        eq(slots.venueId, venue.id),
+        eq(slots.date, scrapedSlot.date),
+        eq(slots.time, scrapedSlot.time),
+        eq(slots.court, scrapedSlot.court)
+      ),
+    });
+
+    if (scrapedSlot.status === "available" && existing && existing.status !== "available") changes++;
+
+    if (existing) {
+      await db
+        .update(slots)
+        .set({ status: scrapedSlot.status, price: scrapedSlot.price, updatedAt: new Date().toISOString() })
+        .where(eq(slots.id, existing.id));
+    } else {
+      await db.insert(slots).values({
+        venueId: venue.id,
+        date: scrapedSlot.date,
+        time: scrapedSlot.time,
+        court: scrapedSlot.court,
+        status: scrapedSlot.status,
+        price: scrapedSlot.price,
+      });
+    }
+  }
+  return changes;
+}
+
+// Alternating runs so every iteration flips a third of the slots
+const runs = [buildRun((i) => (i % 3 === 0 ? "available" : "booked")), buildRun(() => "booked")];
+let iteration = 0;
+
+async function resetSlots() {
+  await db.delete(slots);
+  await db.delete(venues);
+  await db.insert(venues).values(VENUES.map((slug) => ({ slug, name: slug })));
+  await storeAndDiff(runs[1]);
+  iteration = 0;
+}
+
+describe(`storeAndDiff, ${runs[0].length} slots`, () => {
+  bench("per-row upserts", () => storeAndDiffPerRow(runs[iteration++ % 2]).then(() => undefined), {
+    setup: resetSlots,
+    iterations: 10,
+  });
+
+  bench("batched", () => storeAndDiff(runs[iteration++ % 2]).then(() => undefined), {
+    setup: resetSlots,
+    iterations: 10,
+  });
+});
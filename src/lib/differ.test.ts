@@ -0,0 +1,241 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { and, eq } from "drizzle-orm";
+
+vi.mock("./db", async () => (await import("./test-db")).createTestDb());
+
+import { db } from "./db";
+import { slots, slotEvents, venues } from "./schema";
+import { storeAndDiff, STALE_STATUS } from "./differ";
+import type { ScrapedSlot } from "./scraper";
+
+const TIMES = Array.from({ length: 15 }, (_, i) => {
+  const hour = 7 + i;
+  return hour < 12 ? `${hour}am` : hour === 12 ? "12pm" : `${hour - 12}pm`;
+});
+
+function buildRun(venueSlugs: string[], dates: string[], courts: number, status: (i: number) => ScrapedSlot["status"]): ScrapedSlot[] {
+  const run: ScrapedSlot[] = [];
+  let i = 0;
+  for (const venue of venueSlugs) {
+    for (const date of dates) {
+      for (const time of TIMES) {
+        for (let c = 1; c <= courts; c++) {
+          run.push({ venue, date, time, court: `Court ${c}`, status: status(i++), price: "£10" });
+        }
+      }
+    }
+  }
+  return run;
+}
+
+// The morning before the dates the tests scrape
+const NOW = new Date("2026-04-01T09:00:00Z");
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(NOW);
+  await db.delete(slotEvents);
+  await db.delete(slots);
+  await db.delete(venues);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("storeAndDiff", () => {
+  it("reports booked → available transitions and records history", async () => {
+    await db.insert(venues).values({ slug: "victoria-park", name: "Victoria Park" });
+
+    const first = await storeAndDiff([
+      { venue: "victoria-park", date: "2026-04-07", time: "7pm", court: "Court 1", status: "booked" },
+      { venue: "victoria-park", date: "2026-04-07", time: "7pm", court: "Court 2", status: "available", price: "£10" },
+    ]);
+    expect(first).toEqual([]);
+
+    const second = await storeAndDiff([
+      { venue: "victoria-park", date: "2026-04-07", time: "7pm", court: "Court 1", status: "available", price: "£12" },
+      { venue: "victoria-park", date: "2026-04-07", time: "7pm", court: "Court 2", status: "available", price: "£10" },
+    ]);
+    expect(second).toHaveLength(1);
+    expect(second[0]).toMatchObject({
+      venue: "victoria-park",
+      venueName: "Victoria Park",
+      court: "Court 1",
+      oldStatus: "booked",
+      newStatus: "available",
+      price: "£12",
+    });
+    expect(second[0].bookingUrl).toContain("victoria-park");
+
+    const stored = await db.select().from(slots);
+    expect(stored).toHaveLength(2);
+    expect(stored.every((s) => s.status === "available")).toBe(true);
+
+    // Two first sightings plus the single transition
+    const events = await db.select().from(slotEvents);
+    expect(events).toHaveLength(3);
+  });
+
+  it("marks slots missing from a scraped venue-date as stale", async () => {
+    await db.insert(venues).values({ slug: "victoria-park", name: "Victoria Park" });
+
+    await storeAndDiff([
+      { venue: "victoria-park", date: "2026-04-07", time: "7pm", court: "Court 1", status: "booked" },
+      { venue: "victoria-park", date: "2026-04-07", time: "7pm", court: "Court 2", status: "booked" },
+      { venue: "victoria-park", date: "2026-04-08", time: "7pm", court: "Court 2", status: "booked" },
+    ]);
+
+    // Court 2 drops out of the 7th; the 8th is not scraped at all
+    await storeAndDiff([
+      { venue: "victoria-park", date: "2026-04-07", time: "7pm", court: "Court 1", status: "booked" },
+    ]);
+
+    const stored = await db.select().from(slots);
+    const gone = stored.find((s) => s.date === "2026-04-07" && s.court === "Court 2")!;
+    expect(gone.status).toBe(STALE_STATUS);
+    expect(gone.staleSince).not.toBeNull();
+    expect(stored.find((s) => s.date === "2026-04-08")!.status).toBe("booked");
+    expect(stored.find((s) => s.court === "Court 1")!.staleSince).toBeNull();
+
+    // Reappearing as available clears staleness without raising an alert
+    const changes = await storeAndDiff([
+      { venue: "victoria-park", date: "2026-04-07", time: "7pm", court: "Court 1", status: "booked" },
+      { venue: "victoria-park", date: "2026-04-07", time: "7pm", court: "Court 2", status: "available" },
+    ]);
+    expect(changes).toEqual([]);
+    const [back] = await db
+      .select()
+      .from(slots)
+      .where(and(eq(slots.date, "2026-04-07"), eq(slots.court, "Court 2")));
+    expect(back.status).toBe("available");
+    expect(back.staleSince).toBeNull();
+  });
+
+  it("marks every slot stale when a successful scrape lists none", async () => {
+    await db.insert(venues).values({ slug: "victoria-park", name: "Victoria Park" });
+
+    await storeAndDiff([
+      { venue: "victoria-park", date: "2026-04-07", time: "7pm", court: "Court 1", status: "available" },
+      { venue: "victoria-park", date: "2026-04-08", time: "7pm", court: "Court 1", status: "available" },
+    ]);
+
+    // The 7th scraped fine but every court row vanished; the 8th wasn't scraped
+    const changes = await storeAndDiff([], NOW, [{ venue: "victoria-park", date: "2026-04-07" }]);
+    expect(changes).toEqual([]);
+
+    const stored = await db.select().from(slots);
+    expect(stored.find((s) => s.date === "2026-04-07")!.status).toBe(STALE_STATUS);
+    expect(stored.find((s) => s.date === "2026-04-08")!.status).toBe("available");
+    const events = await db.select().from(slotEvents).where(eq(slotEvents.newStatus, STALE_STATUS));
+    expect(events).toHaveLength(1);
+  });
+
+  it("keeps the last status of slots that started since the previous scrape", async () => {
+    await db.insert(venues).values({ slug: "victoria-park", name: "Victoria Park" });
+    const slot = { venue: "victoria-park", date: "2026-04-01", court: "Court 1", status: "booked" } as const;
+
+    await storeAndDiff([
+      { ...slot, time: "9am" },
+      { ...slot, time: "11am" },
+    ], new Date("2026-04-01T07:00:00Z"));
+    // By 10am BST the scrapers no longer list the 9am slot
+    await storeAndDiff([{ ...slot, time: "11am" }]);
+
+    const stored = await db.select().from(slots);
+    expect(stored.map((s) => s.status)).toEqual(["booked", "booked"]);
+  });
+
+  it("flags slots open on a newly released date", async () => {
+    await db.insert(venues).values({ slug: "victoria-park", name: "Victoria Park" });
+
+    // A brand new venue has no history, so nothing it lists counts as released
+    const initial = await storeAndDiff([
+      { venue: "victoria-park", date: "2026-04-07", time: "7pm", court: "Court 1", status: "available" },
+    ]);
+    expect(initial).toEqual([]);
+
+    const changes = await storeAndDiff([
+      { venue: "victoria-park", date: "2026-04-07", time: "7pm", court: "Court 1", status: "available" },
+      { venue: "victoria-park", date: "2026-04-08", time: "7pm", court: "Court 1", status: "available" },
+      { venue: "victoria-park", date: "2026-04-08", time: "8pm", court: "Court 1", status: "booked" },
+    ]);
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ date: "2026-04-08", time: "7pm", oldStatus: null, newRelease: true });
+  });
+
+  it("stays quiet when many dates appear at once", async () => {
+    await db.insert(venues).values({ slug: "victoria-park", name: "Victoria Park" });
+    await storeAndDiff([
+      { venue: "victoria-park", date: "2026-04-07", time: "7pm", court: "Court 1", status: "booked" },
+    ]);
+
+    const changes = await storeAndDiff(
+      ["2026-04-08", "2026-04-09", "2026-04-10"].map((date) => ({
+        venue: "victoria-park",
+        date,
+        time: "7pm",
+        court: "Court 1",
+        status: "available" as const,
+      }))
+    );
+    expect(changes).toEqual([]);
+  });
+
+  it("stores but doesn't report dates that have passed at the venue", async () => {
+    await db.insert(venues).values([
+      { slug: "victoria-park", name: "Victoria Park" },
+      { slug: "hudson-river", name: "Hudson River", timezone: "America/New_York" },
+    ]);
+    const scrape = (status: ScrapedSlot["status"]) =>
+      storeAndDiff(
+        ["victoria-park", "hudson-river"].map((venue) => ({ venue, date: "2026-04-07", time: "7pm", court: "Court 1", status })),
+        // Already the 8th in London, still the evening of the 7th in New York
+        new Date("2026-04-07T23:30:00Z")
+      );
+
+    await scrape("booked");
+    const changes = await scrape("available");
+
+    expect(changes.map((c) => c.venue)).toEqual(["hudson-river"]);
+    expect(await db.select().from(slots).where(eq(slots.status, "available"))).toHaveLength(2);
+  });
+
+  it("ignores slots for unknown venues", async () => {
+    const changes = await storeAndDiff([
+      { venue: "nowhere", date: "2026-04-07", time: "7pm", court: "Court 1", status: "available" },
+    ]);
+    expect(changes).toEqual([]);
+    expect(await db.select().from(slots)).toHaveLength(0);
+  });
+
+  it("loads each venue-date once and writes a large run in one transaction", async () => {
+    const slugs = Array.from({ length: 6 }, (_, i) => `venue-${i}`);
+    await db.insert(venues).values(slugs.map((slug) => ({ slug, name: slug })));
+    const dates = Array.from({ length: 8 }, (_, i) => `2026-04-${String(i + 1).padStart(2, "0")}`);
+
+    const booked = buildRun(slugs, dates, 4, () => "booked");
+    const flipped = buildRun(slugs, dates, 4, (i) => (i % 3 === 0 ? "available" : "booked"));
+    const expectedChanges = flipped.filter((s) => s.status === "available").length;
+
+    await storeAndDiff(booked);
+
+    const selectSpy = vi.spyOn(db, "select");
+    const selectDistinctSpy = vi.spyOn(db, "selectDistinct");
+    const insertSpy = vi.spyOn(db, "insert");
+    const transactionSpy = vi.spyOn(db, "transaction");
+    try {
+      const changes = await storeAndDiff(flipped);
+      expect(changes).toHaveLength(expectedChanges);
+
+      // One venue lookup plus one load per (venue, date), however many slots each holds
+      expect(selectSpy).toHaveBeenCalledTimes(1 + slugs.length * dates.length);
+      expect(selectDistinctSpy).toHaveBeenCalledTimes(1);
+      // Every write goes through the single transaction
+      expect(insertSpy).not.toHaveBeenCalled();
+      expect(transactionSpy).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+});
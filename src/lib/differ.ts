@@ -1,8 +1,12 @@
 import { db } from "./db";
-import { slots, venues } from "./schema";
-import { eq, and } from "drizzle-orm";
-import { ScrapedSlot } from "./scraper";
-import { VENUES } from "./constants";
+import { slots, slotEvents, venues } from "./schema";
+import { eq, and, asc, inArray, sql } from "drizzle-orm";
+import { ScrapedSlot, ScrapedTarget } from "./scraper";
+import { getSlotTargets } from "./scrapers";
+import { toVenueConfig } from "./venues";
+import { getBookingUrl } from "./utils/link-helpers";
+import { getVenueToday } from "./utils/venue-time";
+import { hasSlotStarted } from "./opening-hours";
 
 export interface SlotChange {
   venue: string;
@@ -13,104 +17,268 @@ export interface SlotChange {
   oldStatus: string | null;
   newStatus: string;
   price?: string;
+  bookingUrl?: string;
+  newRelease?: boolean; // Open at first sighting on a newly released date (oldStatus is null)
+  eventId?: number; // slot_events row of the transition that made the slot available
+  watchIds?: number[]; // Watches that matched, set per user when notifying
 }
 
-// Ensure all venues exist in the database
-export async function ensureVenuesExist() {
-  for (const venue of VENUES) {
-    const existing = await db.query.venues.findFirst({
-      where: eq(venues.slug, venue.slug),
-    });
-
-    if (!existing) {
-      await db.insert(venues).values({
-        slug: venue.slug,
-        name: venue.name,
-      });
-    }
-  }
+// "venue:date:time:court", as stored in notification_log.slot_key
+export function getSlotKey(slot: Pick<SlotChange, "venue" | "date" | "time" | "court">): string {
+  return `${slot.venue}:${slot.date}:${slot.time}:${slot.court}`;
 }
 
-// Get venue ID by slug
-async function getVenueId(slug: string): Promise<number | null> {
-  const venue = await db.query.venues.findFirst({
-    where: eq(venues.slug, slug),
-  });
-  return venue?.id ?? null;
+// Rows per multi-row INSERT - keeps well under SQLite's bound-parameter limit
+const UPSERT_CHUNK_SIZE = 500;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
 }
 
+// Status given to slots that disappeared from a successful scrape
+export const STALE_STATUS = "unknown";
+
+// More new dates than this for one venue in a single run means the window jumped
+// (e.g. after an outage) rather than a normal daily release, so we stay quiet
+const NEW_RELEASE_MAX_DATES_PER_VENUE = 2;
+
 // Store scraped slots and return changes
-export async function storeAndDiff(scrapedSlots: ScrapedSlot[]): Promise<SlotChange[]> {
+//
+// Existing slots are loaded with one query per (venue, date), the diff is computed
+// in memory and every upsert/history row is written in a single transaction.
+// Every successfully scraped (venue, date) in scrapedTargets is treated as
+// authoritative: previously stored slots missing from it are marked stale rather
+// than keeping their last status, even when the scrape listed no slots at all.
+// scrapedTargets defaults to the (venue, date) groups present in scrapedSlots.
+export async function storeAndDiff(
+  scrapedSlots: ScrapedSlot[],
+  now = new Date(),
+  scrapedTargets: ScrapedTarget[] = getSlotTargets(scrapedSlots)
+): Promise<SlotChange[]> {
   const changes: SlotChange[] = [];
+  const observedAt = now.toISOString();
 
-  // Group scraped slots by venue for efficient processing
-  const byVenue: Record<string, ScrapedSlot[]> = {};
-  for (const slot of scrapedSlots) {
-    if (!byVenue[slot.venue]) byVenue[slot.venue] = [];
-    byVenue[slot.venue].push(slot);
-  }
+  // Group scraped slots by venue, then date, starting from the scraped targets
+  // so one that came back empty is still visited
+  const byVenue = new Map<string, Map<string, ScrapedSlot[]>>();
+  const groupFor = (venue: string, date: string) => {
+    if (!byVenue.has(venue)) byVenue.set(venue, new Map());
+    const byDate = byVenue.get(venue)!;
+    if (!byDate.has(date)) byDate.set(date, []);
+    return byDate.get(date)!;
+  };
+  for (const target of scrapedTargets) groupFor(target.venue, target.date);
+  for (const slot of scrapedSlots) groupFor(slot.venue, slot.date).push(slot);
 
-  for (const [venueSlug, venueSlots] of Object.entries(byVenue)) {
-    const venueId = await getVenueId(venueSlug);
-    if (!venueId) continue;
-
-    const venueName = VENUES.find((v) => v.slug === venueSlug)?.name ?? venueSlug;
-
-    for (const scrapedSlot of venueSlots) {
-      // Find existing slot in database
-      const existing = await db.query.slots.findFirst({
-        where: and(
-          eq(slots.venueId, venueId),
-          eq(slots.date, scrapedSlot.date),
-          eq(slots.time, scrapedSlot.time),
-          eq(slots.court, scrapedSlot.court)
-        ),
-      });
-
-      const oldStatus = existing?.status ?? null;
-      const newStatus = scrapedSlot.status;
-
-      // Detect newly available slots (was booked/closed, now available)
-      if (
-        newStatus === "available" &&
-        oldStatus !== null &&
-        oldStatus !== "available"
-      ) {
-        changes.push({
-          venue: venueSlug,
-          venueName,
-          date: scrapedSlot.date,
-          time: scrapedSlot.time,
-          court: scrapedSlot.court,
-          oldStatus,
-          newStatus,
-          price: scrapedSlot.price,
-        });
-      }
+  if (byVenue.size === 0) return changes;
+
+  // One lookup for every venue in the run
+  const venueRows = await db
+    .select()
+    .from(venues)
+    .where(inArray(venues.slug, Array.from(byVenue.keys())));
+  const venueBySlug = new Map(venueRows.map((v) => [v.slug, v]));
+
+  // Venues with no stored slots were just added (or the DB was reset) - everything
+  // they list is "first seen", so none of it counts as a newly released date
+  const venuesWithHistory = new Set(
+    (
+      await db
+        .selectDistinct({ venueId: slots.venueId })
+        .from(slots)
+        .where(inArray(slots.venueId, venueRows.map((v) => v.id)))
+    ).map((row) => row.venueId)
+  );
+
+  const slotRows: (typeof slots.$inferInsert)[] = [];
+  const eventRows: (typeof slotEvents.$inferInsert)[] = [];
+  // Changes awaiting the id of their transition event, keyed by venueId|date|time|court
+  const changeByEventKey = new Map<string, SlotChange>();
 
-      // Upsert the slot
-      if (existing) {
-        await db
-          .update(slots)
-          .set({
-            status: newStatus,
+  for (const [venueSlug, byDate] of byVenue) {
+    const venue = venueBySlug.get(venueSlug);
+    if (!venue) continue;
+
+    const venueConfig = toVenueConfig(venue);
+    const releaseChanges: SlotChange[] = [];
+    let newDateCount = 0;
+    // Dates that have already ended at the venue are stored but never alerted on
+    const venueToday = getVenueToday(now, venue.timezone);
+
+    for (const [date, dateSlots] of byDate) {
+      // Current state of every slot for this venue-date, keyed by time + court
+      const existingRows = await db
+        .select({
+          time: slots.time,
+          court: slots.court,
+          status: slots.status,
+          price: slots.price,
+          updatedAt: slots.updatedAt,
+        })
+        .from(slots)
+        .where(and(eq(slots.venueId, venue.id), eq(slots.date, date)));
+      const statusByKey = new Map(existingRows.map((row) => [`${row.time}|${row.court}`, row.status]));
+      const seenKeys = new Set<string>();
+      const isPastDate = date < venueToday;
+      const isNewDate = existingRows.length === 0 && !isPastDate;
+      if (isNewDate) newDateCount++;
+
+      for (const scrapedSlot of dateSlots) {
+        const key = `${scrapedSlot.time}|${scrapedSlot.court}`;
+        const oldStatus = statusByKey.get(key) ?? null;
+        const newStatus = scrapedSlot.status;
+        statusByKey.set(key, newStatus);
+        seenKeys.add(key);
+        const eventKey = `${venue.id}|${date}|${scrapedSlot.time}|${scrapedSlot.court}`;
+
+        // Detect newly available slots (was booked/closed, now available).
+        // A stale slot reappearing tells us nothing about a cancellation.
+        if (
+          !isPastDate &&
+          newStatus === "available" &&
+          oldStatus !== null &&
+          oldStatus !== "available" &&
+          oldStatus !== STALE_STATUS
+        ) {
+          const change: SlotChange = {
+            venue: venueSlug,
+            venueName: venue.name,
+            date,
+            time: scrapedSlot.time,
+            court: scrapedSlot.court,
+            oldStatus,
+            newStatus,
+            price: scrapedSlot.price,
+            bookingUrl: getBookingUrl(venueConfig, date),
+          };
+          changes.push(change);
+          changeByEventKey.set(eventKey, change);
+        } else if (newStatus === "available" && oldStatus === null && isNewDate) {
+          const change: SlotChange = {
+            venue: venueSlug,
+            venueName: venue.name,
+            date,
+            time: scrapedSlot.time,
+            court: scrapedSlot.court,
+            oldStatus,
+            newStatus,
             price: scrapedSlot.price,
-            updatedAt: new Date().toISOString(),
-          })
-          .where(eq(slots.id, existing.id));
-      } else {
-        await db.insert(slots).values({
-          venueId,
-          date: scrapedSlot.date,
+            bookingUrl: getBookingUrl(venueConfig, date),
+            newRelease: true,
+          };
+          releaseChanges.push(change);
+          changeByEventKey.set(eventKey, change);
+        }
+
+        // Record every transition (including first sighting) in the slot history
+        if (oldStatus !== newStatus) {
+          eventRows.push({
+            venueId: venue.id,
+            date,
+            time: scrapedSlot.time,
+            court: scrapedSlot.court,
+            oldStatus,
+            newStatus,
+            price: scrapedSlot.price,
+            observedAt,
+          });
+        }
+
+        slotRows.push({
+          venueId: venue.id,
+          date,
           time: scrapedSlot.time,
           court: scrapedSlot.court,
           status: newStatus,
-          price: scrapedSlot.price,
+          price: scrapedSlot.price ?? null,
+          updatedAt: observedAt,
+          staleSince: null,
+        });
+      }
+
+      // Slots we knew about that the scrape no longer lists. Scrapers drop slots
+      // that have started, so those keep their last status.
+      for (const row of existingRows) {
+        const key = `${row.time}|${row.court}`;
+        if (seenKeys.has(key) || row.status === STALE_STATUS) continue;
+        if (hasSlotStarted(date, row.time, now, venue.timezone)) continue;
+
+        eventRows.push({
+          venueId: venue.id,
+          date,
+          time: row.time,
+          court: row.court,
+          oldStatus: row.status,
+          newStatus: STALE_STATUS,
+          price: row.price,
+          observedAt,
+        });
+
+        // updatedAt keeps the last time the slot was actually seen
+        slotRows.push({
+          venueId: venue.id,
+          date,
+          time: row.time,
+          court: row.court,
+          status: STALE_STATUS,
+          price: row.price,
+          updatedAt: row.updatedAt,
+          staleSince: observedAt,
         });
       }
     }
+
+    if (
+      releaseChanges.length > 0 &&
+      venuesWithHistory.has(venue.id) &&
+      newDateCount <= NEW_RELEASE_MAX_DATES_PER_VENUE
+    ) {
+      changes.push(...releaseChanges);
+    }
   }
 
+  // better-sqlite3 transactions are synchronous, so every write uses .run()
+  db.transaction((tx) => {
+    for (const rows of chunk(slotRows, UPSERT_CHUNK_SIZE)) {
+      tx.insert(slots)
+        .values(rows)
+        .onConflictDoUpdate({
+          target: [slots.venueId, slots.date, slots.time, slots.court],
+          set: {
+            status: sql`excluded.status`,
+            price: sql`excluded.price`,
+            updatedAt: sql`excluded.updated_at`,
+            staleSince: sql`excluded.stale_since`,
+          },
+        })
+        .run();
+    }
+
+    // Each alert carries its transition event, so notifications are deduped per
+    // availability episode rather than once per slot forever
+    for (const rows of chunk(eventRows, UPSERT_CHUNK_SIZE)) {
+      const inserted = tx
+        .insert(slotEvents)
+        .values(rows)
+        .returning({
+          id: slotEvents.id,
+          venueId: slotEvents.venueId,
+          date: slotEvents.date,
+          time: slotEvents.time,
+          court: slotEvents.court,
+        })
+        .all();
+      for (const event of inserted) {
+        const change = changeByEventKey.get(`${event.venueId}|${event.date}|${event.time}|${event.court}`);
+        if (change) change.eventId = event.id;
+      }
+    }
+  });
+
   return changes;
 }
 
@@ -126,3 +294,11 @@ export async function getAvailability(venueSlug: string, date: string) {
     where: and(eq(slots.venueId, venue.id), eq(slots.date, date)),
   });
 }
+
+// Get the status transition history for a venue and date, oldest first
+export async function getSlotHistory(venueId: number, date: string) {
+  return db.query.slotEvents.findMany({
+    where: and(eq(slotEvents.venueId, venueId), eq(slotEvents.date, date)),
+    orderBy: [asc(slotEvents.observedAt), asc(slotEvents.id)],
+  });
+}
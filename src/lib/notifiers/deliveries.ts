@@ -0,0 +1,89 @@
+import { db } from "../db";
+import { notificationChannels, notificationDeliveries } from "../schema";
+import type { NotificationChannel, NotificationDelivery } from "../schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { PermanentDeliveryError } from "./notifier";
+
+/**
+ * Delivery tracking
+ *
+ * Each flush attempt of a channel's queued slots is recorded in
+ * notification_deliveries. A failed send stays "retrying" with a backoff
+ * (5, 10, 20, 40 minutes) before the next flush may try again; after
+ * MAX_DELIVERY_ATTEMPTS, or on a PermanentDeliveryError, it is "failed".
+ * Permanent failures also deactivate the channel.
+ */
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+const RETRY_BASE_MS = 5 * 60 * 1000;
+
+export type DeliveryOutcome = "sent" | "retrying" | "failed";
+
+// Backoff before the next attempt, after the given number of failed attempts
+export function getRetryDelayMs(attempts: number): number {
+  return RETRY_BASE_MS * 2 ** (attempts - 1);
+}
+
+// Deliveries waiting to be retried, keyed by channel
+export async function loadRetryingDeliveries(channelIds: number[]): Promise<Map<number, NotificationDelivery>> {
+  if (channelIds.length === 0) return new Map();
+
+  const rows = await db
+    .select()
+    .from(notificationDeliveries)
+    .where(and(inArray(notificationDeliveries.channelId, channelIds), eq(notificationDeliveries.status, "retrying")));
+
+  return new Map(rows.map((row) => [row.channelId, row]));
+}
+
+// Whether a retrying delivery is still backing off
+export function isBackingOff(delivery: NotificationDelivery | undefined, now: Date): boolean {
+  return delivery?.nextAttemptAt != null && delivery.nextAttemptAt > now.toISOString();
+}
+
+// Record the outcome of one send attempt, continuing the channel's retrying delivery if any
+export async function recordDeliveryAttempt(
+  channel: NotificationChannel,
+  retrying: NotificationDelivery | undefined,
+  slotCount: number,
+  now: Date,
+  error?: unknown
+): Promise<DeliveryOutcome> {
+  const attempts = (retrying?.attempts ?? 0) + 1;
+  const permanent = error instanceof PermanentDeliveryError;
+
+  let status: DeliveryOutcome = "sent";
+  if (error !== undefined) {
+    status = permanent || attempts >= MAX_DELIVERY_ATTEMPTS ? "failed" : "retrying";
+  }
+
+  const values = {
+    status,
+    slotCount,
+    attempts,
+    lastError: error === undefined ? null : error instanceof Error ? error.message : String(error),
+    nextAttemptAt: status === "retrying" ? new Date(now.getTime() + getRetryDelayMs(attempts)).toISOString() : null,
+    updatedAt: now.toISOString(),
+  };
+
+  if (retrying) {
+    await db.update(notificationDeliveries).set(values).where(eq(notificationDeliveries.id, retrying.id));
+  } else {
+    await db.insert(notificationDeliveries).values({ userId: channel.userId, channelId: channel.id, ...values });
+  }
+
+  if (permanent) {
+    await db.update(notificationChannels).set({ active: 0 }).where(eq(notificationChannels.id, channel.id));
+    console.log(`Deactivated ${channel.type} channel ${channel.id} for user ${channel.userId}: ${values.lastError}`);
+  }
+
+  return status;
+}
+
+// Give up on a retrying delivery whose slots no longer need sending
+export async function abandonDelivery(delivery: NotificationDelivery, now: Date) {
+  await db
+    .update(notificationDeliveries)
+    .set({ status: "failed", nextAttemptAt: null, updatedAt: now.toISOString() })
+    .where(eq(notificationDeliveries.id, delivery.id));
+}
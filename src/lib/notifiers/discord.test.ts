@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { SlotChange } from "../differ";
+import changes from "./fixtures/slot-changes.json";
+import expectedPayload from "./fixtures/discord-payload.json";
+import { formatSlotChangesForDiscord, sendDiscordMessage, validateDiscordWebhookUrl } from "./discord";
+import { PermanentDeliveryError } from "./notifier";
+
+const mockFetch = vi.fn();
+
+beforeEach(() => {
+  mockFetch.mockReset();
+  vi.stubGlobal("fetch", mockFetch);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("formatSlotChangesForDiscord", () => {
+  it("builds one embed per venue and date", () => {
+    expect(formatSlotChangesForDiscord(changes)).toEqual(expectedPayload);
+  });
+
+  it("caps embeds at Discord's limit and counts the rest", () => {
+    const many: SlotChange[] = Array.from({ length: 12 }, (_, i) => ({
+      ...changes[0],
+      date: `2026-04-${String(i + 1).padStart(2, "0")}`,
+    }));
+
+    const payload = formatSlotChangesForDiscord(many);
+    expect(payload.embeds).toHaveLength(10);
+    expect(payload.content).toBe("🎾 **12 tennis courts now available** (2 more venue/dates not shown)");
+  });
+});
+
+describe("validateDiscordWebhookUrl", () => {
+  it("accepts Discord webhook URLs only", () => {
+    expect(validateDiscordWebhookUrl("https://discord.com/api/webhooks/123456/abc-DEF_1")).toBeNull();
+    expect(validateDiscordWebhookUrl("https://discordapp.com/api/webhooks/123456/abc")).toBeNull();
+    expect(validateDiscordWebhookUrl("http://discord.com/api/webhooks/123456/abc")).toContain("discord.com");
+    expect(validateDiscordWebhookUrl("https://example.com/api/webhooks/123456/abc")).toContain("discord.com");
+  });
+});
+
+describe("sendDiscordMessage", () => {
+  it("posts the payload as JSON", async () => {
+    mockFetch.mockResolvedValue(new Response(null, { status: 204 }));
+
+    await sendDiscordMessage("https://discord.com/api/webhooks/1/token", expectedPayload);
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe("https://discord.com/api/webhooks/1/token");
+    expect(JSON.parse(init.body)).toEqual(expectedPayload);
+  });
+
+  it("throws on error responses", async () => {
+    mockFetch.mockResolvedValue(new Response("Unknown Webhook", { status: 404 }));
+
+    await expect(sendDiscordMessage("https://discord.com/api/webhooks/1/token", expectedPayload)).rejects.toThrow(
+      "Discord webhook error (404): Unknown Webhook"
+    );
+  });
+
+  it("treats a deleted webhook as a permanent failure", async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response("Unknown Webhook", { status: 404 }))
+      .mockResolvedValueOnce(new Response("upstream", { status: 502 }));
+    const url = "https://discord.com/api/webhooks/1/token";
+
+    await expect(sendDiscordMessage(url, expectedPayload)).rejects.toBeInstanceOf(PermanentDeliveryError);
+    await expect(sendDiscordMessage(url, expectedPayload)).rejects.not.toBeInstanceOf(PermanentDeliveryError);
+  });
+});
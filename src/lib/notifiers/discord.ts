@@ -0,0 +1,94 @@
+import { SlotChange } from "../differ";
+import { PermanentDeliveryError } from "./notifier";
+import { formatSlotDate } from "../utils/venue-time";
+
+/**
+ * Discord incoming webhooks
+ *
+ * One embed per venue/date, linking to the booking page. Discord allows at
+ * most 10 embeds per message; further groups are summarised in the content line.
+ */
+
+const MAX_EMBEDS = 10;
+const EMBED_COLOR = 0x16a34a; // Same green as the email template
+const WEBHOOK_URL_PATTERN = /^https:\/\/(?:ptb\.|canary\.)?discord(?:app)?\.com\/api\/webhooks\/\d+\/[\w-]+$/;
+
+export interface DiscordEmbed {
+  title: string;
+  url?: string;
+  description: string;
+  color: number;
+  footer?: { text: string };
+}
+
+export interface DiscordWebhookPayload {
+  content: string;
+  embeds: DiscordEmbed[];
+  allowed_mentions: { parse: string[] };
+}
+
+export function validateDiscordWebhookUrl(url: string): string | null {
+  return WEBHOOK_URL_PATTERN.test(url)
+    ? null
+    : "Discord webhook URL must look like https://discord.com/api/webhooks/<id>/<token>";
+}
+
+// Backslash-escape Discord markdown so venue and court names render literally
+function escapeDiscordMarkdown(text: string): string {
+  return text.replace(/([\\*_~`|>])/g, "\\$1");
+}
+
+export function formatSlotChangesForDiscord(changes: SlotChange[]): DiscordWebhookPayload {
+  const grouped = new Map<string, SlotChange[]>();
+  for (const change of changes) {
+    const key = `${change.venue}|${change.date}`;
+    if (!grouped.has(key)) grouped.set(key, []);
+    grouped.get(key)!.push(change);
+  }
+
+  const embeds: DiscordEmbed[] = [];
+  for (const slots of [...grouped.values()].slice(0, MAX_EMBEDS)) {
+    const { venueName, date, bookingUrl } = slots[0];
+    const formattedDate = formatSlotDate(date);
+
+    embeds.push({
+      title: `${venueName} - ${formattedDate}`,
+      ...(bookingUrl && { url: bookingUrl }),
+      description: slots
+        .map((slot) => {
+          const price = slot.price ? ` (${escapeDiscordMarkdown(slot.price)})` : "";
+          return `• **${escapeDiscordMarkdown(slot.time)}** - ${escapeDiscordMarkdown(slot.court)}${price}`;
+        })
+        .join("\n"),
+      color: EMBED_COLOR,
+      ...(slots.every((slot) => slot.newRelease) && { footer: { text: "🆕 Newly released" } }),
+    });
+  }
+
+  const hidden = grouped.size - embeds.length;
+  const count = `${changes.length} tennis court${changes.length === 1 ? "" : "s"} now available`;
+
+  return {
+    content: `🎾 **${count}**${hidden > 0 ? ` (${hidden} more venue/date${hidden === 1 ? "" : "s"} not shown)` : ""}`,
+    embeds,
+    // Never ping anyone from a court alert
+    allowed_mentions: { parse: [] },
+  };
+}
+
+export async function sendDiscordMessage(webhookUrl: string, payload: DiscordWebhookPayload) {
+  const response = await fetch(webhookUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    // The webhook was deleted or its token regenerated
+    if (response.status === 401 || response.status === 404) {
+      throw new PermanentDeliveryError(`Discord webhook error (${response.status}): ${error}`);
+    }
+    throw new Error(`Discord webhook error (${response.status}): ${error}`);
+  }
+}
@@ -1,8 +1,9 @@
 import { Resend } from "resend";
 import { SlotChange } from "../differ";
-import { getBookingUrl } from "../utils/link-helpers";
 import { escapeHtml } from "../utils/html-escape";
 import type { ScrapeStats } from "../scraper";
+import type { DownVenue } from "../venue-health";
+import { formatSlotDate } from "../utils/venue-time";
 
 // Admin email for scrape alerts
 const ADMIN_EMAIL = process.env.ADMIN_EMAIL;
@@ -71,7 +72,7 @@ export function formatSlotChangesForEmail(changes: SlotChange[]): {
   const subject = `${changes.length} tennis court${changes.length > 1 ? "s" : ""} now available`;
 
   // Group by venue and date
-  const grouped: Record<string, { venueName: string; venueSlug: string; date: string; slots: SlotChange[] }> = {};
+  const grouped: Record<string, { venueName: string; venueSlug: string; date: string; bookingUrl: string; slots: SlotChange[] }> = {};
   for (const change of changes) {
     const key = `${change.venue}|${change.date}`;
     if (!grouped[key]) {
@@ -79,6 +80,7 @@ export function formatSlotChangesForEmail(changes: SlotChange[]): {
         venueName: change.venueName,
         venueSlug: change.venue,
         date: change.date,
+        bookingUrl: change.bookingUrl ?? "#",
         slots: [],
       };
     }
@@ -94,12 +96,8 @@ export function formatSlotChangesForEmail(changes: SlotChange[]): {
   `;
 
   for (const group of Object.values(grouped)) {
-    const formattedDate = new Date(group.date).toLocaleDateString("en-GB", {
-      weekday: "long",
-      day: "numeric",
-      month: "long",
-    });
-    const bookingUrl = getBookingUrl(group.venueSlug, group.date);
+    const formattedDate = formatSlotDate(group.date, "long");
+    const bookingUrl = group.bookingUrl;
     
     // Sort slots by time
     const sortedSlots = [...group.slots].sort((a, b) => {
@@ -112,7 +110,7 @@ export function formatSlotChangesForEmail(changes: SlotChange[]): {
       <div style="margin-bottom: 24px; padding: 20px; background: #ffffff; border: 1px solid #e5e7eb; border-radius: 12px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);">
         <div style="margin-bottom: 16px;">
           <h2 style="margin: 0 0 6px 0; color: #111827; font-size: 20px; font-weight: 600;">${escapeHtml(group.venueName)}</h2>
-          <p style="margin: 0; color: #6b7280; font-size: 14px;">${escapeHtml(formattedDate)}</p>
+          <p style="margin: 0; color: #6b7280; font-size: 14px;">${escapeHtml(formattedDate)}${group.slots.every((s) => s.newRelease) ? " · newly released" : ""}</p>
         </div>
         
         <div style="background: #f9fafb; padding: 12px; border-radius: 8px; margin-bottom: 16px;">
@@ -236,6 +234,58 @@ export async function sendScrapeFailureAlert(stats: ScrapeStats): Promise<boolea
   }
 }
 
+/**
+ * Alert admin that venues have had no successful scrape for `hours` hours.
+ * Requires ADMIN_EMAIL env var to be set.
+ */
+export async function sendVenueDownAlert(venues: DownVenue[], hours: number): Promise<boolean> {
+  if (!resend || !ADMIN_EMAIL) {
+    return false;
+  }
+
+  const subject =
+    venues.length === 1
+      ? `🔌 Scrape Alert: ${venues[0].name} down for ${hours}h+`
+      : `🔌 Scrape Alert: ${venues.length} venues down for ${hours}h+`;
+
+  let html = `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="background: #fef2f2; border: 1px solid #fecaca; border-radius: 12px; padding: 20px; margin-bottom: 20px;">
+        <h1 style="color: #dc2626; font-size: 24px; margin: 0 0 16px 0;">🔌 No successful scrape for ${hours} hours</h1>
+  `;
+
+  for (const venue of venues) {
+    html += `
+        <div style="background: white; padding: 16px; border-radius: 8px; margin-bottom: 12px;">
+          <h3 style="margin: 0 0 12px 0; color: #374151;">${escapeHtml(venue.name)}</h3>
+          <ul style="margin: 0; padding-left: 20px; color: #4b5563;">
+            <li>Failing since: <strong>${new Date(venue.failingSince).toUTCString()}</strong> (${venue.consecutiveFailures} runs)</li>
+            <li>Last success: <strong>${venue.lastSuccessAt ? new Date(venue.lastSuccessAt).toUTCString() : "never"}</strong></li>
+            ${venue.blockedUntil ? `<li>Next attempt: <strong>${new Date(venue.blockedUntil).toUTCString()}</strong></li>` : ""}
+            ${venue.lastError ? `<li>Last error: <code style="font-size: 13px;">${escapeHtml(venue.lastError)}</code></li>` : ""}
+          </ul>
+        </div>
+    `;
+  }
+
+  html += `
+      </div>
+      <p style="color: #6b7280; font-size: 13px; text-align: center;">
+        🔧 Scraping backs off automatically; reset a venue from the admin System tab once it's fixed.
+      </p>
+    </div>
+  `;
+
+  try {
+    await sendEmail(ADMIN_EMAIL, subject, html);
+    console.log(`🚨 Admin alert sent: ${venues.map((venue) => venue.slug).join(", ")} down`);
+    return true;
+  } catch (error) {
+    console.error("Failed to send venue down alert:", error);
+    return false;
+  }
+}
+
 /**
  * Send a scrape summary to admin (optional, for monitoring).
  */
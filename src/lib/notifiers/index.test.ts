@@ -0,0 +1,348 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { eq } from "drizzle-orm";
+
+vi.mock("../db", async () => (await import("../test-db")).createTestDb());
+
+vi.mock("./telegram", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./telegram")>()),
+  sendTelegramMessage: vi.fn(),
+  editTelegramMessage: vi.fn(),
+}));
+
+vi.mock("./email", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./email")>()),
+  sendEmail: vi.fn(),
+}));
+
+import { db } from "../db";
+import {
+  dismissedSlots,
+  notificationChannels,
+  notificationDeliveries,
+  notificationLog,
+  pendingNotifications,
+  slots,
+  users,
+  venues,
+  watches,
+} from "../schema";
+import { storeAndDiff, type SlotChange } from "../differ";
+import { collectUserMatches, flushPendingNotifications, notifyUsers, sendSlotGoneUpdates } from "./index";
+import { buildSlotKeyboard, editTelegramMessage, sendTelegramMessage } from "./telegram";
+import { sendEmail } from "./email";
+import { getLocalTime } from "./schedule";
+import { MAX_DELIVERY_ATTEMPTS } from "./deliveries";
+import { PermanentDeliveryError } from "./notifier";
+
+const ALL_DAY = JSON.stringify(
+  Object.fromEntries(
+    ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"].map((day) => [day, ["6pm-10pm"]])
+  )
+);
+
+function watchRow(overrides: Partial<typeof watches.$inferSelect>): typeof watches.$inferSelect {
+  return {
+    id: 1,
+    userId: 1,
+    venueId: null,
+    dayTimes: ALL_DAY,
+    weekdayTimes: null,
+    weekendTimes: null,
+    active: 1,
+    notifyNewDates: 0,
+    minConsecutiveHours: 1,
+    excludedCourts: null,
+    maxPrice: null,
+    specificDates: null,
+    startDate: null,
+    endDate: null,
+    expiredAt: null,
+    mutedOn: null,
+    ...overrides,
+  };
+}
+
+function change(overrides: Partial<SlotChange> = {}): SlotChange {
+  return {
+    venue: "victoria-park",
+    venueName: "Victoria Park",
+    date: "2026-04-07",
+    time: "7pm",
+    court: "Court 1",
+    oldStatus: "booked",
+    newStatus: "available",
+    ...overrides,
+  };
+}
+
+describe("collectUserMatches", () => {
+  it("returns each slot once for overlapping watches", () => {
+    const venueIdMap = { "victoria-park": 1, "ropemakers-field": 2 };
+    const matches = collectUserMatches(
+      [change(), change({ court: "Court 2" }), change({ venue: "ropemakers-field", venueName: "Ropemakers Field" })],
+      [watchRow({ id: 1, venueId: 1 }), watchRow({ id: 2, venueId: null }), watchRow({ id: 3, userId: 2, venueId: 2 })],
+      venueIdMap
+    );
+
+    expect(matches.get(1)).toHaveLength(3);
+    expect(matches.get(2)).toHaveLength(1);
+  });
+});
+
+describe("buildSlotKeyboard", () => {
+  it("adds a Book link per venue/date, Not interested per slot and a mute button", () => {
+    const keyboard = buildSlotKeyboard([
+      change({ bookingUrl: "https://book.example/vp", eventId: 11, watchIds: [1, 2] }),
+      change({ court: "Court 2", bookingUrl: "https://book.example/vp", eventId: 12, watchIds: [2] }),
+    ]);
+
+    expect(keyboard?.inline_keyboard).toEqual([
+      [{ text: "📅 Book Victoria Park · Tue 7 Apr", url: "https://book.example/vp" }],
+      [
+        { text: "🙅 Not interested: 7pm Court 1", callback_data: "skip:11" },
+        { text: "🙅 Not interested: 7pm Court 2", callback_data: "skip:12" },
+      ],
+      [{ text: "🔇 Mute this watch today", callback_data: "mute:1,2" }],
+    ]);
+  });
+});
+
+describe("notifyUsers", () => {
+  const NOW = new Date("2026-04-06T12:00:00Z");
+
+  beforeEach(async () => {
+    vi.mocked(sendTelegramMessage).mockReset();
+    vi.mocked(editTelegramMessage).mockReset();
+    vi.mocked(sendEmail).mockReset();
+    await db.delete(pendingNotifications);
+    await db.delete(notificationLog);
+    await db.delete(notificationDeliveries);
+    await db.delete(notificationChannels);
+    await db.delete(watches);
+    await db.delete(slots);
+    await db.delete(users);
+    await db.delete(venues);
+
+    const [venue] = await db.insert(venues).values({ slug: "victoria-park", name: "Victoria Park" }).returning();
+    const [user] = await db.insert(users).values({ email: "player@example.com", isAllowed: 1 }).returning();
+    await db.insert(slots).values([
+      { venueId: venue.id, date: "2026-04-07", time: "7pm", court: "Court 1", status: "available" },
+      { venueId: venue.id, date: "2026-04-07", time: "8pm", court: "Court 1", status: "available" },
+    ]);
+    // One venue-specific and one all-venues watch covering the same slots
+    await db.insert(watches).values([
+      { userId: user.id, venueId: venue.id, dayTimes: ALL_DAY },
+      { userId: user.id, venueId: null, dayTimes: ALL_DAY },
+    ]);
+    await db.insert(notificationChannels).values([
+      { userId: user.id, type: "telegram", destination: "12345" },
+      { userId: user.id, type: "email", destination: "player@example.com" },
+    ]);
+  });
+
+  it("sends one consolidated message per channel for overlapping watches", async () => {
+    await notifyUsers([change(), change({ time: "8pm" })]);
+    expect(await db.select().from(pendingNotifications)).toHaveLength(4);
+
+    const sent = await flushPendingNotifications(NOW);
+    expect(sent).toBe(4);
+
+    expect(sendTelegramMessage).toHaveBeenCalledTimes(1);
+    const message = vi.mocked(sendTelegramMessage).mock.calls[0][1];
+    expect(message.match(/7pm - Court 1/g)).toHaveLength(1);
+    expect(message.match(/8pm - Court 1/g)).toHaveLength(1);
+
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+    expect(await db.select().from(notificationLog)).toHaveLength(4);
+    expect(await db.select().from(pendingNotifications)).toHaveLength(0);
+  });
+
+  it("does not notify the same slot twice", async () => {
+    await notifyUsers([change()]);
+    await flushPendingNotifications(NOW);
+    await notifyUsers([change()]);
+    await flushPendingNotifications(NOW);
+
+    expect(sendTelegramMessage).toHaveBeenCalledTimes(1);
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips watches muted for today and dismissed slots", async () => {
+    const [user] = await db.select().from(users);
+    await db.insert(dismissedSlots).values({ userId: user.id, slotKey: "victoria-park:2026-04-07:8pm:Court 1" });
+
+    await notifyUsers([change(), change({ time: "8pm" })]);
+    expect((await db.select().from(pendingNotifications)).map((row) => row.slotKey)).toEqual([
+      "victoria-park:2026-04-07:7pm:Court 1",
+      "victoria-park:2026-04-07:7pm:Court 1",
+    ]);
+
+    await db.delete(pendingNotifications);
+    await db.update(watches).set({ mutedOn: getLocalTime(new Date()).date });
+    await notifyUsers([change()]);
+    expect(await db.select().from(pendingNotifications)).toHaveLength(0);
+  });
+
+  it("drops alerts for muted channels", async () => {
+    await db.update(notificationChannels).set({ mutedUntil: "2026-04-06T14:00:00.000Z" }).where(eq(notificationChannels.type, "telegram"));
+
+    await notifyUsers([change()]);
+    await flushPendingNotifications(NOW);
+
+    expect(sendTelegramMessage).not.toHaveBeenCalled();
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+    expect(await db.select().from(pendingNotifications)).toHaveLength(0);
+  });
+
+  it("notifies again when a slot is freed after being rebooked", async () => {
+    const scrape = (status: "available" | "booked") =>
+      storeAndDiff([{ venue: "victoria-park", date: "2026-04-07", time: "7pm", court: "Court 1", status }], NOW);
+
+    await scrape("booked");
+    const firstRelease = await scrape("available");
+    await notifyUsers(firstRelease);
+    await flushPendingNotifications(NOW);
+
+    // Rescraping while still free is the same episode
+    await notifyUsers(firstRelease);
+    await flushPendingNotifications(NOW);
+    expect(sendTelegramMessage).toHaveBeenCalledTimes(1);
+
+    await scrape("booked");
+    const secondRelease = await scrape("available");
+    expect(secondRelease[0].eventId).not.toBe(firstRelease[0].eventId);
+    await notifyUsers(secondRelease);
+    await flushPendingNotifications(NOW);
+
+    expect(sendTelegramMessage).toHaveBeenCalledTimes(2);
+    expect(sendEmail).toHaveBeenCalledTimes(2);
+    expect(await db.select().from(notificationLog)).toHaveLength(4);
+  });
+
+  it("edits the original Telegram alert once a slot is rebooked", async () => {
+    vi.mocked(sendTelegramMessage).mockResolvedValue({ ok: true, result: { message_id: 42 } });
+    const scrape = (sevenPm: "available" | "booked", eightPm: "available" | "booked") =>
+      storeAndDiff([
+        { venue: "victoria-park", date: "2026-04-07", time: "7pm", court: "Court 1", status: sevenPm },
+        { venue: "victoria-park", date: "2026-04-07", time: "8pm", court: "Court 1", status: eightPm },
+      ], NOW);
+
+    await scrape("booked", "booked");
+    await notifyUsers(await scrape("available", "available"));
+    await flushPendingNotifications(NOW);
+
+    expect(await sendSlotGoneUpdates(NOW)).toBe(0);
+
+    await scrape("booked", "available");
+    expect(await sendSlotGoneUpdates(NOW)).toBe(1);
+
+    expect(editTelegramMessage).toHaveBeenCalledTimes(1);
+    const [chatId, messageId, text] = vi.mocked(editTelegramMessage).mock.calls[0];
+    expect(chatId).toBe("12345");
+    expect(messageId).toBe(42);
+    expect(text).toContain("<s>7pm - Court 1</s> ❌ taken");
+    expect(text).toContain("  • 8pm - Court 1");
+
+    // Already reported
+    expect(await sendSlotGoneUpdates(NOW)).toBe(0);
+  });
+
+  it("sends a follow-up when the alert can't be edited", async () => {
+    vi.mocked(sendTelegramMessage).mockResolvedValue({ ok: true, result: { message_id: 42 } });
+    vi.mocked(editTelegramMessage).mockRejectedValue(new Error("message can't be edited"));
+    const scrape = (status: "available" | "booked") =>
+      storeAndDiff([
+        { venue: "victoria-park", date: "2026-04-07", time: "7pm", court: "Court 1", status },
+        { venue: "victoria-park", date: "2026-04-07", time: "8pm", court: "Court 1", status: "available" },
+      ], NOW);
+
+    await scrape("booked");
+    await notifyUsers(await scrape("available"));
+    await flushPendingNotifications(NOW);
+    await scrape("booked");
+
+    expect(await sendSlotGoneUpdates(NOW)).toBe(1);
+    expect(sendTelegramMessage).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(sendTelegramMessage).mock.calls[1][1]).toContain("No longer available");
+  });
+
+  it("retries a failed delivery with backoff on later flushes", async () => {
+    vi.mocked(sendTelegramMessage).mockRejectedValueOnce(new Error("Telegram API error: Too Many Requests"));
+    await notifyUsers([change()]);
+
+    await flushPendingNotifications(NOW);
+    let [delivery] = await db.select().from(notificationDeliveries).where(eq(notificationDeliveries.status, "retrying"));
+    expect(delivery).toMatchObject({ attempts: 1, lastError: "Telegram API error: Too Many Requests" });
+    expect(delivery.nextAttemptAt).toBe("2026-04-06T12:05:00.000Z");
+    expect(await db.select().from(pendingNotifications)).toHaveLength(1);
+
+    // Still backing off
+    await flushPendingNotifications(new Date("2026-04-06T12:04:00Z"));
+    expect(sendTelegramMessage).toHaveBeenCalledTimes(1);
+
+    expect(await flushPendingNotifications(new Date("2026-04-06T12:05:00Z"))).toBe(1);
+    expect(sendTelegramMessage).toHaveBeenCalledTimes(2);
+    [delivery] = await db.select().from(notificationDeliveries).where(eq(notificationDeliveries.id, delivery.id));
+    expect(delivery).toMatchObject({ status: "sent", attempts: 2, nextAttemptAt: null });
+    expect(await db.select().from(pendingNotifications)).toHaveLength(0);
+  });
+
+  it("doesn't resend an alert when recording it fails after sending", async () => {
+    vi.mocked(sendTelegramMessage).mockResolvedValue({ ok: true, result: { message_id: 42 } });
+    const insert = db.insert.bind(db);
+    const insertSpy = vi.spyOn(db, "insert").mockImplementation(((table: Parameters<typeof db.insert>[0]) => {
+      if (table === notificationLog) throw new Error("database is locked");
+      return insert(table);
+    }) as typeof db.insert);
+    await notifyUsers([change()]);
+
+    try {
+      expect(await flushPendingNotifications(NOW)).toBe(2);
+    } finally {
+      insertSpy.mockRestore();
+    }
+
+    expect(await db.select().from(pendingNotifications)).toHaveLength(0);
+    expect(await db.select().from(notificationDeliveries).where(eq(notificationDeliveries.status, "retrying"))).toHaveLength(0);
+    await flushPendingNotifications(new Date("2026-04-06T13:00:00Z"));
+    expect(sendTelegramMessage).toHaveBeenCalledTimes(1);
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after the last attempt", async () => {
+    vi.mocked(sendTelegramMessage).mockRejectedValue(new Error("Telegram API error: Bad Gateway"));
+    await notifyUsers([change()]);
+
+    let now = NOW;
+    for (let attempt = 1; attempt <= MAX_DELIVERY_ATTEMPTS; attempt++) {
+      await flushPendingNotifications(now);
+      now = new Date(now.getTime() + 60 * 60 * 1000);
+    }
+
+    expect(sendTelegramMessage).toHaveBeenCalledTimes(MAX_DELIVERY_ATTEMPTS);
+    const [delivery] = await db.select().from(notificationDeliveries).where(eq(notificationDeliveries.status, "failed"));
+    expect(delivery.attempts).toBe(MAX_DELIVERY_ATTEMPTS);
+    expect(await db.select().from(pendingNotifications)).toHaveLength(0);
+    const [telegram] = await db.select().from(notificationChannels).where(eq(notificationChannels.type, "telegram"));
+    expect(telegram.active).toBe(1);
+  });
+
+  it("deactivates channels that fail permanently", async () => {
+    vi.mocked(sendTelegramMessage).mockRejectedValueOnce(
+      new PermanentDeliveryError("Telegram API error: Forbidden: bot was blocked by the user")
+    );
+    await notifyUsers([change()]);
+    await flushPendingNotifications(NOW);
+
+    const [telegram] = await db.select().from(notificationChannels).where(eq(notificationChannels.type, "telegram"));
+    expect(telegram.active).toBe(0);
+    const [delivery] = await db
+      .select()
+      .from(notificationDeliveries)
+      .where(eq(notificationDeliveries.channelId, telegram.id));
+    expect(delivery).toMatchObject({ status: "failed", attempts: 1 });
+    expect(await db.select().from(pendingNotifications)).toHaveLength(0);
+    // Other channels are unaffected
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,32 +1,78 @@
 import { db } from "../db";
-import { notificationChannels, notificationLog, watches } from "../schema";
-import { SlotChange } from "../differ";
-import { sendTelegramMessage, formatSlotChangesForTelegram } from "./telegram";
-import { sendEmail, formatSlotChangesForEmail, sendScrapeFailureAlert, sendScrapeSummary } from "./email";
-import { eq, and } from "drizzle-orm";
+import {
+  dismissedSlots,
+  notificationChannels,
+  notificationLog,
+  pendingNotifications,
+  slotEvents,
+  slots,
+  users,
+  venues,
+  watches,
+} from "../schema";
+import type { PendingNotification } from "../schema";
+import { SlotChange, STALE_STATUS, getSlotKey } from "../differ";
+import {
+  sendTelegramMessage,
+  editTelegramMessage,
+  buildSlotKeyboard,
+  formatSlotChangesForTelegram,
+  formatSlotsTakenForTelegram,
+} from "./telegram";
+import { sendScrapeFailureAlert, sendScrapeSummary } from "./email";
+import { eq, and, gte, inArray, isNotNull, isNull, notInArray, sql } from "drizzle-orm";
+import { parseSlotHour, formatSlotHour } from "../utils/slot-time";
+import {
+  StoredWatchRules,
+  consecutiveFreeHours,
+  isCourtExcluded,
+  matchesTimePreferences,
+  matchesWatchDates,
+  parsePrice,
+  parseWatchRules,
+} from "../watch-rules";
+import { getNotifier } from "./registry";
+import type { DeliveryResult } from "./notifier";
+import { abandonDelivery, isBackingOff, loadRetryingDeliveries, recordDeliveryAttempt } from "./deliveries";
+import { getLocalTime, isDeliveryDue } from "./schedule";
+import { getDayOfWeek, getVenueToday } from "../utils/venue-time";
+import { toVenueConfig } from "../venues";
+import { getBookingUrl } from "../utils/link-helpers";
 
 export { sendScrapeFailureAlert, sendScrapeSummary };
 
+// Free hours per `${venue}|${date}|${court}`, used for minimum consecutive hour rules
+type FreeHoursMap = Map<string, Set<number>>;
+
 // Check if a slot matches a user's watch preferences
 function matchesWatch(
   change: SlotChange,
-  watch: {
+  watch: StoredWatchRules & {
     venueId: number | null;
     dayTimes: string | null;
     weekdayTimes: string | null; // Legacy field
     weekendTimes: string | null; // Legacy field
+    notifyNewDates: number | null;
   },
-  venueIdMap: Record<string, number>
+  venueIdMap: Record<string, number>,
+  freeHours: FreeHoursMap
 ): boolean {
+  // Slots open when their date was first released are opt-in per watch
+  if (change.newRelease && !watch.notifyNewDates) return false;
+
   // Check venue match (null = all venues)
   if (watch.venueId !== null) {
     const changeVenueId = venueIdMap[change.venue];
     if (changeVenueId !== watch.venueId) return false;
   }
 
+  const rules = parseWatchRules(watch);
+
+  // Specific dates and start/end window
+  if (!matchesWatchDates(change.date, rules)) return false;
+
   // Check day of week and time preferences
-  const date = new Date(change.date);
-  const dayOfWeek = date.getDay(); // 0 = Sunday, 1 = Monday, ..., 6 = Saturday
+  const dayOfWeek = getDayOfWeek(change.date); // 0 = Sunday, 1 = Monday, ..., 6 = Saturday
   
   // Map day of week to day name
   const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
@@ -62,23 +108,117 @@ function matchesWatch(
   // If no times configured for this specific day, skip
   if (preferredTimes.length === 0) return false;
 
-  // Direct match on am/pm times (e.g., "5pm", "6pm")
-  const changeTime = change.time.toLowerCase().trim();
-  if (!preferredTimes.some((t) => t.toLowerCase().trim() === changeTime)) {
+  // Exact am/pm times (e.g., "5pm") or ranges (e.g., "6pm-9pm")
+  if (!matchesTimePreferences(preferredTimes, change.time)) {
     return false;
   }
 
+  if (isCourtExcluded(change.court, rules.excludedCourts)) return false;
+
+  // Slots without a listed price are still reported
+  if (rules.maxPrice !== null) {
+    const price = parsePrice(change.price);
+    if (price !== null && price > rules.maxPrice) return false;
+  }
+
+  // The freed slot must sit in a long enough run of free hours on the same court,
+  // all within the watch's times for that day
+  if (rules.minConsecutiveHours > 1) {
+    const hour = parseSlotHour(change.time);
+    const courtHours = freeHours.get(`${change.venue}|${change.date}|${change.court}`);
+    if (hour === null || !courtHours) return false;
+
+    const run = consecutiveFreeHours(courtHours, hour, (h) =>
+      matchesTimePreferences(preferredTimes, formatSlotHour(h))
+    );
+    if (run < rules.minConsecutiveHours) return false;
+  }
+
   return true;
 }
 
-// Send notifications for slot changes
+// Load current free hours for every venue/date touched by the changes
+async function loadFreeHours(changes: SlotChange[], venueIdMap: Record<string, number>): Promise<FreeHoursMap> {
+  const venueSlugById = new Map(Object.entries(venueIdMap).map(([slug, id]) => [id, slug]));
+  const venueIds = [...new Set(changes.map((c) => venueIdMap[c.venue]).filter((id) => id !== undefined))];
+  const dates = [...new Set(changes.map((c) => c.date))];
+
+  const freeHours: FreeHoursMap = new Map();
+  if (venueIds.length === 0) return freeHours;
+
+  const freeSlots = await db
+    .select({ venueId: slots.venueId, date: slots.date, time: slots.time, court: slots.court })
+    .from(slots)
+    .where(and(inArray(slots.venueId, venueIds), inArray(slots.date, dates), eq(slots.status, "available")));
+
+  for (const slot of freeSlots) {
+    const hour = parseSlotHour(slot.time);
+    if (hour === null) continue;
+    const key = `${venueSlugById.get(slot.venueId)}|${slot.date}|${slot.court}`;
+    if (!freeHours.has(key)) freeHours.set(key, new Set());
+    freeHours.get(key)!.add(hour);
+  }
+
+  return freeHours;
+}
+
+// A slot's availability episode - the same slot freed again later is a new episode
+function getEpisodeKey(slotKey: string, eventId: number | null | undefined): string {
+  return `${slotKey}#${eventId ?? ""}`;
+}
+
+// Changes whose availability episode this channel has not been notified about yet
+async function filterUnsent(channelId: number, changes: SlotChange[]): Promise<SlotChange[]> {
+  const alreadySent = await db
+    .select({ slotKey: notificationLog.slotKey, eventId: notificationLog.eventId })
+    .from(notificationLog)
+    .where(and(eq(notificationLog.channelId, channelId), inArray(notificationLog.slotKey, changes.map(getSlotKey))));
+  const sentKeys = new Set(alreadySent.map((row) => getEpisodeKey(row.slotKey, row.eventId)));
+
+  return changes.filter((change) => !sentKeys.has(getEpisodeKey(getSlotKey(change), change.eventId)));
+}
+
+type MatchableWatch = Parameters<typeof matchesWatch>[1] & { id: number; userId: number };
+
+// Union of the slots matched by any of a user's watches, keyed by user.
+// Overlapping watches (e.g. one venue-specific, one "all venues") yield each slot once.
+export function collectUserMatches(
+  changes: SlotChange[],
+  activeWatches: MatchableWatch[],
+  venueIdMap: Record<string, number>,
+  freeHours: FreeHoursMap = new Map()
+): Map<number, SlotChange[]> {
+  const byUser = new Map<number, Map<string, SlotChange>>();
+
+  for (const watch of activeWatches) {
+    for (const change of changes) {
+      if (!matchesWatch(change, watch, venueIdMap, freeHours)) continue;
+      if (!byUser.has(watch.userId)) byUser.set(watch.userId, new Map());
+      const userMatches = byUser.get(watch.userId)!;
+      const key = getSlotKey(change);
+      // Each user gets their own copy, recording which of their watches matched
+      const existing = userMatches.get(key);
+      if (existing) existing.watchIds!.push(watch.id);
+      else userMatches.set(key, { ...change, watchIds: [watch.id] });
+    }
+  }
+
+  return new Map([...byUser].map(([userId, matches]) => [userId, [...matches.values()]]));
+}
+
+// Match slot changes against watches and queue them once per user channel.
+// Delivery happens in flushPendingNotifications, which sends one consolidated
+// message per channel and honours digests and quiet hours.
 export async function notifyUsers(changes: SlotChange[]) {
   if (changes.length === 0) return;
 
-  // Get all active watches with their users and channels
-  const activeWatches = await db.query.watches.findMany({
-    where: eq(watches.active, 1),
-  });
+  // Watches muted for today from a Telegram alert sit this run out
+  const { date: today } = getLocalTime(new Date());
+  const activeWatches = (
+    await db.query.watches.findMany({
+      where: eq(watches.active, 1),
+    })
+  ).filter((watch) => watch.mutedOn !== today);
 
   // Build venue ID map
   const allVenues = await db.query.venues.findMany();
@@ -87,88 +227,316 @@ export async function notifyUsers(changes: SlotChange[]) {
     venueIdMap[v.slug] = v.id;
   }
 
-  // For each watch, find matching changes and notify
-  for (const watch of activeWatches) {
-    const matchingChanges = changes.filter((c) =>
-      matchesWatch(c, watch, venueIdMap)
+  // Only needed when some watch asks for back-to-back hours
+  const freeHours: FreeHoursMap = activeWatches.some((w) => (w.minConsecutiveHours ?? 1) > 1)
+    ? await loadFreeHours(changes, venueIdMap)
+    : new Map();
+
+  const matchesByUser = collectUserMatches(changes, activeWatches, venueIdMap, freeHours);
+  if (matchesByUser.size === 0) return;
+
+  // Drop slots users marked "Not interested"
+  const dismissals = await db
+    .select({ userId: dismissedSlots.userId, slotKey: dismissedSlots.slotKey })
+    .from(dismissedSlots)
+    .where(
+      and(inArray(dismissedSlots.userId, [...matchesByUser.keys()]), inArray(dismissedSlots.slotKey, changes.map(getSlotKey)))
     );
+  const dismissed = new Set(dismissals.map((row) => `${row.userId}|${row.slotKey}`));
+  for (const [userId, matches] of matchesByUser) {
+    const kept = matches.filter((change) => !dismissed.has(`${userId}|${getSlotKey(change)}`));
+    if (kept.length > 0) matchesByUser.set(userId, kept);
+    else matchesByUser.delete(userId);
+  }
+  if (matchesByUser.size === 0) return;
 
-    if (matchingChanges.length === 0) continue;
-
-    // Get notification channels for this user
-    const channels = await db.query.notificationChannels.findMany({
-      where: and(
-        eq(notificationChannels.userId, watch.userId!),
-        eq(notificationChannels.active, 1)
-      ),
-    });
-
-    for (const channel of channels) {
-      // Check if we already notified for these slots (prevent duplicates)
-      const notifiedSlots: SlotChange[] = [];
-
-      for (const change of matchingChanges) {
-        const slotKey = `${change.venue}:${change.date}:${change.time}:${change.court}`;
-
-        // Check if already notified
-        const existing = await db.query.notificationLog.findFirst({
-          where: and(
-            eq(notificationLog.channelId, channel.id),
-            eq(notificationLog.slotKey, slotKey)
-          ),
-        });
-
-        if (!existing) {
-          notifiedSlots.push(change);
-        }
-      }
+  const channels = await db
+    .select()
+    .from(notificationChannels)
+    .where(and(inArray(notificationChannels.userId, [...matchesByUser.keys()]), eq(notificationChannels.active, 1)));
 
-      if (notifiedSlots.length === 0) continue;
+  for (const channel of channels) {
+    const matches = matchesByUser.get(channel.userId)!;
 
-      try {
-        // Send notification based on channel type
-        let notificationSent = false;
-        
-        if (channel.type === "telegram") {
-          const message = formatSlotChangesForTelegram(notifiedSlots);
-          await sendTelegramMessage(channel.destination, message);
-          notificationSent = true;
-        } else if (channel.type === "email") {
-          const { subject, html } = formatSlotChangesForEmail(notifiedSlots);
-          await sendEmail(channel.destination, subject, html);
-          notificationSent = true;
-        } else {
-          // Unsupported channel type (e.g., whatsapp)
+    // Skip availability episodes we already notified this channel about
+    const toQueue = await filterUnsent(channel.id, matches);
+    if (toQueue.length === 0) continue;
+
+    // A slot may already be queued from an earlier run awaiting a digest;
+    // keep the latest episode so the log records the one actually sent
+    await db
+      .insert(pendingNotifications)
+      .values(
+        toQueue.map((change) => ({
+          userId: channel.userId,
+          channelId: channel.id,
+          slotKey: getSlotKey(change),
+          payload: JSON.stringify(change),
+        }))
+      )
+      .onConflictDoUpdate({
+        target: [pendingNotifications.channelId, pendingNotifications.slotKey],
+        set: { payload: sql`excluded.payload` },
+      });
+  }
+}
+
+// Free slot keys ("venue:date:time:court") among the given changes, per the latest scrape
+async function loadStillAvailable(changes: SlotChange[]): Promise<Set<string>> {
+  const venueSlugs = [...new Set(changes.map((c) => c.venue))];
+  const dates = [...new Set(changes.map((c) => c.date))];
+  if (venueSlugs.length === 0) return new Set();
+
+  const rows = await db
+    .select({ venue: venues.slug, date: slots.date, time: slots.time, court: slots.court })
+    .from(slots)
+    .innerJoin(venues, eq(slots.venueId, venues.id))
+    .where(and(inArray(venues.slug, venueSlugs), inArray(slots.date, dates), eq(slots.status, "available")));
+
+  return new Set(rows.map(getSlotKey));
+}
+
+// Deliver queued notifications for every user whose digest, daily summary or
+// quiet hours allow it. Slots that were booked again or are in the past are dropped.
+export async function flushPendingNotifications(now = new Date()): Promise<number> {
+  const pending = await db.select().from(pendingNotifications);
+  if (pending.length === 0) return 0;
+
+  const { date: today } = getLocalTime(now);
+  const stillAvailable = await loadStillAvailable(pending.map((row) => JSON.parse(row.payload) as SlotChange));
+  // Whether a slot's date has passed is judged in its venue's timezone
+  const venueTodays = new Map(
+    (await db.select({ slug: venues.slug, timezone: venues.timezone }).from(venues)).map((v) => [
+      v.slug,
+      getVenueToday(now, v.timezone),
+    ])
+  );
+
+  const byUser = new Map<number, PendingNotification[]>();
+  for (const row of pending) {
+    if (!byUser.has(row.userId)) byUser.set(row.userId, []);
+    byUser.get(row.userId)!.push(row);
+  }
+
+  const userRows = await db.select().from(users).where(inArray(users.id, [...byUser.keys()]));
+  let sentCount = 0;
+
+  for (const user of userRows) {
+    if (!isDeliveryDue(user, now)) continue;
+
+    const byChannel = new Map<number, PendingNotification[]>();
+    for (const row of byUser.get(user.id)!) {
+      if (!byChannel.has(row.channelId)) byChannel.set(row.channelId, []);
+      byChannel.get(row.channelId)!.push(row);
+    }
+
+    const channels = await db
+      .select()
+      .from(notificationChannels)
+      .where(and(inArray(notificationChannels.id, [...byChannel.keys()]), eq(notificationChannels.active, 1)));
+    const channelMap = new Map(channels.map((c) => [c.id, c]));
+    const retrying = await loadRetryingDeliveries(channels.map((c) => c.id));
+
+    let delivered = false;
+
+    for (const [channelId, rows] of byChannel) {
+      const channel = channelMap.get(channelId);
+      const delivery = retrying.get(channelId);
+
+      // A failed delivery waits out its backoff with the queue intact
+      if (channel && isBackingOff(delivery, now)) continue;
+
+      const changes = rows
+        .map((row) => JSON.parse(row.payload) as SlotChange)
+        .filter((change) => change.date >= (venueTodays.get(change.venue) ?? today) && stillAvailable.has(getSlotKey(change)));
+
+      // Alerts that arrive while a channel is muted are dropped, not held back
+      const muted = channel?.mutedUntil != null && channel.mutedUntil > now.toISOString();
+      let attempted = false;
+
+      if (channel && !muted && changes.length > 0) {
+        // The notification log dedupe still applies to queued slots
+        const toSend = await filterUnsent(channelId, changes);
+        const notifier = getNotifier(channel.type);
+
+        if (!notifier) {
           console.error(
-            `Unsupported notification channel type: ${channel.type} for user ${watch.userId}. ` +
+            `Unsupported notification channel type: ${channel.type} for user ${channel.userId}. ` +
             `Channel ID: ${channel.id}. Notification not sent.`
           );
-          // Don't log as sent - skip this channel
-          continue;
-        }
-
-        // Only log notifications if they were actually sent
-        if (notificationSent) {
-          for (const change of notifiedSlots) {
-            const slotKey = `${change.venue}:${change.date}:${change.time}:${change.court}`;
-            await db.insert(notificationLog).values({
-              userId: watch.userId,
-              channelId: channel.id,
-              slotKey,
-            });
+        } else if (toSend.length > 0) {
+          attempted = true;
+          let sent: DeliveryResult | null = null;
+          try {
+            sent = await notifier.send(channel, toSend);
+          } catch (error) {
+            console.error(`Failed to notify user ${user.id} via ${channel.type}:`, error);
+            // Keep the queue for a retry unless the delivery has been given up on
+            const outcome = await recordDeliveryAttempt(channel, delivery, toSend.length, now, error);
+            if (outcome === "retrying") continue;
           }
 
-          console.log(
-            `Notified user ${watch.userId} via ${channel.type}: ${notifiedSlots.length} slots`
-          );
+          if (sent) {
+            // The alert is out: failing to record it must not queue it for a resend
+            try {
+              await recordDeliveryAttempt(channel, delivery, toSend.length, now);
+              await db
+                .insert(notificationLog)
+                .values(
+                  toSend.map((change) => ({
+                    userId: user.id,
+                    channelId,
+                    slotKey: getSlotKey(change),
+                    eventId: change.eventId ?? null,
+                    messageId: sent.messageId,
+                  }))
+                )
+                .onConflictDoNothing();
+            } catch (error) {
+              console.error(`Failed to record delivery to user ${user.id} via ${channel.type}:`, error);
+            }
+            sentCount += toSend.length;
+            delivered = true;
+            console.log(`Notified user ${user.id} via ${channel.type}: ${toSend.length} slots`);
+          }
         }
-      } catch (error) {
-        console.error(
-          `Failed to notify user ${watch.userId} via ${channel.type}:`,
-          error
-        );
-        // Don't log as sent if there was an error
+      }
+
+      // The slots awaiting a retry were rebooked or muted meanwhile; stop retrying
+      if (delivery && !attempted) await abandonDelivery(delivery, now);
+
+      await db.delete(pendingNotifications).where(inArray(pendingNotifications.id, rows.map((row) => row.id)));
+    }
+
+    if (delivered) {
+      await db
+        .update(users)
+        .set({ lastDigestSentAt: now.toISOString(), lastDailySummaryDate: today })
+        .where(eq(users.id, user.id));
+    }
+  }
+
+  return sentCount;
+}
+
+// Tell Telegram users when a slot we alerted them about has been booked again, so
+// they stop chasing it. The original message is edited to strike the slot through;
+// if that fails a short follow-up is sent instead. Run after each storeAndDiff.
+export async function sendSlotGoneUpdates(now = new Date()): Promise<number> {
+  const { date: today } = getLocalTime(now);
+
+  const gone = await db
+    .select({
+      logId: notificationLog.id,
+      channelId: notificationLog.channelId,
+      messageId: notificationLog.messageId,
+      chatId: notificationChannels.destination,
+    })
+    .from(notificationLog)
+    .innerJoin(notificationChannels, eq(notificationLog.channelId, notificationChannels.id))
+    .innerJoin(slotEvents, eq(notificationLog.eventId, slotEvents.id))
+    .innerJoin(
+      slots,
+      and(
+        eq(slots.venueId, slotEvents.venueId),
+        eq(slots.date, slotEvents.date),
+        eq(slots.time, slotEvents.time),
+        eq(slots.court, slotEvents.court)
+      )
+    )
+    .where(
+      and(
+        isNull(notificationLog.goneNotifiedAt),
+        isNotNull(notificationLog.messageId),
+        eq(notificationChannels.type, "telegram"),
+        eq(notificationChannels.active, 1),
+        gte(slotEvents.date, today),
+        // Stale slots may still be free, so only a definite status counts as taken
+        notInArray(slots.status, ["available", STALE_STATUS])
+      )
+    );
+  if (gone.length === 0) return 0;
+
+  // Group by the message that announced the slots
+  const byMessage = new Map<string, typeof gone>();
+  for (const row of gone) {
+    const key = `${row.channelId}:${row.messageId}`;
+    if (!byMessage.has(key)) byMessage.set(key, []);
+    byMessage.get(key)!.push(row);
+  }
+
+  let updated = 0;
+
+  for (const rows of byMessage.values()) {
+    const { channelId, messageId, chatId } = rows[0];
+    // Never null given the query's filter; narrows the type
+    if (messageId === null) continue;
+    const goneIds = new Set(rows.map((row) => row.logId));
+
+    // Rebuild the original message from the slot history behind each logged slot
+    const messageRows = await db
+      .select({
+        logId: notificationLog.id,
+        goneNotifiedAt: notificationLog.goneNotifiedAt,
+        eventId: slotEvents.id,
+        venueRow: venues,
+        date: slotEvents.date,
+        time: slotEvents.time,
+        court: slotEvents.court,
+        oldStatus: slotEvents.oldStatus,
+        newStatus: slotEvents.newStatus,
+        price: slotEvents.price,
+      })
+      .from(notificationLog)
+      .innerJoin(slotEvents, eq(notificationLog.eventId, slotEvents.id))
+      .innerJoin(venues, eq(slotEvents.venueId, venues.id))
+      .where(and(eq(notificationLog.channelId, channelId), eq(notificationLog.messageId, messageId)))
+      .orderBy(notificationLog.id);
+
+    const changes: SlotChange[] = messageRows.map((row) => ({
+      venue: row.venueRow.slug,
+      venueName: row.venueRow.name,
+      date: row.date,
+      time: row.time,
+      court: row.court,
+      oldStatus: row.oldStatus,
+      newStatus: row.newStatus,
+      price: row.price ?? undefined,
+      bookingUrl: getBookingUrl(toVenueConfig(row.venueRow), row.date),
+      newRelease: row.oldStatus === null || undefined,
+      eventId: row.eventId,
+    }));
+    const taken = new Set(
+      changes.filter((_, i) => messageRows[i].goneNotifiedAt !== null || goneIds.has(messageRows[i].logId)).map(getSlotKey)
+    );
+
+    try {
+      // Mute buttons can't be rebuilt (the matching watches aren't logged), so only
+      // the Book and "Not interested" buttons survive the edit
+      await editTelegramMessage(
+        chatId,
+        messageId,
+        formatSlotChangesForTelegram(changes, taken),
+        buildSlotKeyboard(changes, taken)
+      );
+    } catch (error) {
+      console.error(`Failed to edit Telegram message ${messageId}, sending follow-up:`, error);
+      try {
+        const newlyGone = changes.filter((_, i) => goneIds.has(messageRows[i].logId));
+        await sendTelegramMessage(chatId, formatSlotsTakenForTelegram(newlyGone));
+      } catch (followUpError) {
+        // Left unmarked so the next run tries again
+        console.error(`Failed to send slot gone update to channel ${channelId}:`, followUpError);
+        continue;
       }
     }
+
+    await db
+      .update(notificationLog)
+      .set({ goneNotifiedAt: now.toISOString() })
+      .where(inArray(notificationLog.id, [...goneIds]));
+    updated += goneIds.size;
   }
+
+  return updated;
 }
@@ -0,0 +1,23 @@
+import type { SlotChange } from "../differ";
+import type { NotificationChannel } from "../schema";
+
+export interface DeliveryResult {
+  messageId: number | null; // Set for channels whose messages can be edited later (Telegram)
+}
+
+// A way of delivering slot alerts, registered per channel type in registry.ts
+export interface Notifier {
+  // Returns an error message if alerts can't be delivered to the destination
+  validateDestination?(destination: string): string | null;
+  // Throws on failure; PermanentDeliveryError means the channel will never work again
+  send(channel: NotificationChannel, changes: SlotChange[]): Promise<DeliveryResult>;
+}
+
+// The destination rejected us for good (bot blocked, webhook deleted, subscription
+// expired). The channel is deactivated instead of retried.
+export class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentDeliveryError";
+  }
+}
@@ -0,0 +1,73 @@
+import type { ChannelType } from "../constants";
+import { DeliveryResult, Notifier, PermanentDeliveryError } from "./notifier";
+import { sendTelegramMessage, buildSlotKeyboard, formatSlotChangesForTelegram } from "./telegram";
+import { sendEmail, formatSlotChangesForEmail } from "./email";
+import { buildWebhookPayload, sendWebhook, validateWebhookUrl } from "./webhook";
+import { formatSlotChangesForDiscord, sendDiscordMessage, validateDiscordWebhookUrl } from "./discord";
+import { formatSlotChangesForSlack, sendSlackMessage, validateSlackWebhookUrl } from "./slack";
+import { PushSubscriptionKeys, formatSlotChangesForPush, sendPushNotification, validatePushEndpoint } from "./web-push";
+
+const NO_MESSAGE: DeliveryResult = { messageId: null };
+
+const NOTIFIERS: Record<ChannelType, Notifier> = {
+  telegram: {
+    async send(channel, changes) {
+      const message = formatSlotChangesForTelegram(changes);
+      const response = await sendTelegramMessage(channel.destination, message, buildSlotKeyboard(changes));
+      return { messageId: response?.result?.message_id ?? null };
+    },
+  },
+
+  email: {
+    async send(channel, changes) {
+      const { subject, html } = formatSlotChangesForEmail(changes);
+      await sendEmail(channel.destination, subject, html);
+      return NO_MESSAGE;
+    },
+  },
+
+  webhook: {
+    validateDestination: validateWebhookUrl,
+    async send(channel, changes) {
+      if (!channel.secret) throw new PermanentDeliveryError("Webhook channel has no signing secret");
+      await sendWebhook(channel.destination, channel.secret, buildWebhookPayload(changes));
+      return NO_MESSAGE;
+    },
+  },
+
+  discord: {
+    validateDestination: validateDiscordWebhookUrl,
+    async send(channel, changes) {
+      await sendDiscordMessage(channel.destination, formatSlotChangesForDiscord(changes));
+      return NO_MESSAGE;
+    },
+  },
+
+  slack: {
+    validateDestination: validateSlackWebhookUrl,
+    async send(channel, changes) {
+      await sendSlackMessage(channel.destination, formatSlotChangesForSlack(changes));
+      return NO_MESSAGE;
+    },
+  },
+
+  push: {
+    validateDestination: validatePushEndpoint,
+    async send(channel, changes) {
+      if (!channel.pushKeys) throw new PermanentDeliveryError("Push channel has no subscription keys");
+      const keys = JSON.parse(channel.pushKeys) as PushSubscriptionKeys;
+      await sendPushNotification({ endpoint: channel.destination, keys }, formatSlotChangesForPush(changes));
+      return NO_MESSAGE;
+    },
+  },
+};
+
+// Undefined for channel types that can't be delivered to (e.g. whatsapp)
+export function getNotifier(type: string): Notifier | undefined {
+  return Object.hasOwn(NOTIFIERS, type) ? NOTIFIERS[type as ChannelType] : undefined;
+}
+
+// Returns an error message if the destination can't be delivered to for the channel type
+export function validateChannelDestination(type: string, destination: string): string | null {
+  return getNotifier(type)?.validateDestination?.(destination) ?? null;
+}
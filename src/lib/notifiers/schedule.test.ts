@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { DeliveryPreferences, getLocalTime, isDeliveryDue, isQuietHour } from "./schedule";
+
+const instant: DeliveryPreferences = {
+  deliveryMode: "instant",
+  digestIntervalMinutes: 60,
+  dailySummaryHour: 8,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  lastDigestSentAt: null,
+  lastDailySummaryDate: null,
+};
+
+describe("getLocalTime", () => {
+  it("reports London wall-clock time across BST", () => {
+    // 01:30 UTC in July is 02:30 BST
+    expect(getLocalTime(new Date("2026-07-01T01:30:00Z"))).toEqual({ hour: 2, date: "2026-07-01" });
+    // 23:30 UTC in January is still 23:30 GMT
+    expect(getLocalTime(new Date("2026-01-01T23:30:00Z"))).toEqual({ hour: 23, date: "2026-01-01" });
+  });
+});
+
+describe("isQuietHour", () => {
+  it("handles windows that wrap past midnight", () => {
+    expect(isQuietHour(23, 22, 7)).toBe(true);
+    expect(isQuietHour(2, 22, 7)).toBe(true);
+    expect(isQuietHour(7, 22, 7)).toBe(false);
+    expect(isQuietHour(12, 22, 7)).toBe(false);
+  });
+
+  it("handles same-day windows and unset hours", () => {
+    expect(isQuietHour(13, 12, 14)).toBe(true);
+    expect(isQuietHour(14, 12, 14)).toBe(false);
+    expect(isQuietHour(3, null, null)).toBe(false);
+  });
+});
+
+describe("isDeliveryDue", () => {
+  // 02:00 GMT
+  const night = new Date("2026-01-15T02:00:00Z");
+  // 09:00 GMT
+  const morning = new Date("2026-01-15T09:00:00Z");
+
+  it("sends instant alerts unless in quiet hours", () => {
+    expect(isDeliveryDue(instant, night)).toBe(true);
+    expect(isDeliveryDue({ ...instant, quietHoursStart: 22, quietHoursEnd: 7 }, night)).toBe(false);
+    expect(isDeliveryDue({ ...instant, quietHoursStart: 22, quietHoursEnd: 7 }, morning)).toBe(true);
+  });
+
+  it("waits for the digest interval", () => {
+    const digest: DeliveryPreferences = { ...instant, deliveryMode: "digest", digestIntervalMinutes: 60 };
+    expect(isDeliveryDue(digest, morning)).toBe(true);
+    expect(isDeliveryDue({ ...digest, lastDigestSentAt: "2026-01-15T08:30:00.000Z" }, morning)).toBe(false);
+    expect(isDeliveryDue({ ...digest, lastDigestSentAt: "2026-01-15T08:00:00.000Z" }, morning)).toBe(true);
+  });
+
+  it("sends the daily summary once, from the chosen hour", () => {
+    const daily: DeliveryPreferences = { ...instant, deliveryMode: "daily", dailySummaryHour: 8 };
+    expect(isDeliveryDue(daily, night)).toBe(false);
+    expect(isDeliveryDue(daily, morning)).toBe(true);
+    expect(isDeliveryDue({ ...daily, lastDailySummaryDate: "2026-01-15" }, morning)).toBe(false);
+  });
+
+  it("holds late-evening matches for the next day's summary", () => {
+    const daily: DeliveryPreferences = { ...instant, deliveryMode: "daily", dailySummaryHour: 8 };
+    // No summary went out on the 15th; a match queued at 23:00 still waits
+    expect(isDeliveryDue(daily, new Date("2026-01-15T23:00:00Z"))).toBe(false);
+    expect(isDeliveryDue(daily, new Date("2026-01-16T07:50:00Z"))).toBe(false);
+    expect(isDeliveryDue(daily, new Date("2026-01-16T08:00:00Z"))).toBe(true);
+    // A missed run is caught up shortly after the chosen hour, not all day
+    expect(isDeliveryDue(daily, new Date("2026-01-16T10:30:00Z"))).toBe(true);
+    expect(isDeliveryDue(daily, new Date("2026-01-16T11:00:00Z"))).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import { DEFAULT_TIMEZONE, DeliveryMode } from "../constants";
+import { getZonedTime } from "../utils/venue-time";
+
+export const MIN_DIGEST_INTERVAL_MINUTES = 15;
+export const MAX_DIGEST_INTERVAL_MINUTES = 24 * 60;
+
+// The daily summary goes out on the first flush in this many hours from the
+// chosen hour (covering a missed cron run); later matches wait for the next day
+const DAILY_SUMMARY_WINDOW_HOURS = 3;
+
+// Delivery columns from the users table
+export interface DeliveryPreferences {
+  deliveryMode: DeliveryMode;
+  digestIntervalMinutes: number | null;
+  dailySummaryHour: number | null;
+  quietHoursStart: number | null;
+  quietHoursEnd: number | null;
+  lastDigestSentAt: string | null;
+  lastDailySummaryDate: string | null;
+}
+
+// Wall-clock hour (0-23) and YYYY-MM-DD date of an instant in a timezone
+export function getLocalTime(now: Date, timeZone = DEFAULT_TIMEZONE): { hour: number; date: string } {
+  const { hour, date } = getZonedTime(now, timeZone);
+  return { hour, date };
+}
+
+// Quiet hours may wrap past midnight, e.g. 22 -> 7
+export function isQuietHour(hour: number, start: number | null, end: number | null): boolean {
+  if (start === null || end === null || start === end) return false;
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+// Whether a user's queued notifications should be sent now
+export function isDeliveryDue(prefs: DeliveryPreferences, now: Date): boolean {
+  const { hour, date } = getLocalTime(now);
+
+  if (isQuietHour(hour, prefs.quietHoursStart, prefs.quietHoursEnd)) return false;
+
+  switch (prefs.deliveryMode) {
+    case "digest": {
+      if (!prefs.lastDigestSentAt) return true;
+      const intervalMs = (prefs.digestIntervalMinutes ?? 60) * 60 * 1000;
+      return now.getTime() - Date.parse(prefs.lastDigestSentAt) >= intervalMs;
+    }
+    case "daily": {
+      // The window ends at midnight so it never spans two summary dates
+      const start = prefs.dailySummaryHour ?? 8;
+      const inWindow = hour >= start && hour < Math.min(start + DAILY_SUMMARY_WINDOW_HOURS, 24);
+      return inWindow && prefs.lastDailySummaryDate !== date;
+    }
+    default:
+      return true;
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { SlotChange } from "../differ";
+import changes from "./fixtures/slot-changes.json";
+import expectedPayload from "./fixtures/slack-payload.json";
+import { SlackWebhookPayload, formatSlotChangesForSlack, sendSlackMessage, validateSlackWebhookUrl } from "./slack";
+
+const mockFetch = vi.fn();
+
+beforeEach(() => {
+  mockFetch.mockReset();
+  vi.stubGlobal("fetch", mockFetch);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("formatSlotChangesForSlack", () => {
+  it("builds a header and a section per venue and date", () => {
+    expect(formatSlotChangesForSlack(changes)).toEqual(expectedPayload);
+  });
+
+  it("stays under Slack's block limit", () => {
+    const many: SlotChange[] = Array.from({ length: 50 }, (_, i) => ({
+      ...changes[0],
+      venue: `venue-${i}`,
+    }));
+
+    const { blocks } = formatSlotChangesForSlack(many);
+    expect(blocks.length).toBeLessThanOrEqual(50);
+    expect(blocks.at(-1)).toEqual({
+      type: "context",
+      elements: [{ type: "mrkdwn", text: "5 more venue/dates not shown" }],
+    });
+  });
+});
+
+describe("validateSlackWebhookUrl", () => {
+  it("accepts Slack incoming webhook URLs only", () => {
+    expect(validateSlackWebhookUrl("https://hooks.slack.com/services/T000/B000/XXXX")).toBeNull();
+    expect(validateSlackWebhookUrl("https://hooks.slack.com.evil.example/services/T000")).toContain("hooks.slack.com");
+    expect(validateSlackWebhookUrl("https://example.com/services/T000")).toContain("hooks.slack.com");
+  });
+});
+
+describe("sendSlackMessage", () => {
+  it("posts the payload as JSON and throws on error responses", async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response("ok", { status: 200 }))
+      .mockResolvedValueOnce(new Response("invalid_blocks", { status: 400 }));
+    const url = "https://hooks.slack.com/services/T000/B000/XXXX";
+
+    await sendSlackMessage(url, expectedPayload as SlackWebhookPayload);
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual(expectedPayload);
+
+    await expect(sendSlackMessage(url, expectedPayload as SlackWebhookPayload)).rejects.toThrow(
+      "Slack webhook error (400): invalid_blocks"
+    );
+  });
+});
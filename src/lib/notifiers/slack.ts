@@ -0,0 +1,101 @@
+import { SlotChange } from "../differ";
+import { PermanentDeliveryError } from "./notifier";
+import { formatSlotDate } from "../utils/venue-time";
+
+/**
+ * Slack incoming webhooks
+ *
+ * A Block Kit message with a section per venue/date and a "Book" button.
+ * Slack allows 50 blocks per message; further groups are summarised in a context block.
+ */
+
+const MAX_SECTIONS = 45;
+const WEBHOOK_URL_PATTERN = /^https:\/\/hooks\.slack\.com\/services\/[\w/]+$/;
+
+type SlackText = { type: "plain_text" | "mrkdwn"; text: string; emoji?: boolean };
+
+export type SlackBlock =
+  | { type: "header"; text: SlackText }
+  | {
+      type: "section";
+      text: SlackText;
+      accessory?: { type: "button"; text: SlackText; url: string };
+    }
+  | { type: "context"; elements: SlackText[] };
+
+export interface SlackWebhookPayload {
+  text: string; // Fallback for notifications and clients without blocks
+  blocks: SlackBlock[];
+}
+
+export function validateSlackWebhookUrl(url: string): string | null {
+  return WEBHOOK_URL_PATTERN.test(url)
+    ? null
+    : "Slack webhook URL must look like https://hooks.slack.com/services/...";
+}
+
+// Slack mrkdwn only needs &, < and > escaped
+function escapeSlackText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export function formatSlotChangesForSlack(changes: SlotChange[]): SlackWebhookPayload {
+  const grouped = new Map<string, SlotChange[]>();
+  for (const change of changes) {
+    const key = `${change.venue}|${change.date}`;
+    if (!grouped.has(key)) grouped.set(key, []);
+    grouped.get(key)!.push(change);
+  }
+
+  const count = `${changes.length} tennis court${changes.length === 1 ? "" : "s"} now available`;
+  const blocks: SlackBlock[] = [{ type: "header", text: { type: "plain_text", text: `🎾 ${count}`, emoji: true } }];
+
+  const groups = [...grouped.values()];
+  for (const slots of groups.slice(0, MAX_SECTIONS)) {
+    const { venueName, date, bookingUrl } = slots[0];
+    const formattedDate = formatSlotDate(date);
+    const releaseTag = slots.every((slot) => slot.newRelease) ? " · 🆕 _newly released_" : "";
+    const lines = slots.map((slot) => {
+      const price = slot.price ? ` (${escapeSlackText(slot.price)})` : "";
+      return `• ${escapeSlackText(slot.time)} - ${escapeSlackText(slot.court)}${price}`;
+    });
+
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*${escapeSlackText(venueName)}* - ${formattedDate}${releaseTag}\n${lines.join("\n")}`,
+      },
+      ...(bookingUrl && {
+        accessory: { type: "button" as const, text: { type: "plain_text" as const, text: "Book" }, url: bookingUrl },
+      }),
+    });
+  }
+
+  const hidden = groups.length - MAX_SECTIONS;
+  if (hidden > 0) {
+    blocks.push({
+      type: "context",
+      elements: [{ type: "mrkdwn", text: `${hidden} more venue/date${hidden === 1 ? "" : "s"} not shown` }],
+    });
+  }
+
+  return { text: count, blocks };
+}
+
+export async function sendSlackMessage(webhookUrl: string, payload: SlackWebhookPayload) {
+  const response = await fetch(webhookUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    // Revoked webhook (no_service), archived channel or posting disallowed
+    if (response.status === 403 || response.status === 404 || response.status === 410) {
+      throw new PermanentDeliveryError(`Slack webhook error (${response.status}): ${error}`);
+    }
+    throw new Error(`Slack webhook error (${response.status}): ${error}`);
+  }
+}
@@ -1,10 +1,26 @@
-import { SlotChange } from "../differ";
+import { SlotChange, getSlotKey } from "../differ";
 import { escapeTelegramHtml } from "../utils/html-escape";
+import { PermanentDeliveryError } from "./notifier";
+import { formatSlotDate } from "../utils/venue-time";
 
 const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
 const TELEGRAM_API = `https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}`;
 
-export async function sendTelegramMessage(chatId: string, message: string) {
+// Telegram allows up to 64 bytes of callback data and 100 buttons per message;
+// past this many slots the "Not interested" buttons are left off
+const MAX_SLOT_BUTTONS = 20;
+
+export interface InlineKeyboardButton {
+  text: string;
+  url?: string;
+  callback_data?: string;
+}
+
+export interface InlineKeyboard {
+  inline_keyboard: InlineKeyboardButton[][];
+}
+
+export async function sendTelegramMessage(chatId: string, message: string, replyMarkup?: InlineKeyboard) {
   if (!TELEGRAM_BOT_TOKEN) {
     console.warn("TELEGRAM_BOT_TOKEN not set, skipping Telegram notification");
     return;
@@ -17,43 +33,135 @@ export async function sendTelegramMessage(chatId: string, message: string) {
       chat_id: chatId,
       text: message,
       parse_mode: "HTML",
+      reply_markup: replyMarkup,
     }),
   });
 
   if (!response.ok) {
     const error = await response.text();
+    // 403: the user blocked the bot or deleted their account; 400 "chat not found": the chat is gone
+    if (response.status === 403 || (response.status === 400 && error.includes("chat not found"))) {
+      throw new PermanentDeliveryError(`Telegram API error: ${error}`);
+    }
     throw new Error(`Telegram API error: ${error}`);
   }
 
   return response.json();
 }
 
-export function formatSlotChangesForTelegram(changes: SlotChange[]): string {
-  if (changes.length === 0) return "";
+// Replace the text of a message the bot sent earlier. Telegram drops the
+// message's buttons unless they are passed again.
+export async function editTelegramMessage(
+  chatId: string,
+  messageId: number,
+  message: string,
+  replyMarkup?: InlineKeyboard
+) {
+  if (!TELEGRAM_BOT_TOKEN) {
+    console.warn("TELEGRAM_BOT_TOKEN not set, skipping Telegram message edit");
+    return;
+  }
 
-  const lines = ["🎾 <b>Tennis courts now available!</b>\n"];
+  const response = await fetch(`${TELEGRAM_API}/editMessageText`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      chat_id: chatId,
+      message_id: messageId,
+      text: message,
+      parse_mode: "HTML",
+      reply_markup: replyMarkup,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Telegram API error: ${error}`);
+  }
+
+  return response.json();
+}
+
+// Acknowledge a button press; the text is shown briefly as a toast
+export async function answerTelegramCallbackQuery(callbackQueryId: string, text: string) {
+  if (!TELEGRAM_BOT_TOKEN) {
+    console.warn("TELEGRAM_BOT_TOKEN not set, skipping Telegram callback answer");
+    return;
+  }
 
-  // Group by venue and date
-  const grouped: Record<string, SlotChange[]> = {};
+  const response = await fetch(`${TELEGRAM_API}/answerCallbackQuery`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ callback_query_id: callbackQueryId, text }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Telegram API error: ${error}`);
+  }
+
+  return response.json();
+}
+
+function groupByVenueDate(changes: SlotChange[]): Map<string, SlotChange[]> {
+  const grouped = new Map<string, SlotChange[]>();
   for (const change of changes) {
     const key = `${change.venueName}|${change.date}`;
-    if (!grouped[key]) grouped[key] = [];
-    grouped[key].push(change);
+    if (!grouped.has(key)) grouped.set(key, []);
+    grouped.get(key)!.push(change);
   }
+  return grouped;
+}
+
+// Buttons under an alert, per venue/date: a "Book" link, "Not interested" for each
+// slot still free (callback "skip:<slot event id>") and "Mute this watch today" for
+// the watches that matched (callback "mute:<watch ids>")
+export function buildSlotKeyboard(changes: SlotChange[], taken: Set<string> = new Set()): InlineKeyboard | undefined {
+  const rows: InlineKeyboardButton[][] = [];
+  const withSlotButtons = changes.length <= MAX_SLOT_BUTTONS;
+
+  for (const slots of groupByVenueDate(changes).values()) {
+    const { venueName, date, bookingUrl } = slots[0];
+    if (bookingUrl) {
+      rows.push([{ text: `📅 Book ${venueName} · ${formatSlotDate(date)}`, url: bookingUrl }]);
+    }
 
-  for (const [key, slots] of Object.entries(grouped)) {
+    if (withSlotButtons) {
+      const skipButtons = slots
+        .filter((slot) => slot.eventId !== undefined && !taken.has(getSlotKey(slot)))
+        .map((slot) => ({ text: `🙅 Not interested: ${slot.time} ${slot.court}`, callback_data: `skip:${slot.eventId}` }));
+      for (let i = 0; i < skipButtons.length; i += 2) {
+        rows.push(skipButtons.slice(i, i + 2));
+      }
+    }
+
+    const watchIds = [...new Set(slots.flatMap((slot) => slot.watchIds ?? []))];
+    const callbackData = `mute:${watchIds.join(",")}`;
+    if (watchIds.length > 0 && callbackData.length <= 64) {
+      rows.push([{ text: "🔇 Mute this watch today", callback_data: callbackData }]);
+    }
+  }
+
+  return rows.length > 0 ? { inline_keyboard: rows } : undefined;
+}
+
+// Slots in `taken` (keyed by getSlotKey) are struck through as no longer available
+export function formatSlotChangesForTelegram(changes: SlotChange[], taken: Set<string> = new Set()): string {
+  if (changes.length === 0) return "";
+
+  const lines = ["🎾 <b>Tennis courts now available!</b>\n"];
+
+  for (const [key, slots] of groupByVenueDate(changes)) {
     const [venueName, date] = key.split("|");
-    const formattedDate = new Date(date).toLocaleDateString("en-GB", {
-      weekday: "short",
-      day: "numeric",
-      month: "short",
-    });
+    const formattedDate = formatSlotDate(date);
 
-    lines.push(`📍 <b>${escapeTelegramHtml(venueName)}</b> - ${escapeTelegramHtml(formattedDate)}`);
+    const releaseTag = slots.every((slot) => slot.newRelease) ? " 🆕 <i>newly released</i>" : "";
+    lines.push(`📍 <b>${escapeTelegramHtml(venueName)}</b> - ${escapeTelegramHtml(formattedDate)}${releaseTag}`);
 
     for (const slot of slots) {
       const priceStr = slot.price ? ` (${escapeTelegramHtml(slot.price)})` : "";
-      lines.push(`  • ${escapeTelegramHtml(slot.time)} - ${escapeTelegramHtml(slot.court)}${priceStr}`);
+      const line = `${escapeTelegramHtml(slot.time)} - ${escapeTelegramHtml(slot.court)}${priceStr}`;
+      lines.push(taken.has(getSlotKey(slot)) ? `  • <s>${line}</s> ❌ taken` : `  • ${line}`);
     }
     lines.push("");
   }
@@ -62,3 +170,16 @@ export function formatSlotChangesForTelegram(changes: SlotChange[]): string {
 
   return lines.join("\n");
 }
+
+// Short follow-up when the original message can no longer be edited
+export function formatSlotsTakenForTelegram(slots: SlotChange[]): string {
+  const lines = ["❌ <b>No longer available</b>\n"];
+  for (const slot of slots) {
+    const formattedDate = formatSlotDate(slot.date);
+    lines.push(
+      `  • ${escapeTelegramHtml(slot.venueName)} - ${escapeTelegramHtml(formattedDate)} ` +
+        `${escapeTelegramHtml(slot.time)} - ${escapeTelegramHtml(slot.court)}`
+    );
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, randomBytes } from "crypto";
+import { jwtVerify } from "jose";
+import type { SlotChange } from "../differ";
+import {
+  PushSubscriptionGoneError,
+  encryptPushPayload,
+  formatSlotChangesForPush,
+  generateVapidKeys,
+  sendPushNotification,
+  validatePushEndpoint,
+  validatePushSubscription,
+} from "./web-push";
+import { PermanentDeliveryError } from "./notifier";
+
+const ENDPOINT = "https://fcm.googleapis.com/fcm/send/abc123";
+
+// The browser's side of a subscription
+const browser = createECDH("prime256v1");
+browser.generateKeys();
+const authSecret = randomBytes(16);
+const keys = {
+  p256dh: browser.getPublicKey().toString("base64url"),
+  auth: authSecret.toString("base64url"),
+};
+
+// Decrypt an aes128gcm body the way a browser would (RFC 8291)
+function decrypt(body: Buffer): string {
+  const salt = body.subarray(0, 16);
+  const idLength = body.readUInt8(20);
+  const serverPublic = body.subarray(21, 21 + idLength);
+  const record = body.subarray(21 + idLength);
+
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), browser.getPublicKey(), serverPublic]);
+  const ikm = Buffer.from(hkdfSync("sha256", browser.computeSecret(serverPublic), authSecret, keyInfo, 32));
+  const cek = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16));
+  const nonce = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12));
+
+  const decipher = createDecipheriv("aes-128-gcm", cek, nonce);
+  decipher.setAuthTag(record.subarray(-16));
+  const plaintext = Buffer.concat([decipher.update(record.subarray(0, -16)), decipher.final()]);
+  expect(plaintext.at(-1)).toBe(0x02);
+  return plaintext.subarray(0, -1).toString();
+}
+
+function change(overrides: Partial<SlotChange> = {}): SlotChange {
+  return {
+    venue: "victoria-park",
+    venueName: "Victoria Park",
+    date: "2026-04-07",
+    time: "7pm",
+    court: "Court 1",
+    oldStatus: "booked",
+    newStatus: "available",
+    bookingUrl: "https://book.example/vp",
+    ...overrides,
+  };
+}
+
+const mockFetch = vi.fn();
+
+beforeEach(() => {
+  mockFetch.mockReset();
+  vi.stubGlobal("fetch", mockFetch);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("formatSlotChangesForPush", () => {
+  it("names the venue when all slots share one", () => {
+    expect(formatSlotChangesForPush([change(), change({ time: "8pm", court: "Court 2" })])).toEqual({
+      title: "🎾 2 courts free at Victoria Park",
+      body: "Tue 7 Apr 7pm Court 1\nTue 7 Apr 8pm Court 2",
+      url: "https://book.example/vp",
+      tag: "court-alert",
+    });
+  });
+
+  it("lists venues per slot and truncates long alerts", () => {
+    const payload = formatSlotChangesForPush([
+      ...Array.from({ length: 5 }, (_, i) => change({ court: `Court ${i + 1}` })),
+      change({ venueName: "Ropemakers Field", bookingUrl: undefined }),
+    ]);
+
+    expect(payload.title).toBe("🎾 6 courts now available");
+    expect(payload.body.split("\n")).toEqual([
+      "Tue 7 Apr 7pm Court 1 · Victoria Park",
+      "Tue 7 Apr 7pm Court 2 · Victoria Park",
+      "Tue 7 Apr 7pm Court 3 · Victoria Park",
+      "Tue 7 Apr 7pm Court 4 · Victoria Park",
+      "+2 more",
+    ]);
+  });
+});
+
+describe("validatePushSubscription", () => {
+  it("requires an https endpoint and well-formed keys", () => {
+    expect(validatePushSubscription({ endpoint: ENDPOINT, keys })).toBeNull();
+    expect(validatePushSubscription({ endpoint: ENDPOINT })).toContain("endpoint and keys");
+    expect(validatePushSubscription({ endpoint: "http://fcm.googleapis.com/fcm/send/abc", keys })).toContain("https");
+    expect(validatePushSubscription({ endpoint: ENDPOINT, keys: { ...keys, auth: "short" } })).toContain("16-byte");
+  });
+});
+
+describe("validatePushEndpoint", () => {
+  it("accepts the browsers' push services only", () => {
+    expect(validatePushEndpoint(ENDPOINT)).toBeNull();
+    expect(validatePushEndpoint("https://updates.push.services.mozilla.com/wpush/v2/abc")).toBeNull();
+    expect(validatePushEndpoint("https://wns2-db5p.notify.windows.com/w/?token=abc")).toBeNull();
+    expect(validatePushEndpoint("https://web.push.apple.com/abc")).toBeNull();
+
+    for (const endpoint of [
+      "https://push.example/abc",
+      "https://127.0.0.1/abc",
+      "https://169.254.169.254/latest/meta-data",
+      "https://fcm.googleapis.com.evil.example/abc",
+      "https://fcm.googleapis.com:8443/abc",
+      "https://notify.windows.com.evil.example/abc",
+    ]) {
+      expect(validatePushEndpoint(endpoint)).toContain("known browser push service");
+    }
+  });
+});
+
+describe("encryptPushPayload", () => {
+  it("can be decrypted with the subscription's keys", () => {
+    expect(decrypt(encryptPushPayload('{"title":"Courts"}', keys))).toBe('{"title":"Courts"}');
+  });
+});
+
+describe("sendPushNotification", () => {
+  const vapid = generateVapidKeys();
+
+  it("sends an encrypted payload with a VAPID JWT for the push service", async () => {
+    mockFetch.mockResolvedValue(new Response(null, { status: 201 }));
+    const payload = formatSlotChangesForPush([change()]);
+
+    await sendPushNotification({ endpoint: ENDPOINT, keys }, payload, vapid);
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe(ENDPOINT);
+    expect(init.headers["Content-Encoding"]).toBe("aes128gcm");
+    expect(init.redirect).toBe("error");
+    expect(JSON.parse(decrypt(Buffer.from(init.body)))).toEqual(payload);
+
+    const [, token, publicKey] = init.headers.Authorization.match(/^vapid t=(\S+), k=(\S+)$/);
+    expect(publicKey).toBe(vapid.publicKey);
+    const point = Buffer.from(publicKey, "base64url");
+    const key = createPublicKey({
+      key: {
+        kty: "EC",
+        crv: "P-256",
+        x: point.subarray(1, 33).toString("base64url"),
+        y: point.subarray(33).toString("base64url"),
+      },
+      format: "jwk",
+    });
+    const { payload: claims } = await jwtVerify(token, key, { audience: "https://fcm.googleapis.com" });
+    expect(claims.sub).toMatch(/^mailto:/);
+  });
+
+  it("reports expired subscriptions separately from other failures", async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response("gone", { status: 410 }))
+      .mockResolvedValueOnce(new Response("bad", { status: 400 }));
+    const payload = formatSlotChangesForPush([change()]);
+
+    await expect(sendPushNotification({ endpoint: ENDPOINT, keys }, payload, vapid)).rejects.toBeInstanceOf(
+      PushSubscriptionGoneError
+    );
+    await expect(sendPushNotification({ endpoint: ENDPOINT, keys }, payload, vapid)).rejects.toThrow(
+      "Push service error (400): bad"
+    );
+  });
+
+  it("refuses stored endpoints that aren't on a known push service", async () => {
+    const payload = formatSlotChangesForPush([change()]);
+
+    await expect(
+      sendPushNotification({ endpoint: "https://10.0.0.5/push", keys }, payload, vapid)
+    ).rejects.toBeInstanceOf(PermanentDeliveryError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("skips sending when VAPID keys aren't configured", async () => {
+    await sendPushNotification({ endpoint: ENDPOINT, keys }, formatSlotChangesForPush([change()]), null);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
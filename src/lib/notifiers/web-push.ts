@@ -0,0 +1,218 @@
+import { createECDH, createPrivateKey, generateKeyPairSync, hkdfSync, randomBytes, createCipheriv } from "crypto";
+import { SignJWT } from "jose";
+import { SlotChange } from "../differ";
+import { PermanentDeliveryError } from "./notifier";
+import { formatSlotDate } from "../utils/venue-time";
+
+/**
+ * Browser Web Push
+ *
+ * Payloads are encrypted for the subscription (RFC 8291, aes128gcm) and the
+ * request is authorised with a VAPID JWT (RFC 8292) signed by the server's key
+ * pair. Generate keys with `npx tsx scripts/generate-vapid-keys.ts`.
+ *
+ * Only endpoints on the browsers' own push services are accepted, so a
+ * subscription can't aim alert requests at arbitrary or internal hosts.
+ */
+
+const VAPID_PUBLIC_KEY = process.env.VAPID_PUBLIC_KEY;
+const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY;
+const VAPID_SUBJECT = process.env.VAPID_SUBJECT || "mailto:admin@example.com";
+
+// Slot alerts go stale quickly; let push services drop undelivered ones after an hour
+const PUSH_TTL_SECONDS = 60 * 60;
+const RECORD_SIZE = 4096;
+const MAX_BODY_LINES = 4;
+
+// Push services used by Chrome/Edge (FCM), Firefox, Windows and Safari
+const PUSH_SERVICE_HOSTS = ["fcm.googleapis.com", "updates.push.services.mozilla.com", "web.push.apple.com"];
+const PUSH_SERVICE_HOST_SUFFIXES = [".notify.windows.com"];
+
+export interface PushSubscriptionKeys {
+  p256dh: string; // base64url uncompressed P-256 public key
+  auth: string; // base64url 16-byte auth secret
+}
+
+export interface PushTarget {
+  endpoint: string;
+  keys: PushSubscriptionKeys;
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+  tag: string;
+}
+
+export interface VapidKeys {
+  publicKey: string; // base64url uncompressed point, passed to pushManager.subscribe()
+  privateKey: string; // base64url private scalar
+}
+
+// The push service no longer accepts this subscription (404/410); the channel should be dropped
+export class PushSubscriptionGoneError extends PermanentDeliveryError {
+  constructor(status: number) {
+    super(`Push subscription expired (${status})`);
+    this.name = "PushSubscriptionGoneError";
+  }
+}
+
+export function getVapidKeys(): VapidKeys | null {
+  if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) return null;
+  return { publicKey: VAPID_PUBLIC_KEY, privateKey: VAPID_PRIVATE_KEY };
+}
+
+export function generateVapidKeys(): VapidKeys {
+  const { privateKey } = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+  const jwk = privateKey.export({ format: "jwk" });
+  const point = Buffer.concat([Buffer.from([0x04]), Buffer.from(jwk.x!, "base64url"), Buffer.from(jwk.y!, "base64url")]);
+  return { publicKey: point.toString("base64url"), privateKey: jwk.d! };
+}
+
+// Returns an error message, or null if the endpoint is on a known push service
+export function validatePushEndpoint(endpoint: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(endpoint);
+  } catch {
+    return "Push endpoint must be a valid URL";
+  }
+  if (parsed.protocol !== "https:") {
+    return "Push endpoint must use https";
+  }
+  const host = parsed.hostname.toLowerCase();
+  if (
+    parsed.port !== "" ||
+    !(PUSH_SERVICE_HOSTS.includes(host) || PUSH_SERVICE_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix)))
+  ) {
+    return "Push endpoint must be on a known browser push service";
+  }
+  return null;
+}
+
+// Returns an error message, or null if the browser subscription looks usable
+export function validatePushSubscription(subscription: unknown): string | null {
+  const sub = subscription as Partial<PushTarget> | null;
+  if (!sub || typeof sub.endpoint !== "string" || !sub.keys) {
+    return "subscription must include endpoint and keys";
+  }
+  const endpointError = validatePushEndpoint(sub.endpoint);
+  if (endpointError) return endpointError;
+  const { p256dh, auth } = sub.keys;
+  if (typeof p256dh !== "string" || Buffer.from(p256dh, "base64url").length !== 65) {
+    return "keys.p256dh must be an uncompressed P-256 public key";
+  }
+  if (typeof auth !== "string" || Buffer.from(auth, "base64url").length !== 16) {
+    return "keys.auth must be a 16-byte secret";
+  }
+  return null;
+}
+
+export function formatSlotChangesForPush(changes: SlotChange[]): PushPayload {
+  const venues = new Set(changes.map((change) => change.venueName));
+  const count = `${changes.length} court${changes.length === 1 ? "" : "s"}`;
+  const title = venues.size === 1 ? `🎾 ${count} free at ${[...venues][0]}` : `🎾 ${count} now available`;
+
+  const lines = changes.slice(0, MAX_BODY_LINES).map((change) => {
+    const date = formatSlotDate(change.date);
+    const venue = venues.size === 1 ? "" : ` · ${change.venueName}`;
+    return `${date} ${change.time} ${change.court}${venue}`;
+  });
+  if (changes.length > MAX_BODY_LINES) {
+    lines.push(`+${changes.length - MAX_BODY_LINES} more`);
+  }
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+
+  return {
+    title,
+    body: lines.join("\n"),
+    url: changes.find((change) => change.bookingUrl)?.bookingUrl ?? `${appUrl}/dashboard`,
+    // Replaces an earlier alert still on screen instead of stacking
+    tag: "court-alert",
+  };
+}
+
+// Encrypt a payload for a subscription as a single aes128gcm record (RFC 8291)
+export function encryptPushPayload(plaintext: string, keys: PushSubscriptionKeys): Buffer {
+  const uaPublic = Buffer.from(keys.p256dh, "base64url");
+  const authSecret = Buffer.from(keys.auth, "base64url");
+
+  const ecdh = createECDH("prime256v1");
+  const asPublic = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(uaPublic);
+
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), uaPublic, asPublic]);
+  const ikm = Buffer.from(hkdfSync("sha256", sharedSecret, authSecret, keyInfo, 32));
+
+  const salt = randomBytes(16);
+  const cek = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16));
+  const nonce = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12));
+
+  const cipher = createCipheriv("aes-128-gcm", cek, nonce);
+  // 0x02 marks the last (and only) record
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.update(Buffer.from([0x02])), cipher.final()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(asPublic.length, 20);
+
+  return Buffer.concat([header, asPublic, ciphertext, cipher.getAuthTag()]);
+}
+
+// "vapid t=<jwt>, k=<public key>" for the push service's origin
+export async function buildVapidAuthorization(endpoint: string, vapid: VapidKeys): Promise<string> {
+  const point = Buffer.from(vapid.publicKey, "base64url");
+  const key = createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      x: point.subarray(1, 33).toString("base64url"),
+      y: point.subarray(33, 65).toString("base64url"),
+      d: vapid.privateKey,
+    },
+    format: "jwk",
+  });
+
+  const jwt = await new SignJWT({ sub: VAPID_SUBJECT })
+    .setProtectedHeader({ alg: "ES256", typ: "JWT" })
+    .setAudience(new URL(endpoint).origin)
+    .setExpirationTime("12h")
+    .sign(key);
+
+  return `vapid t=${jwt}, k=${vapid.publicKey}`;
+}
+
+export async function sendPushNotification(target: PushTarget, payload: PushPayload, vapid = getVapidKeys()) {
+  if (!vapid) {
+    console.warn("VAPID keys not set, skipping push notification");
+    return;
+  }
+
+  // Subscriptions saved before endpoints were restricted are rechecked here
+  const endpointError = validatePushEndpoint(target.endpoint);
+  if (endpointError) throw new PermanentDeliveryError(endpointError);
+
+  const response = await fetch(target.endpoint, {
+    method: "POST",
+    headers: {
+      Authorization: await buildVapidAuthorization(target.endpoint, vapid),
+      "Content-Type": "application/octet-stream",
+      "Content-Encoding": "aes128gcm",
+      TTL: String(PUSH_TTL_SECONDS),
+      Urgency: "high",
+    },
+    body: new Uint8Array(encryptPushPayload(JSON.stringify(payload), target.keys)),
+    redirect: "error",
+  });
+
+  if (response.status === 404 || response.status === 410) {
+    throw new PushSubscriptionGoneError(response.status);
+  }
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Push service error (${response.status}): ${error}`);
+  }
+}
@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createHmac } from "crypto";
+import { lookup } from "dns";
+import type { SlotChange } from "../differ";
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  buildWebhookPayload,
+  lookupPublicAddress,
+  sendWebhook,
+  validateWebhookUrl,
+} from "./webhook";
+import { PermanentDeliveryError } from "./notifier";
+
+vi.mock("dns", () => ({ lookup: vi.fn() }));
+
+// Resolve hostnames in lookupPublicAddress to these addresses
+function resolveTo(...addresses: string[]) {
+  const resolved = addresses.map((address) => ({ address, family: address.includes(":") ? 6 : 4 }));
+  vi.mocked(lookup).mockImplementation(((_hostname: string, _options: unknown, callback: (...args: unknown[]) => void) =>
+    callback(null, resolved)) as never);
+}
+
+function lookupAsync(hostname: string, all: boolean) {
+  return new Promise<unknown[]>((resolve, reject) =>
+    lookupPublicAddress(hostname, { all }, (error, address, family) => (error ? reject(error) : resolve([address, family])))
+  );
+}
+
+const SECRET = "test-secret";
+
+const change: SlotChange = {
+  venue: "victoria-park",
+  venueName: "Victoria Park",
+  date: "2026-04-07",
+  time: "7pm",
+  court: "Court 1",
+  oldStatus: "booked",
+  newStatus: "available",
+  price: "£10",
+  bookingUrl: "https://book.example/vp",
+  eventId: 12,
+  watchIds: [3],
+};
+
+const mockFetch = vi.fn();
+
+beforeEach(() => {
+  mockFetch.mockReset();
+  vi.mocked(lookup).mockReset();
+  vi.stubGlobal("fetch", mockFetch);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("buildWebhookPayload", () => {
+  it("describes each slot without internal fields", () => {
+    const payload = buildWebhookPayload([change]);
+
+    expect(payload.event).toBe("slots.available");
+    expect(payload.slots).toEqual([
+      {
+        venue: "victoria-park",
+        venueName: "Victoria Park",
+        date: "2026-04-07",
+        time: "7pm",
+        court: "Court 1",
+        price: "£10",
+        bookingUrl: "https://book.example/vp",
+        newRelease: false,
+      },
+    ]);
+  });
+});
+
+describe("validateWebhookUrl", () => {
+  it("accepts https URLs only", () => {
+    expect(validateWebhookUrl("https://example.com/hook")).toBeNull();
+    expect(validateWebhookUrl("http://example.com/hook")).toContain("https");
+    expect(validateWebhookUrl("ftp://example.com")).toContain("https");
+    expect(validateWebhookUrl("not a url")).toContain("valid URL");
+  });
+
+  it.each([
+    "https://localhost/hook",
+    "https://api.localhost/hook",
+    "https://127.0.0.1/hook",
+    "https://2130706433/hook",
+    "https://0x7f.1/hook",
+    "https://0.0.0.0/hook",
+    "https://10.1.2.3/hook",
+    "https://172.20.0.1/hook",
+    "https://192.168.1.1/hook",
+    "https://169.254.169.254/latest/meta-data",
+    "https://[::1]/hook",
+    "https://[::ffff:127.0.0.1]/hook",
+    "https://[fd00::1]/hook",
+    "https://[fe80::1]/hook",
+  ])("rejects internal host %s", (url) => {
+    expect(validateWebhookUrl(url)).toContain("public address");
+  });
+
+  it("accepts public IP literals", () => {
+    expect(validateWebhookUrl("https://93.184.216.34/hook")).toBeNull();
+    expect(validateWebhookUrl("https://[2606:4700::1111]/hook")).toBeNull();
+  });
+});
+
+describe("lookupPublicAddress", () => {
+  it("returns public addresses in the form the caller asked for", async () => {
+    resolveTo("93.184.216.34", "2606:4700::1111");
+
+    expect(await lookupAsync("example.com", true)).toEqual([
+      [
+        { address: "93.184.216.34", family: 4 },
+        { address: "2606:4700::1111", family: 6 },
+      ],
+      undefined,
+    ]);
+    expect(await lookupAsync("example.com", false)).toEqual(["93.184.216.34", 4]);
+  });
+
+  it("refuses hostnames that resolve to any internal address", async () => {
+    resolveTo("93.184.216.34", "10.0.0.5");
+    await expect(lookupAsync("rebind.example", true)).rejects.toBeInstanceOf(PermanentDeliveryError);
+
+    resolveTo("::ffff:127.0.0.1");
+    await expect(lookupAsync("rebind.example", false)).rejects.toBeInstanceOf(PermanentDeliveryError);
+  });
+});
+
+describe("sendWebhook", () => {
+  it("signs the timestamp and body with the channel secret", async () => {
+    mockFetch.mockResolvedValue(new Response(null, { status: 204 }));
+
+    await sendWebhook("https://example.com/hook", SECRET, buildWebhookPayload([change]));
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe("https://example.com/hook");
+    const timestamp = init.headers[WEBHOOK_TIMESTAMP_HEADER];
+    const expected = createHmac("sha256", SECRET).update(`${timestamp}.${init.body}`).digest("hex");
+    expect(init.headers[WEBHOOK_SIGNATURE_HEADER]).toBe(`sha256=${expected}`);
+    expect(JSON.parse(init.body).slots).toHaveLength(1);
+  });
+
+  it("retries server errors and network failures", async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response("busy", { status: 503 }))
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }));
+
+    await sendWebhook("https://example.com/hook", SECRET, buildWebhookPayload([change]), { retryDelayMs: 0 });
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after the last attempt", async () => {
+    mockFetch.mockResolvedValue(new Response("down", { status: 500 }));
+
+    await expect(
+      sendWebhook("https://example.com/hook", SECRET, buildWebhookPayload([change]), { retryDelayMs: 0 })
+    ).rejects.toThrow("Webhook returned 500");
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry client errors", async () => {
+    mockFetch.mockResolvedValue(new Response("nope", { status: 404 }));
+
+    await expect(
+      sendWebhook("https://example.com/hook", SECRET, buildWebhookPayload([change]), { retryDelayMs: 0 })
+    ).rejects.toThrow("Webhook returned 404");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("connects through the address-checking agent without following redirects", async () => {
+    mockFetch.mockResolvedValue(new Response(null, { status: 302, headers: { Location: "http://169.254.169.254/" } }));
+
+    await expect(
+      sendWebhook("https://example.com/hook", SECRET, buildWebhookPayload([change]), { retryDelayMs: 0 })
+    ).rejects.toThrow("Webhook returned 302");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    const [, init] = mockFetch.mock.calls[0];
+    expect(init.redirect).toBe("manual");
+    expect(init.dispatcher).toBeDefined();
+  });
+
+  it("fails permanently when the connection's lookup refuses the address", async () => {
+    const refused = new PermanentDeliveryError("Webhook URL resolves to a non-public address");
+    mockFetch.mockRejectedValue(new TypeError("fetch failed", { cause: refused }));
+
+    await expect(
+      sendWebhook("https://rebind.example/hook", SECRET, buildWebhookPayload([change]), { retryDelayMs: 0 })
+    ).rejects.toBe(refused);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("refuses URLs that no longer validate", async () => {
+    await expect(
+      sendWebhook("http://127.0.0.1:8080/admin", SECRET, buildWebhookPayload([change]))
+    ).rejects.toBeInstanceOf(PermanentDeliveryError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("treats 410 Gone as a permanent failure", async () => {
+    mockFetch.mockResolvedValue(new Response(null, { status: 410 }));
+
+    await expect(
+      sendWebhook("https://example.com/hook", SECRET, buildWebhookPayload([change]), { retryDelayMs: 0 })
+    ).rejects.toBeInstanceOf(PermanentDeliveryError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
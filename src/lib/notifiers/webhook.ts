@@ -0,0 +1,202 @@
+import { createHmac, randomBytes } from "crypto";
+import { lookup } from "dns";
+import { BlockList, LookupFunction, isIP } from "net";
+import { Agent } from "undici";
+import { SlotChange } from "../differ";
+import { PermanentDeliveryError } from "./notifier";
+
+/**
+ * Outgoing webhooks
+ *
+ * Alerts are POSTed as JSON to the channel's URL. Each request carries
+ * X-Webhook-Timestamp (unix seconds) and X-Webhook-Signature:
+ * "sha256=" + hex HMAC-SHA256 of "<timestamp>.<raw body>" keyed with the
+ * channel's secret, so receivers can verify the sender and reject replays.
+ *
+ * URLs must be https and must not point at loopback, private or link-local
+ * addresses. Deliveries connect through an agent whose DNS lookup refuses
+ * internal addresses, so the address checked is the one connected to and a
+ * record changed after registration can't redirect deliveries inward.
+ * Redirects are never followed.
+ */
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export type WebhookEvent = "slots.available" | "test";
+
+export interface WebhookPayload {
+  event: WebhookEvent;
+  sentAt: string;
+  slots: {
+    venue: string;
+    venueName: string;
+    date: string;
+    time: string;
+    court: string;
+    price: string | null;
+    bookingUrl: string | null;
+    newRelease: boolean;
+  }[];
+}
+
+// Loopback, private, link-local, unique-local and other non-public ranges.
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked against the IPv4 rules.
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], // Unspecified and loopback
+  ["64:ff9b::", 96], // NAT64, which can embed any IPv4 address
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export function isBlockedAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 0) return false;
+  return BLOCKED_ADDRESSES.check(address, version === 4 ? "ipv4" : "ipv6");
+}
+
+function isBlockedHostname(hostname: string): boolean {
+  // URL keeps IPv6 literals bracketed and normalises numeric IPv4 forms (2130706433, 0x7f.1)
+  const host = hostname.replace(/^\[|\]$/g, "").replace(/\.$/, "").toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost")) return true;
+  return isBlockedAddress(host);
+}
+
+export function generateWebhookSecret(): string {
+  return randomBytes(32).toString("hex");
+}
+
+// Returns an error message, or null if the URL can receive webhooks
+export function validateWebhookUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Webhook URL must be a valid URL";
+  }
+  if (parsed.protocol !== "https:") {
+    return "Webhook URL must use https";
+  }
+  if (isBlockedHostname(parsed.hostname)) {
+    return "Webhook URL must point at a public address";
+  }
+  return null;
+}
+
+// DNS lookup for webhook connections: fails if any address the hostname
+// resolves to is internal
+export const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "");
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      return callback(new PermanentDeliveryError("Webhook URL resolves to a non-public address"), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const publicAgent = new Agent({ connect: { lookup: lookupPublicAddress } });
+
+export function buildWebhookPayload(changes: SlotChange[], event: WebhookEvent = "slots.available"): WebhookPayload {
+  return {
+    event,
+    sentAt: new Date().toISOString(),
+    slots: changes.map((change) => ({
+      venue: change.venue,
+      venueName: change.venueName,
+      date: change.date,
+      time: change.time,
+      court: change.court,
+      price: change.price ?? null,
+      bookingUrl: change.bookingUrl ?? null,
+      newRelease: Boolean(change.newRelease),
+    })),
+  };
+}
+
+export function signWebhookBody(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// POST a payload, retrying network errors, 429s and 5xx responses with exponential
+// backoff. Other 4xx responses fail straight away, and 410 Gone is treated as the
+// receiver asking never to be called again, as is a URL that fails validation or
+// resolves to an internal address. Throws once attempts run out.
+export async function sendWebhook(
+  url: string,
+  secret: string,
+  payload: WebhookPayload,
+  { attempts = 3, retryDelayMs = 1000 }: { attempts?: number; retryDelayMs?: number } = {}
+): Promise<void> {
+  const invalid = validateWebhookUrl(url);
+  if (invalid) throw new PermanentDeliveryError(invalid);
+
+  const body = JSON.stringify(payload);
+  let lastError: Error = new Error("Webhook not sent");
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    // Sign each attempt afresh so retries aren't rejected as stale
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "tennis-court-notifier",
+          [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookBody(secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        // A redirect could point anywhere, so a 3xx is a failed delivery
+        redirect: "manual",
+        dispatcher: publicAgent,
+      } as RequestInit);
+
+      if (response.ok) return;
+
+      lastError =
+        response.status === 410
+          ? new PermanentDeliveryError(`Webhook returned ${response.status}`)
+          : new Error(`Webhook returned ${response.status}`);
+      if (!isRetryable(response.status)) throw lastError;
+    } catch (error) {
+      if (error === lastError) throw error;
+      // fetch wraps errors from the connection's lookup
+      if (error instanceof Error && error.cause instanceof PermanentDeliveryError) throw error.cause;
+      lastError = error instanceof Error ? error : new Error(String(error));
+    }
+
+    if (attempt < attempts) {
+      await new Promise((resolve) => setTimeout(resolve, retryDelayMs * 2 ** (attempt - 1)));
+    }
+  }
+
+  throw lastError;
+}
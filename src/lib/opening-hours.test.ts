@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { getDayHours, getRemainingHours, hasSlotStarted, parseOpeningHours, validateOpeningHours } from "./opening-hours";
+
+// 2026-04-07 is a Tuesday; London is on BST (UTC+1)
+const TUESDAY = "2026-04-07";
+
+describe("validateOpeningHours", () => {
+  it("accepts whole-hour days and closed days", () => {
+    expect(validateOpeningHours({ monday: { open: 7, close: 22 }, sunday: null })).toBeNull();
+    expect(validateOpeningHours({ friday: { open: 0, close: 24 } })).toBeNull();
+  });
+
+  it("rejects unknown days and impossible hours", () => {
+    expect(validateOpeningHours([])).toContain("keyed by weekday");
+    expect(validateOpeningHours({ funday: { open: 7, close: 22 } })).toContain("Unknown weekday");
+    expect(validateOpeningHours({ monday: { open: 22, close: 7 } })).toContain("monday");
+    expect(validateOpeningHours({ monday: { open: 7.5, close: 22 } })).toContain("whole hours");
+    expect(validateOpeningHours({ monday: { open: 7 } })).toContain("whole hours");
+  });
+});
+
+describe("getDayHours", () => {
+  it("falls back to the defaults for unset venues and days", () => {
+    expect(getDayHours(undefined, TUESDAY)).toEqual({ open: 7, close: 22 });
+    expect(getDayHours({ monday: { open: 9, close: 17 } }, TUESDAY)).toEqual({ open: 7, close: 22 });
+    expect(getDayHours({ tuesday: { open: 9, close: 17 } }, TUESDAY)).toEqual({ open: 9, close: 17 });
+    expect(getDayHours({ tuesday: null }, TUESDAY)).toBeNull();
+  });
+
+  it("ignores unreadable stored hours", () => {
+    expect(parseOpeningHours("{not json")).toBeUndefined();
+    expect(parseOpeningHours(JSON.stringify({ tuesday: { open: 9, close: 5 } }))).toBeUndefined();
+    expect(parseOpeningHours(JSON.stringify({ tuesday: null }))).toEqual({ tuesday: null });
+  });
+});
+
+describe("getRemainingHours", () => {
+  it("lists the hours that haven't started yet", () => {
+    // 19:30 BST
+    const now = new Date("2026-04-07T18:30:00Z");
+    expect(getRemainingHours(undefined, TUESDAY, now)).toEqual([20, 21]);
+    expect(getRemainingHours({ tuesday: { open: 9, close: 20 } }, TUESDAY, now)).toEqual([]);
+    expect(getRemainingHours(undefined, "2026-04-08", now)).toHaveLength(15);
+  });
+
+  it("has nothing left on closed days", () => {
+    expect(getRemainingHours({ tuesday: null }, TUESDAY, new Date("2026-04-06T12:00:00Z"))).toEqual([]);
+  });
+});
+
+describe("hasSlotStarted", () => {
+  it("compares the slot's start in the venue's timezone", () => {
+    // 11:00 BST
+    const now = new Date("2026-04-07T10:00:00Z");
+    expect(hasSlotStarted(TUESDAY, "9am", now)).toBe(true);
+    expect(hasSlotStarted(TUESDAY, "11am", now)).toBe(true);
+    expect(hasSlotStarted(TUESDAY, "12pm", now)).toBe(false);
+    // Only 6am in New York
+    expect(hasSlotStarted(TUESDAY, "9am", now, "America/New_York")).toBe(false);
+  });
+
+  it("keeps slots with unrecognised times", () => {
+    expect(hasSlotStarted(TUESDAY, "evening", new Date("2026-04-08T00:00:00Z"))).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+import { DEFAULT_TIMEZONE } from "./constants";
+import { WEEK_DAYS } from "./watch-rules";
+import { parseSlotHour } from "./utils/slot-time";
+import { getDayOfWeek, zonedTimeToInstant } from "./utils/venue-time";
+
+/**
+ * Venue opening hours
+ *
+ * Hours are whole venue-local hours per weekday: a day of { open: 7, close: 22 }
+ * has bookable slots starting 7am-9pm. A weekday set to null is closed all day,
+ * and weekdays left out (or a venue with no hours at all) use DEFAULT_DAY_HOURS.
+ * One-off closures live in the venue_closures table.
+ */
+
+export type WeekDay = (typeof WEEK_DAYS)[number];
+
+export interface DayHours {
+  open: number; // First slot's start hour, 0-23
+  close: number; // Hour play ends, 1-24
+}
+
+export type OpeningHours = Partial<Record<WeekDay, DayHours | null>>;
+
+export const DEFAULT_DAY_HOURS: DayHours = { open: 7, close: 22 };
+
+// Stored JSON -> opening hours; anything unreadable falls back to the defaults
+export function parseOpeningHours(json: string | null | undefined): OpeningHours | undefined {
+  if (!json) return undefined;
+  try {
+    const parsed = JSON.parse(json);
+    return validateOpeningHours(parsed) === null ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isWholeHour(value: unknown): value is number {
+  return Number.isInteger(value);
+}
+
+// Returns an error message, or null if the value is valid opening hours
+export function validateOpeningHours(value: unknown): string | null {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return "Opening hours must be an object keyed by weekday";
+  }
+
+  for (const [day, hours] of Object.entries(value)) {
+    if (!(WEEK_DAYS as readonly string[]).includes(day)) {
+      return `Unknown weekday in opening hours: ${day}`;
+    }
+    if (hours === null) continue;
+
+    const { open, close } = (hours ?? {}) as Partial<DayHours>;
+    if (!isWholeHour(open) || !isWholeHour(close) || open < 0 || close > 24 || open >= close) {
+      return `Opening hours for ${day} must be whole hours with 0 <= open < close <= 24`;
+    }
+  }
+
+  return null;
+}
+
+// A venue's hours on a date, or null if it's closed that weekday
+export function getDayHours(hours: OpeningHours | undefined, date: string): DayHours | null {
+  const day = WEEK_DAYS[(getDayOfWeek(date) + 6) % 7];
+  const dayHours = hours?.[day];
+  return dayHours === undefined ? DEFAULT_DAY_HOURS : dayHours;
+}
+
+// Whether a slot's start time has passed at the venue
+export function hasSlotStarted(date: string, time: string, now: Date, timeZone: string = DEFAULT_TIMEZONE): boolean {
+  const hour = parseSlotHour(time);
+  if (hour === null) return false;
+  return zonedTimeToInstant(date, hour, timeZone) <= now;
+}
+
+// Start hours on a date that can still be booked, i.e. within opening hours and not yet started
+export function getRemainingHours(
+  hours: OpeningHours | undefined,
+  date: string,
+  now: Date,
+  timeZone: string = DEFAULT_TIMEZONE
+): number[] {
+  const dayHours = getDayHours(hours, date);
+  if (!dayHours) return [];
+
+  const remaining: number[] = [];
+  for (let hour = dayHours.open; hour < dayHours.close; hour++) {
+    if (zonedTimeToInstant(date, hour, timeZone) > now) remaining.push(hour);
+  }
+  return remaining;
+}
@@ -1,12 +1,7 @@
+import { AsyncLocalStorage } from "async_hooks";
 import { HttpsProxyAgent } from "https-proxy-agent";
 import got from "got";
 
-export function formatBytes(bytes: number): string {
-  if (bytes < 1024) return `${bytes} B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
-}
-
 class ProxyManager {
   private host: string | null = null;
   private port: string | null = null;
@@ -141,6 +136,21 @@ class ProxyManager {
 
 export const proxyManager = new ProxyManager();
 
+// Requests made within one scrape attempt. Scrapes run concurrently, so the
+// proxyManager totals can't be split per attempt; proxyFetch adds to the
+// metrics of whichever withRequestMetrics call it runs under.
+export interface RequestMetrics {
+  requests: number;
+  bytes: number;
+  httpStatus: number | null; // Status of the latest response
+}
+
+const requestMetricsStorage = new AsyncLocalStorage<RequestMetrics>();
+
+export function withRequestMetrics<T>(metrics: RequestMetrics, fn: () => Promise<T>): Promise<T> {
+  return requestMetricsStorage.run(metrics, fn);
+}
+
 /**
  * Proxy-aware fetch using got
  */
@@ -174,6 +184,12 @@ export async function proxyFetch(
 
   // Track bytes for bandwidth monitoring
   proxyManager.trackBytes(response.body.length);
+  const metrics = requestMetricsStorage.getStore();
+  if (metrics) {
+    metrics.requests++;
+    metrics.bytes += response.body.length;
+    metrics.httpStatus = response.statusCode;
+  }
 
   return {
     ok: response.statusCode >= 200 && response.statusCode < 300,
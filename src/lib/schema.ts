@@ -1,5 +1,6 @@
-import { sqliteTable, text, integer, primaryKey, index, unique } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real, primaryKey, index, unique } from "drizzle-orm/sqlite-core";
 import { sql } from "drizzle-orm";
+import type { DeliveryMode, ScrapeTrigger, VenueType } from "./constants";
 
 // ============================================
 // App-specific tables
@@ -14,14 +15,46 @@ export const users = sqliteTable("users", {
   isAllowed: integer("is_allowed").default(0), // Allowlist: 1 = can log in
   isAdmin: integer("is_admin").default(0), // Admin: 1 = can access admin dashboard
   createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  // Notification delivery preferences (hours are Europe/London)
+  deliveryMode: text("delivery_mode").$type<DeliveryMode>().notNull().default("instant"), // 'instant', 'digest', 'daily'
+  digestIntervalMinutes: integer("digest_interval_minutes").default(60),
+  dailySummaryHour: integer("daily_summary_hour").default(8),
+  quietHoursStart: integer("quiet_hours_start"), // null = no quiet hours
+  quietHoursEnd: integer("quiet_hours_end"), // Exclusive, may wrap past midnight (e.g. 22 -> 7)
+  lastDigestSentAt: text("last_digest_sent_at"),
+  lastDailySummaryDate: text("last_daily_summary_date"),
 });
 
 export const venues = sqliteTable("venues", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   slug: text("slug").notNull().unique(),
   name: text("name").notNull(),
+  type: text("type").$type<VenueType>().notNull().default("courtside"), // Booking platform, selects the scraper adapter
+  clubsparkId: text("clubspark_id"), // ClubSpark venue ID (ClubSpark only)
+  clubsparkHost: text("clubspark_host"), // ClubSpark host, e.g. clubspark.lta.org.uk (ClubSpark only)
+  address: text("address"),
+  timezone: text("timezone").notNull().default("Europe/London"), // IANA timezone
+  openingHours: text("opening_hours"), // JSON: { monday: { open: 7, close: 22 } | null, ... }, null = default hours
+  enabled: integer("enabled").default(1), // 0 = hidden from dashboard and not scraped
 });
 
+// Dates a venue is shut (holidays, resurfacing...) - not scraped
+export const venueClosures = sqliteTable(
+  "venue_closures",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    venueId: integer("venue_id")
+      .references(() => venues.id, { onDelete: "cascade" })
+      .notNull(),
+    date: text("date").notNull(), // YYYY-MM-DD
+    reason: text("reason"),
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    uniqueVenueDate: unique().on(table.venueId, table.date),
+  })
+);
+
 export const slots = sqliteTable(
   "slots",
   {
@@ -32,9 +65,10 @@ export const slots = sqliteTable(
     date: text("date").notNull(),
     time: text("time").notNull(),
     court: text("court").notNull(),
-    status: text("status").notNull(), // 'available', 'booked', 'closed', 'coaching'
+    status: text("status").notNull(), // 'available', 'booked', 'closed', 'coaching', 'unknown'
     price: text("price"),
     updatedAt: text("updated_at").default(sql`CURRENT_TIMESTAMP`),
+    staleSince: text("stale_since"), // Set when the slot vanished from a successful scrape (status 'unknown')
   },
   (table) => ({
     // Composite unique constraint to prevent duplicate slot entries
@@ -44,6 +78,28 @@ export const slots = sqliteTable(
   })
 );
 
+// Append-only history of slot status transitions (slots only holds the latest status)
+export const slotEvents = sqliteTable(
+  "slot_events",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    venueId: integer("venue_id")
+      .references(() => venues.id, { onDelete: "cascade" })
+      .notNull(),
+    date: text("date").notNull(),
+    time: text("time").notNull(),
+    court: text("court").notNull(),
+    oldStatus: text("old_status"), // null = first time the slot was seen
+    newStatus: text("new_status").notNull(),
+    price: text("price"),
+    observedAt: text("observed_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    // Index for history lookups by venue and date
+    venueDateIdx: index("idx_slot_events_venue_date").on(table.venueId, table.date, table.observedAt),
+  })
+);
+
 export const watches = sqliteTable(
   "watches",
   {
@@ -57,6 +113,15 @@ export const watches = sqliteTable(
     weekdayTimes: text("weekday_times"), // DEPRECATED: use dayTimes
     weekendTimes: text("weekend_times"), // DEPRECATED: use dayTimes
     active: integer("active").default(1),
+    notifyNewDates: integer("notify_new_dates").default(0), // Also alert on slots already open when a date is first released
+    minConsecutiveHours: integer("min_consecutive_hours").default(1), // Only alert if this many back-to-back hours are free on one court
+    excludedCourts: text("excluded_courts"), // JSON array of court names to ignore, e.g. ["Court 4"]
+    maxPrice: real("max_price"), // Pounds; slots with a higher listed price are ignored
+    specificDates: text("specific_dates"), // JSON array of YYYY-MM-DD; null = any date
+    startDate: text("start_date"), // YYYY-MM-DD, inclusive
+    endDate: text("end_date"), // YYYY-MM-DD, inclusive; the watch expires after it
+    expiredAt: text("expired_at"), // Set when the watch was auto-deactivated after its dates passed
+    mutedOn: text("muted_on"), // YYYY-MM-DD; the watch sends no alerts for the rest of that day
   },
   (table) => ({
     // Index for active watch lookups during notifications
@@ -71,9 +136,12 @@ export const notificationChannels = sqliteTable(
     userId: integer("user_id")
       .references(() => users.id, { onDelete: "cascade" })
       .notNull(),
-    type: text("type").notNull(), // 'telegram', 'whatsapp', 'email'
-    destination: text("destination").notNull(), // chat_id, phone, or email
+    type: text("type").notNull(), // 'telegram', 'whatsapp', 'email', 'webhook', 'discord', 'slack', 'push'
+    destination: text("destination").notNull(), // chat_id, phone, email, webhook URL or push endpoint
     active: integer("active").default(1),
+    mutedUntil: text("muted_until"), // ISO timestamp; alerts are dropped until then (Telegram /mute)
+    secret: text("secret"), // HMAC signing key (webhook channels only)
+    pushKeys: text("push_keys"), // JSON {p256dh, auth} from the browser subscription (push channels only)
   },
   (table) => ({
     // Prevent duplicate channels
@@ -94,11 +162,17 @@ export const notificationLog = sqliteTable(
       .references(() => notificationChannels.id, { onDelete: "cascade" })
       .notNull(),
     slotKey: text("slot_key").notNull(), // "venue:date:time:court"
+    // slot_events row that made the slot available (null for older rows). Not a
+    // foreign key: slot history is pruned on its own schedule.
+    eventId: integer("event_id"),
+    messageId: integer("message_id"), // Telegram message_id, for editing once the slot is rebooked
+    goneNotifiedAt: text("gone_notified_at"), // When the user was told the slot was taken again
     sentAt: text("sent_at").default(sql`CURRENT_TIMESTAMP`),
   },
   (table) => ({
-    // Prevent duplicate notifications
-    uniqueNotification: unique().on(table.channelId, table.slotKey),
+    // One notification per availability episode: a slot freed again after being
+    // rebooked has a new event and is notified again
+    uniqueNotification: unique().on(table.channelId, table.slotKey, table.eventId),
     // Index for deduplication checks
     channelSlotIdx: index("idx_log_channel_slot").on(table.channelId, table.slotKey),
     // Index for cleanup by date
@@ -106,6 +180,53 @@ export const notificationLog = sqliteTable(
   })
 );
 
+// Matched slot changes waiting to be delivered (digests, daily summaries, quiet hours)
+export const pendingNotifications = sqliteTable(
+  "pending_notifications",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    userId: integer("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    channelId: integer("channel_id")
+      .references(() => notificationChannels.id, { onDelete: "cascade" })
+      .notNull(),
+    slotKey: text("slot_key").notNull(), // "venue:date:time:court"
+    payload: text("payload").notNull(), // JSON SlotChange
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    // A slot is queued at most once per channel, however many watches match it
+    uniquePending: unique().on(table.channelId, table.slotKey),
+    userIdx: index("idx_pending_user").on(table.userId),
+  })
+);
+
+// Delivery state of one consolidated alert to one channel. Failed sends are retried
+// with backoff on later flushes while the slots stay queued in pending_notifications.
+export const notificationDeliveries = sqliteTable(
+  "notification_deliveries",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    userId: integer("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    channelId: integer("channel_id")
+      .references(() => notificationChannels.id, { onDelete: "cascade" })
+      .notNull(),
+    status: text("status").notNull(), // 'retrying', 'sent' or 'failed'
+    slotCount: integer("slot_count").notNull(),
+    attempts: integer("attempts").notNull().default(0),
+    lastError: text("last_error"),
+    nextAttemptAt: text("next_attempt_at"), // ISO timestamp; set while retrying
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: text("updated_at"), // ISO timestamp of the last attempt
+  },
+  (table) => ({
+    channelStatusIdx: index("idx_deliveries_channel_status").on(table.channelId, table.status),
+  })
+);
+
 export const registrationRequests = sqliteTable(
   "registration_requests",
   {
@@ -134,6 +255,93 @@ export const scrapeTargets = sqliteTable("scrape_targets", {
   createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
 });
 
+// One row per scrape job (scheduled cron run, forced run or admin full scrape)
+export const scrapeRuns = sqliteTable(
+  "scrape_runs",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    trigger: text("trigger").$type<ScrapeTrigger>().notNull(), // 'cron', 'forced', 'admin'
+    status: text("status").notNull().default("running"), // 'running', 'completed', 'failed'
+    startedAt: text("started_at").notNull(), // ISO timestamp
+    finishedAt: text("finished_at"), // ISO timestamp
+    targetsScraped: integer("targets_scraped").notNull().default(0),
+    targetsFailed: integer("targets_failed").notNull().default(0),
+    slotCount: integer("slot_count").notNull().default(0),
+    requests: integer("requests").notNull().default(0),
+    bytes: integer("bytes").notNull().default(0),
+    error: text("error"), // Set when the run itself crashed
+  },
+  (table) => ({
+    startedAtIdx: index("idx_scrape_runs_started_at").on(table.startedAt),
+  })
+);
+
+// One row per scrape request in a run: a (venue, date), or a venue's date window for date-range platforms
+export const scrapeAttempts = sqliteTable(
+  "scrape_attempts",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    runId: integer("run_id")
+      .references(() => scrapeRuns.id, { onDelete: "cascade" })
+      .notNull(),
+    venueSlug: text("venue_slug").notNull(),
+    date: text("date").notNull(), // YYYY-MM-DD, first date of the window
+    endDate: text("end_date"), // Last date of a date-range request
+    startedAt: text("started_at").notNull(), // ISO timestamp
+    durationMs: integer("duration_ms").notNull(),
+    bytes: integer("bytes").notNull().default(0),
+    httpStatus: integer("http_status"), // Last HTTP status seen, null if no response
+    slotCount: integer("slot_count").notNull().default(0),
+    error: text("error"),
+  },
+  (table) => ({
+    runIdx: index("idx_scrape_attempts_run").on(table.runId),
+  })
+);
+
+// Per-venue scrape health for the circuit breaker (one row per venue, created on its first scrape)
+export const venueHealth = sqliteTable("venue_health", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  venueId: integer("venue_id")
+    .references(() => venues.id, { onDelete: "cascade" })
+    .notNull()
+    .unique(),
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0), // Runs in a row with no successful request
+  failingSince: text("failing_since"), // ISO timestamp of the first failure in the current streak
+  lastSuccessAt: text("last_success_at"), // ISO timestamp
+  lastFailureAt: text("last_failure_at"), // ISO timestamp
+  lastError: text("last_error"),
+  blockedUntil: text("blocked_until"), // ISO timestamp - circuit open, not scraped until then
+  alertedAt: text("alerted_at"), // When the admin was told the venue is down; cleared on success
+});
+
+// Slots a user said they're not interested in (Telegram "Not interested" button)
+export const dismissedSlots = sqliteTable(
+  "dismissed_slots",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    userId: integer("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    slotKey: text("slot_key").notNull(), // "venue:date:time:court"
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    uniqueDismissal: unique().on(table.userId, table.slotKey),
+  })
+);
+
+// Short-lived codes that attach a Telegram chat to an account (/link <code>)
+export const telegramLinkCodes = sqliteTable("telegram_link_codes", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  code: text("code").notNull().unique(),
+  userId: integer("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  expiresAt: text("expires_at").notNull(), // ISO timestamp
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
 // ============================================
 // NextAuth tables (JWT sessions - no sessions table needed)
 // ============================================
@@ -156,10 +364,19 @@ export const verificationTokens = sqliteTable(
 
 export type User = typeof users.$inferSelect;
 export type Venue = typeof venues.$inferSelect;
+export type VenueClosure = typeof venueClosures.$inferSelect;
 export type Slot = typeof slots.$inferSelect;
+export type SlotEvent = typeof slotEvents.$inferSelect;
 export type Watch = typeof watches.$inferSelect;
 export type NotificationChannel = typeof notificationChannels.$inferSelect;
 export type NotificationLogEntry = typeof notificationLog.$inferSelect;
+export type PendingNotification = typeof pendingNotifications.$inferSelect;
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
 export type VerificationToken = typeof verificationTokens.$inferSelect;
 export type RegistrationRequest = typeof registrationRequests.$inferSelect;
 export type ScrapeTarget = typeof scrapeTargets.$inferSelect;
+export type ScrapeRun = typeof scrapeRuns.$inferSelect;
+export type ScrapeAttempt = typeof scrapeAttempts.$inferSelect;
+export type VenueHealth = typeof venueHealth.$inferSelect;
+export type TelegramLinkCode = typeof telegramLinkCodes.$inferSelect;
+export type DismissedSlot = typeof dismissedSlots.$inferSelect;
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./db", async () => (await import("./test-db")).createTestDb());
+vi.mock("got", () => ({ default: vi.fn() }));
+
+import got from "got";
+import { db } from "./db";
+import { scrapeAttempts, scrapeRuns } from "./schema";
+import { proxyFetch } from "./proxy-manager";
+import {
+  deleteOldScrapeRuns,
+  finishScrapeRun,
+  getRecentScrapeRuns,
+  getScrapeAttempts,
+  recordScrapeAttempt,
+  startScrapeRun,
+} from "./scrape-log";
+
+const mockGot = vi.mocked(got) as unknown as ReturnType<typeof vi.fn>;
+
+const slot = {
+  venue: "victoria-park",
+  date: "2026-04-07",
+  time: "7pm",
+  court: "Court 1",
+  status: "available" as const,
+};
+
+function respond(statusCode: number, body: string) {
+  mockGot.mockResolvedValueOnce({ statusCode, statusMessage: "", headers: {}, body });
+}
+
+beforeEach(async () => {
+  mockGot.mockReset();
+  await db.delete(scrapeAttempts);
+  await db.delete(scrapeRuns);
+});
+
+describe("recordScrapeAttempt", () => {
+  it("records the requests made by the scrape", async () => {
+    const runId = await startScrapeRun("cron", new Date("2026-04-07T09:00:00Z"));
+    respond(200, "a".repeat(300));
+    respond(200, "b".repeat(200));
+
+    const slots = await recordScrapeAttempt(runId, { venueSlug: "victoria-park", date: "2026-04-07" }, async () => {
+      await proxyFetch("https://book.example/one");
+      await proxyFetch("https://book.example/two");
+      return [slot];
+    });
+
+    expect(slots).toEqual([slot]);
+    const attempts = await getScrapeAttempts(runId!);
+    expect(attempts).toMatchObject([
+      { runId, venueSlug: "victoria-park", date: "2026-04-07", bytes: 500, httpStatus: 200, slotCount: 1, error: null },
+    ]);
+  });
+
+  it("records the error and rethrows it", async () => {
+    const runId = await startScrapeRun("admin");
+    respond(503, "busy");
+
+    await expect(
+      recordScrapeAttempt(runId, { venueSlug: "ropemakers", date: "2026-04-07", endDate: "2026-04-14" }, async () => {
+        const response = await proxyFetch("https://book.example/range");
+        throw new Error(`HTTP ${response.status}`);
+      })
+    ).rejects.toThrow("HTTP 503");
+
+    const attempts = await getScrapeAttempts(runId!);
+    expect(attempts).toMatchObject([
+      { endDate: "2026-04-14", bytes: 4, httpStatus: 503, slotCount: 0, error: "HTTP 503" },
+    ]);
+  });
+
+  it("adds each attempt's requests to the run totals", async () => {
+    const runId = await startScrapeRun("cron");
+    const totals = { requests: 0, bytes: 0 };
+    respond(200, "a".repeat(300));
+    respond(503, "busy");
+
+    await recordScrapeAttempt(runId, { venueSlug: "victoria-park", date: "2026-04-07" }, async () => {
+      await proxyFetch("https://book.example/one");
+      return [slot];
+    }, totals);
+    await expect(
+      recordScrapeAttempt(runId, { venueSlug: "ropemakers", date: "2026-04-07" }, async () => {
+        const response = await proxyFetch("https://book.example/two");
+        throw new Error(`HTTP ${response.status}`);
+      }, totals)
+    ).rejects.toThrow("HTTP 503");
+
+    expect(totals).toEqual({ requests: 2, bytes: 304 });
+  });
+
+  it("still scrapes when there is no run to record against", async () => {
+    const slots = await recordScrapeAttempt(null, { venueSlug: "victoria-park", date: "2026-04-07" }, async () => [slot]);
+
+    expect(slots).toEqual([slot]);
+    expect(await db.select().from(scrapeAttempts)).toHaveLength(0);
+  });
+});
+
+describe("finishScrapeRun", () => {
+  const summary = { targetsScraped: 3, targetsFailed: 1, slotCount: 40, requests: 3, bytes: 9000 };
+
+  it("completes a run with its totals", async () => {
+    const runId = await startScrapeRun("forced", new Date("2026-04-07T09:00:00Z"));
+    await finishScrapeRun(runId, summary, undefined, new Date("2026-04-07T09:00:12Z"));
+
+    expect(await getRecentScrapeRuns()).toMatchObject([
+      { trigger: "forced", status: "completed", finishedAt: "2026-04-07T09:00:12.000Z", ...summary, error: null },
+    ]);
+  });
+
+  it("marks a run that threw as failed", async () => {
+    const runId = await startScrapeRun("cron");
+    await finishScrapeRun(runId, summary, new Error("database is locked"));
+
+    const [run] = await getRecentScrapeRuns();
+    expect(run).toMatchObject({ status: "failed", error: "database is locked" });
+  });
+});
+
+describe("deleteOldScrapeRuns", () => {
+  it("deletes old runs along with their attempts", async () => {
+    const oldRunId = await startScrapeRun("cron", new Date("2026-03-01T09:00:00Z"));
+    await recordScrapeAttempt(oldRunId, { venueSlug: "victoria-park", date: "2026-03-01" }, async () => []);
+    await startScrapeRun("cron", new Date("2026-04-07T09:00:00Z"));
+
+    expect(await deleteOldScrapeRuns("2026-04-01")).toBe(1);
+    expect(await getRecentScrapeRuns()).toMatchObject([{ startedAt: "2026-04-07T09:00:00.000Z" }]);
+    expect(await db.select().from(scrapeAttempts)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,136 @@
+import { db } from "./db";
+import { scrapeAttempts, scrapeRuns } from "./schema";
+import type { ScrapeAttempt, ScrapeRun } from "./schema";
+import type { ScrapeTrigger } from "./constants";
+import type { ScrapedSlot } from "./scrapers";
+import { RequestMetrics, withRequestMetrics } from "./proxy-manager";
+import { asc, desc, eq, lt } from "drizzle-orm";
+
+/**
+ * Scrape run log
+ *
+ * Every scrape job writes a scrape_runs row, and every request it makes to a
+ * booking platform a scrape_attempts row with its duration, bytes, last HTTP
+ * status, slot count and error. Logging never fails a scrape: write errors
+ * are only printed.
+ */
+
+export interface ScrapeRunSummary {
+  targetsScraped: number;
+  targetsFailed: number;
+  slotCount: number;
+  requests: number;
+  bytes: number;
+}
+
+// A run's request totals, summed from its attempts' own metrics
+export type RequestTotals = Pick<ScrapeRunSummary, "requests" | "bytes">;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Open a run; returns its id, or null if it couldn't be recorded
+export async function startScrapeRun(trigger: ScrapeTrigger, now: Date = new Date()): Promise<number | null> {
+  try {
+    const [run] = await db
+      .insert(scrapeRuns)
+      .values({ trigger, startedAt: now.toISOString() })
+      .returning({ id: scrapeRuns.id });
+    return run.id;
+  } catch (error) {
+    console.error("Failed to record scrape run:", error);
+    return null;
+  }
+}
+
+// Close a run with its totals; an error marks the run itself as failed
+export async function finishScrapeRun(
+  runId: number | null,
+  summary: ScrapeRunSummary,
+  error?: unknown,
+  now: Date = new Date()
+): Promise<void> {
+  if (runId === null) return;
+
+  try {
+    await db
+      .update(scrapeRuns)
+      .set({
+        ...summary,
+        status: error === undefined ? "completed" : "failed",
+        finishedAt: now.toISOString(),
+        error: error === undefined ? null : errorMessage(error),
+      })
+      .where(eq(scrapeRuns.id, runId));
+  } catch (writeError) {
+    console.error(`Failed to finish scrape run ${runId}:`, writeError);
+  }
+}
+
+// Run one scrape request and record its outcome, adding its requests to totals if
+// given. Returns the slots or rethrows the scrape's error.
+export async function recordScrapeAttempt(
+  runId: number | null,
+  target: { venueSlug: string; date: string; endDate?: string },
+  scrape: () => Promise<ScrapedSlot[]>,
+  totals?: RequestTotals
+): Promise<ScrapedSlot[]> {
+  const startedAt = new Date();
+  const metrics: RequestMetrics = { requests: 0, bytes: 0, httpStatus: null };
+  let slots: ScrapedSlot[] = [];
+  let failure: unknown;
+
+  try {
+    slots = await withRequestMetrics(metrics, scrape);
+  } catch (error) {
+    failure = error;
+  }
+
+  if (totals) {
+    totals.requests += metrics.requests;
+    totals.bytes += metrics.bytes;
+  }
+
+  if (runId !== null) {
+    try {
+      await db.insert(scrapeAttempts).values({
+        runId,
+        venueSlug: target.venueSlug,
+        date: target.date,
+        endDate: target.endDate ?? null,
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        bytes: metrics.bytes,
+        httpStatus: metrics.httpStatus,
+        slotCount: slots.length,
+        error: failure === undefined ? null : errorMessage(failure),
+      });
+    } catch (writeError) {
+      console.error(`Failed to record scrape attempt for ${target.venueSlug} ${target.date}:`, writeError);
+    }
+  }
+
+  if (failure !== undefined) throw failure;
+  return slots;
+}
+
+// Most recent runs first
+export async function getRecentScrapeRuns(limit: number = 50): Promise<ScrapeRun[]> {
+  return db.select().from(scrapeRuns).orderBy(desc(scrapeRuns.startedAt), desc(scrapeRuns.id)).limit(limit);
+}
+
+// A run's attempts in the order they started
+export async function getScrapeAttempts(runId: number): Promise<ScrapeAttempt[]> {
+  return db
+    .select()
+    .from(scrapeAttempts)
+    .where(eq(scrapeAttempts.runId, runId))
+    .orderBy(asc(scrapeAttempts.startedAt), asc(scrapeAttempts.id));
+}
+
+// Drop runs (and their attempts) started before a cutoff; returns the number of runs deleted
+export async function deleteOldScrapeRuns(cutoff: string): Promise<number> {
+  const deleted = await db.delete(scrapeRuns).where(lt(scrapeRuns.startedAt, cutoff)).returning({ id: scrapeRuns.id });
+  return deleted.length;
+}
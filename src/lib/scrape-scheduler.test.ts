@@ -0,0 +1,253 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("./db", async () => (await import("./test-db")).createTestDb());
+
+import { db } from "./db";
+import {
+  scrapeAttempts,
+  scrapeRuns,
+  scrapeTargets,
+  slotEvents,
+  users,
+  venueClosures,
+  venueHealth,
+  venues,
+  watches,
+} from "./schema";
+import {
+  applyRequestBudget,
+  getAdaptiveInterval,
+  getDueScrapeTargets,
+  getScrapeInterval,
+  loadTargetDemand,
+  runScheduledScrape,
+} from "./scrape-scheduler";
+import { clubsparkAdapter } from "./scrapers/clubspark";
+import { STALE_STATUS } from "./differ";
+
+const NOW = new Date("2026-04-06T12:00:00Z");
+
+describe("getScrapeInterval", () => {
+  it("slows today down in the hours before closing", () => {
+    expect(getScrapeInterval(0, 17)).toBe(10);
+    expect(getScrapeInterval(0, 18)).toBe(240);
+    // An 8pm close moves the cutoff to 4pm
+    expect(getScrapeInterval(0, 16, 20)).toBe(240);
+    expect(getScrapeInterval(1, 20, 20)).toBe(10);
+  });
+});
+
+describe("getAdaptiveInterval", () => {
+  it("keeps the tier for a single watch without churn", () => {
+    expect(getAdaptiveInterval(20, { watchCount: 1, recentChanges: 0 })).toBe(20);
+  });
+
+  it("scrapes watched, busy targets more often", () => {
+    expect(getAdaptiveInterval(60, { watchCount: 4, recentChanges: 0 })).toBe(30);
+    expect(getAdaptiveInterval(60, { watchCount: 4, recentChanges: 10 })).toBe(20);
+    // Never below the floor
+    expect(getAdaptiveInterval(10, { watchCount: 16, recentChanges: 50 })).toBe(5);
+  });
+
+  it("backs off idle targets up to the ceiling", () => {
+    expect(getAdaptiveInterval(20, { watchCount: 0, recentChanges: 30 })).toBe(60);
+    expect(getAdaptiveInterval(120, { watchCount: 0, recentChanges: 0 })).toBe(240);
+    expect(getAdaptiveInterval(240, { watchCount: 0, recentChanges: 0 })).toBe(240);
+  });
+});
+
+describe("applyRequestBudget", () => {
+  const plan = [
+    { requestKey: "a|2026-04-07", intervalMinutes: 10 },
+    { requestKey: "a|2026-04-08", intervalMinutes: 20 },
+    // A date-range venue: one request covers both dates
+    { requestKey: "b", intervalMinutes: 10 },
+    { requestKey: "b", intervalMinutes: 60 },
+  ];
+
+  it("leaves plans within budget alone", () => {
+    // 6 + 3 + 6 requests per hour
+    expect(applyRequestBudget(plan, 15)).toBe(plan);
+  });
+
+  it("stretches every interval to fit the budget", () => {
+    expect(applyRequestBudget(plan, 5).map((t) => t.intervalMinutes)).toEqual([30, 60, 30, 180]);
+  });
+});
+
+describe("loadTargetDemand", () => {
+  beforeEach(async () => {
+    await db.delete(slotEvents);
+    await db.delete(watches);
+    await db.delete(users);
+    await db.delete(venues);
+  });
+
+  it("counts covering watches and recent changes per target", async () => {
+    const [vp] = await db.insert(venues).values({ slug: "victoria-park", name: "Victoria Park" }).returning();
+    const [rf] = await db.insert(venues).values({ slug: "ropemakers-field", name: "Ropemakers Field" }).returning();
+    const [user] = await db.insert(users).values({ email: "player@example.com" }).returning();
+
+    await db.insert(watches).values([
+      // Covers Victoria Park on Tuesdays
+      { venueId: vp.id, dayTimes: JSON.stringify({ tuesday: ["6pm-9pm"] }) },
+      // All venues, Saturdays only
+      { venueId: null, dayTimes: JSON.stringify({ saturday: ["9am"] }) },
+      // All venues, but its dates are over
+      { venueId: null, dayTimes: JSON.stringify({ tuesday: ["7pm"] }), endDate: "2026-04-01" },
+      { venueId: vp.id, dayTimes: JSON.stringify({ tuesday: ["7pm"] }), active: 0 },
+    ].map((watch) => ({ userId: user.id, ...watch })));
+
+    const event = {
+      venueId: vp.id,
+      date: "2026-04-07",
+      time: "7pm",
+      court: "Court 1",
+      oldStatus: "booked",
+      newStatus: "available",
+    };
+    await db.insert(slotEvents).values([
+      { ...event, observedAt: "2026-04-06T10:00:00.000Z" },
+      { ...event, observedAt: "2026-04-06T11:00:00.000Z" },
+      // Outside the churn window
+      { ...event, observedAt: "2026-04-04T11:00:00.000Z" },
+      { ...event, venueId: rf.id, date: "2026-04-11", observedAt: "2026-04-06T11:00:00.000Z" },
+    ]);
+
+    const demand = await loadTargetDemand(
+      [
+        { venueSlug: "victoria-park", date: "2026-04-07" },
+        { venueSlug: "ropemakers-field", date: "2026-04-07" },
+        { venueSlug: "ropemakers-field", date: "2026-04-11" },
+      ],
+      NOW
+    );
+
+    expect(demand.get("victoria-park|2026-04-07")).toEqual({ watchCount: 1, recentChanges: 2 });
+    expect(demand.get("ropemakers-field|2026-04-07")).toEqual({ watchCount: 0, recentChanges: 0 });
+    expect(demand.get("ropemakers-field|2026-04-11")).toEqual({ watchCount: 1, recentChanges: 1 });
+  });
+
+  it("gives a newly released date no churn boost", async () => {
+    const [vp] = await db.insert(venues).values({ slug: "victoria-park", name: "Victoria Park" }).returning();
+    const observedAt = "2026-04-06T11:00:00.000Z";
+
+    // First sightings of a whole new date, plus slots going stale and reappearing
+    await db.insert(slotEvents).values([
+      ...Array.from({ length: 100 }, (_, i) => ({
+        venueId: vp.id,
+        date: "2026-04-13",
+        time: "7pm",
+        court: `Court ${i + 1}`,
+        oldStatus: null,
+        newStatus: "booked",
+        observedAt,
+      })),
+      { venueId: vp.id, date: "2026-04-13", time: "8pm", court: "Court 1", oldStatus: "booked", newStatus: STALE_STATUS, observedAt },
+      { venueId: vp.id, date: "2026-04-13", time: "8pm", court: "Court 1", oldStatus: STALE_STATUS, newStatus: "available", observedAt },
+    ]);
+
+    const demand = await loadTargetDemand([{ venueSlug: "victoria-park", date: "2026-04-13" }], NOW);
+
+    expect(demand.get("victoria-park|2026-04-13")!.recentChanges).toBe(0);
+  });
+});
+
+describe("getDueScrapeTargets", () => {
+  beforeEach(async () => {
+    await db.delete(scrapeTargets);
+    await db.delete(venueClosures);
+    await db.delete(venues);
+  });
+
+  it("skips closures, closed weekdays and days that are over", async () => {
+    const [vp] = await db.insert(venues).values({ slug: "victoria-park", name: "Victoria Park" }).returning();
+    // Shut on Wednesdays
+    await db.insert(venues).values({
+      slug: "ropemakers-field",
+      name: "Ropemakers Field",
+      openingHours: JSON.stringify({ wednesday: null }),
+    });
+    await db.insert(venueClosures).values({ venueId: vp.id, date: "2026-04-09", reason: "Resurfacing" });
+    await db.insert(scrapeTargets).values(
+      ["victoria-park", "ropemakers-field"].flatMap((venueSlug) =>
+        ["2026-04-07", "2026-04-08", "2026-04-09"].map((date) => ({ venueSlug, date }))
+      )
+    );
+
+    // 21:30 BST on Tuesday: the 9pm slots have started
+    const due = await getDueScrapeTargets(new Date("2026-04-07T20:30:00Z"));
+
+    expect(due.map((t) => `${t.venue.slug}|${t.date}`).sort()).toEqual([
+      "ropemakers-field|2026-04-09",
+      "victoria-park|2026-04-08",
+    ]);
+  });
+
+  it("skips venues whose circuit breaker is open", async () => {
+    const [vp] = await db.insert(venues).values({ slug: "victoria-park", name: "Victoria Park" }).returning();
+    const [rf] = await db.insert(venues).values({ slug: "ropemakers-field", name: "Ropemakers Field" }).returning();
+    await db.insert(venueHealth).values([
+      { venueId: vp.id, consecutiveFailures: 3, blockedUntil: "2026-04-06T12:15:00.000Z" },
+      // Backoff over: probed again
+      { venueId: rf.id, consecutiveFailures: 4, blockedUntil: "2026-04-06T11:45:00.000Z" },
+    ]);
+    await db.insert(scrapeTargets).values([
+      { venueSlug: "victoria-park", date: "2026-04-07" },
+      { venueSlug: "ropemakers-field", date: "2026-04-07" },
+      { venueSlug: "ropemakers-field", date: "2026-04-08" },
+    ]);
+
+    const due = await getDueScrapeTargets(NOW);
+
+    // Probed with a single target rather than everything that's due
+    expect(due.map((t) => `${t.venue.slug}|${t.date}`)).toEqual(["ropemakers-field|2026-04-07"]);
+  });
+});
+
+describe("runScheduledScrape", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(NOW);
+    await db.delete(scrapeAttempts);
+    await db.delete(scrapeRuns);
+    await db.delete(scrapeTargets);
+    await db.delete(venueClosures);
+    await db.delete(venueHealth);
+    await db.delete(venues);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("drops slots on closure dates inside a date-range window", async () => {
+    const [venue] = await db
+      .insert(venues)
+      .values({
+        slug: "st-johns-park",
+        name: "St Johns Park",
+        type: "clubspark",
+        clubsparkHost: "clubspark.lta.org.uk",
+        clubsparkId: "abc",
+      })
+      .returning();
+    await db.insert(venueClosures).values({ venueId: venue.id, date: "2026-04-07", reason: "Tournament" });
+    vi.spyOn(clubsparkAdapter, "scrapeDateRange").mockResolvedValue(
+      ["2026-04-06", "2026-04-07", "2026-04-08"].map((date) => ({
+        venue: "st-johns-park",
+        date,
+        time: "7pm",
+        court: "Court 1",
+        status: "available" as const,
+      }))
+    );
+
+    const result = await runScheduledScrape(3);
+
+    expect(clubsparkAdapter.scrapeDateRange).toHaveBeenCalledTimes(1);
+    expect(result.slots.map((slot) => slot.date)).toEqual(["2026-04-06", "2026-04-08"]);
+    expect(result.scrapedTargets.map((target) => target.date)).toEqual(["2026-04-06", "2026-04-08"]);
+  });
+});
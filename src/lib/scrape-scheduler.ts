@@ -1,22 +1,46 @@
 import { db } from "./db";
-import { scrapeTargets } from "./schema";
-import { VENUES, Venue } from "./constants";
-import { scrapeVenue, scrapeClubSpark, ScrapedSlot } from "./scrapers";
-import { eq, and, lt, lte, isNull, or } from "drizzle-orm";
+import { scrapeTargets, slotEvents, venues, watches } from "./schema";
+import { DEFAULT_TIMEZONE, ScrapeTrigger, Venue } from "./constants";
+import { getClosedDates, getEnabledVenues } from "./venues";
+import { scrapeVenue, getScraperAdapter, dropStartedSlots, ScrapedSlot, ScrapedTarget } from "./scrapers";
+import { watchCoversDate } from "./watch-rules";
+import { DEFAULT_DAY_HOURS, getDayHours, getRemainingHours } from "./opening-hours";
+import { RequestTotals, finishScrapeRun, recordScrapeAttempt, startScrapeRun } from "./scrape-log";
+import {
+  VenueOutcomes,
+  getBlockedVenues,
+  getProbingVenues,
+  noteVenueOutcome,
+  recordVenueOutcomes,
+} from "./venue-health";
+import { daysBetween, getUpcomingDates, getVenueToday, getZonedTime } from "./utils/venue-time";
+import { STALE_STATUS } from "./differ";
+import { eq, and, gte, inArray, isNotNull, lt, ne, sql } from "drizzle-orm";
 
 /**
  * Scrape Scheduler - Tiered frequency based on day offset
  *
- * Day 0 (today):    10 min until 6pm, then 4 hours (stop after 6pm)
+ * Day 0 (today):    10 min until 4 hours before closing, then 4 hours
  * Day 1 (tomorrow): 10 min (highest frequency)
  * Day 2:            20 min (half of day 1)
  * Day 3:            40 min (half of day 2)
  * Days 4-7:         60 min (once an hour)
+ *
+ * The tier is then adapted per (venue, date) target: targets no active watch
+ * covers are scraped IDLE_FACTOR times less often, while each extra covering
+ * watch and recent slot churn (slot_events written by storeAndDiff) shorten
+ * the interval. If the resulting plan would exceed SCRAPE_REQUEST_BUDGET
+ * requests per hour, every interval is stretched to fit.
+ *
+ * Targets on a closure date, on a weekday the venue is shut, or whose last
+ * slot has already started are not scraped at all, nor are venues whose circuit
+ * breaker is open; once its wait ends a venue is probed with a single target. Day offsets and opening
+ * hours are in each venue's own timezone.
  */
 
 // Frequency in minutes for each day offset
 const SCRAPE_INTERVALS: Record<number, number> = {
-  0: 10, // Today: 10 min (but stop after 6pm)
+  0: 10, // Today: 10 min (until the cutoff before closing)
   1: 10, // Tomorrow: highest frequency
   2: 20, // Half of day 1
   3: 40, // Half of day 2
@@ -26,30 +50,49 @@ const SCRAPE_INTERVALS: Record<number, number> = {
   7: 60,
 };
 
-// After this hour (local time), day 0 switches to 4-hour intervals
-const DAY0_CUTOFF_HOUR = 18; // 6pm
+// This many hours before the venue closes, day 0 switches to 4-hour intervals
+const DAY0_CUTOFF_HOURS_BEFORE_CLOSE = 4; // 6pm for a 10pm close
 const DAY0_AFTER_CUTOFF_INTERVAL = 240; // 4 hours in minutes
 
+// Adaptive weighting
+const IDLE_FACTOR = 3; // Unwatched targets
+const MIN_INTERVAL_MINUTES = 5;
+const MAX_INTERVAL_MINUTES = 240;
+const CHURN_WINDOW_HOURS = 24;
+const CHURN_FOR_MAX_BOOST = 20; // Slot changes in the window that double the scrape rate
+const DEFAULT_REQUEST_BUDGET = 300; // Scrape requests per hour across all venues
+
+export interface TargetDemand {
+  watchCount: number; // Active watches that could match the target's slots
+  recentChanges: number; // Slot status changes in the last CHURN_WINDOW_HOURS
+}
+
 export interface ScrapeScheduleResult {
   venue: Venue;
   date: string;
   dayOffset: number;
   intervalMinutes: number;
+  demand: TargetDemand;
 }
 
 export interface ScheduledScrapeResult {
   slots: ScrapedSlot[];
+  scrapedTargets: ScrapedTarget[]; // Venue-dates that scraped successfully, even if empty
   targetsScraped: number;
   targetsSkipped: number;
   errors: string[];
 }
 
 /**
- * Get the scrape interval for a given day offset and current hour
+ * Get the scrape interval for a given day offset, current hour and closing hour (venue-local)
  */
-export function getScrapeInterval(dayOffset: number, currentHour: number): number {
-  // Day 0 after 6pm: switch to 4-hour intervals
-  if (dayOffset === 0 && currentHour >= DAY0_CUTOFF_HOUR) {
+export function getScrapeInterval(
+  dayOffset: number,
+  currentHour: number,
+  closeHour: number = DEFAULT_DAY_HOURS.close
+): number {
+  // Day 0 in the last hours before closing: switch to 4-hour intervals
+  if (dayOffset === 0 && currentHour >= closeHour - DAY0_CUTOFF_HOURS_BEFORE_CLOSE) {
     return DAY0_AFTER_CUTOFF_INTERVAL;
   }
 
@@ -58,41 +101,134 @@ export function getScrapeInterval(dayOffset: number, currentHour: number): numbe
 }
 
 /**
- * Calculate the day offset from today for a given date string
+ * Adapt a tiered interval to a target's demand. A target with one watch and no
+ * churn keeps its tier; 2 watches scrape 1.5x as often, 4 watches 2x, and up to
+ * CHURN_FOR_MAX_BOOST recent changes double the rate again.
+ */
+export function getAdaptiveInterval(baseMinutes: number, demand: TargetDemand): number {
+  if (demand.watchCount === 0) {
+    return Math.max(baseMinutes, Math.min(baseMinutes * IDLE_FACTOR, MAX_INTERVAL_MINUTES));
+  }
+
+  const watchBoost = 1 + Math.log2(demand.watchCount) / 2;
+  const churnBoost = 1 + Math.min(demand.recentChanges / CHURN_FOR_MAX_BOOST, 1);
+  const interval = baseMinutes / (watchBoost * churnBoost);
+
+  return Math.round(Math.min(Math.max(interval, MIN_INTERVAL_MINUTES), MAX_INTERVAL_MINUTES));
+}
+
+/**
+ * Requests per hour the budget allows, from SCRAPE_REQUEST_BUDGET
+ */
+export function getRequestBudget(): number {
+  const budget = parseInt(process.env.SCRAPE_REQUEST_BUDGET || "", 10);
+  return budget > 0 ? budget : DEFAULT_REQUEST_BUDGET;
+}
+
+/**
+ * Stretch intervals so the plan stays within `budget` requests per hour.
+ * Targets sharing a `requestKey` are fetched by one request (date-range
+ * platforms fetch a whole venue at once), so they cost one request at the
+ * rate of their most frequent target.
  */
-export function getDayOffset(dateStr: string): number {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+export function applyRequestBudget<T extends { requestKey: string; intervalMinutes: number }>(
+  plan: T[],
+  budget: number
+): T[] {
+  const shortestByRequest = new Map<string, number>();
+  for (const target of plan) {
+    const shortest = shortestByRequest.get(target.requestKey);
+    if (shortest === undefined || target.intervalMinutes < shortest) {
+      shortestByRequest.set(target.requestKey, target.intervalMinutes);
+    }
+  }
 
-  const targetDate = new Date(dateStr);
-  targetDate.setHours(0, 0, 0, 0);
+  const requestsPerHour = [...shortestByRequest.values()].reduce((sum, interval) => sum + 60 / interval, 0);
+  if (requestsPerHour <= budget) return plan;
 
-  const diffMs = targetDate.getTime() - today.getTime();
-  return Math.round(diffMs / (1000 * 60 * 60 * 24));
+  const stretch = requestsPerHour / budget;
+  return plan.map((target) => ({ ...target, intervalMinutes: Math.ceil(target.intervalMinutes * stretch) }));
 }
 
 /**
- * Get all dates for the next N days (including today)
+ * Active watches covering, and recent slot changes for, each `${venueSlug}|${date}` target
  */
-export function getNextNDays(n: number): string[] {
-  const dates: string[] = [];
-  const today = new Date();
-
-  for (let i = 0; i < n; i++) {
-    const date = new Date(today);
-    date.setDate(today.getDate() + i);
-    dates.push(date.toISOString().split("T")[0]);
+export async function loadTargetDemand(
+  targets: { venueSlug: string; date: string }[],
+  now: Date = new Date()
+): Promise<Map<string, TargetDemand>> {
+  const demand = new Map<string, TargetDemand>();
+  for (const target of targets) {
+    demand.set(`${target.venueSlug}|${target.date}`, { watchCount: 0, recentChanges: 0 });
+  }
+  if (targets.length === 0) return demand;
+
+  const venueRows = await db.select({ id: venues.id, slug: venues.slug }).from(venues);
+  const slugById = new Map(venueRows.map((v) => [v.id, v.slug]));
+  const activeWatches = await db.select().from(watches).where(eq(watches.active, 1));
+
+  for (const target of targets) {
+    const entry = demand.get(`${target.venueSlug}|${target.date}`)!;
+    entry.watchCount = activeWatches.filter(
+      (watch) =>
+        (watch.venueId === null || slugById.get(watch.venueId) === target.venueSlug) &&
+        watchCoversDate(watch, target.date)
+    ).length;
+  }
+
+  // Only real status changes count: first sightings (a newly released date) and
+  // slots going stale or coming back say nothing about cancellations
+  const churnSince = new Date(now.getTime() - CHURN_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+  const churn = await db
+    .select({ venueId: slotEvents.venueId, date: slotEvents.date, changes: sql<number>`count(*)` })
+    .from(slotEvents)
+    .where(
+      and(
+        inArray(slotEvents.date, [...new Set(targets.map((t) => t.date))]),
+        gte(slotEvents.observedAt, churnSince),
+        isNotNull(slotEvents.oldStatus),
+        ne(slotEvents.oldStatus, STALE_STATUS),
+        ne(slotEvents.newStatus, STALE_STATUS)
+      )
+    )
+    .groupBy(slotEvents.venueId, slotEvents.date);
+
+  for (const row of churn) {
+    const entry = demand.get(`${slugById.get(row.venueId)}|${row.date}`);
+    if (entry) entry.recentChanges = row.changes;
   }
 
-  return dates;
+  return demand;
+}
+
+/**
+ * Calculate the day offset from the venue's today for a given date string
+ */
+export function getDayOffset(dateStr: string, now: Date = new Date(), timeZone: string = DEFAULT_TIMEZONE): number {
+  return daysBetween(getVenueToday(now, timeZone), dateStr);
+}
+
+// The earliest "today" across venues
+function getEarliestVenueToday(enabledVenues: Venue[], now: Date): string {
+  const todays = enabledVenues.map((venue) => getVenueToday(now, venue.timezone));
+  return todays.length > 0 ? todays.sort()[0] : getVenueToday(now);
 }
 
 /**
- * Ensure scrape targets exist for all venue-date combinations
+ * Get all dates for the next N days (including today) at a venue
  */
-export async function ensureScrapeTargets(dates: string[]): Promise<void> {
-  for (const venue of VENUES) {
-    for (const date of dates) {
+export function getNextNDays(n: number, now: Date = new Date(), timeZone: string = DEFAULT_TIMEZONE): string[] {
+  return getUpcomingDates(n, now, timeZone);
+}
+
+/**
+ * Ensure scrape targets exist for the next N days at every enabled venue
+ */
+export async function ensureScrapeTargets(daysAhead: number, now: Date = new Date()): Promise<void> {
+  const enabledVenues = await getEnabledVenues();
+
+  for (const venue of enabledVenues) {
+    for (const date of getNextNDays(daysAhead, now, venue.timezone)) {
       // Check if target exists
       const existing = await db
         .select()
@@ -114,54 +250,73 @@ export async function ensureScrapeTargets(dates: string[]): Promise<void> {
 }
 
 /**
- * Get all scrape targets that are due for scraping
+ * Get all scrape targets that are due for scraping, with their adapted intervals.
+ * Every upcoming target is planned so the request budget covers the whole schedule.
  */
-export async function getDueScrapeTargets(): Promise<ScrapeScheduleResult[]> {
-  const now = new Date();
-  const currentHour = now.getHours();
+export async function getDueScrapeTargets(now: Date = new Date()): Promise<ScrapeScheduleResult[]> {
   const nowIso = now.toISOString();
 
-  // Get targets where nextScrapeAt <= now OR nextScrapeAt is null
-  const dueTargets = await db
-    .select()
-    .from(scrapeTargets)
-    .where(or(lte(scrapeTargets.nextScrapeAt, nowIso), isNull(scrapeTargets.nextScrapeAt)));
-
-  const results: ScrapeScheduleResult[] = [];
-
-  for (const target of dueTargets) {
-    const dayOffset = getDayOffset(target.date);
-
-    // Skip dates in the past
-    if (dayOffset < 0) continue;
-
-    // Skip day 0 after 6pm entirely (unless it's a 4-hour check)
-    // Actually, we still scrape but at 4-hour intervals
-    const venue = VENUES.find((v) => v.slug === target.venueSlug);
-    if (!venue) continue;
-
-    const intervalMinutes = getScrapeInterval(dayOffset, currentHour);
-
-    results.push({
+  const allTargets = await db.select().from(scrapeTargets);
+  const enabledVenues = await getEnabledVenues();
+  const plan: (ScrapeScheduleResult & { requestKey: string; due: boolean })[] = [];
+
+  const closedDates = await getClosedDates(getEarliestVenueToday(enabledVenues, now));
+  const blockedVenues = await getBlockedVenues(now);
+  const probingVenues = await getProbingVenues(now);
+
+  const upcoming = allTargets
+    .flatMap((target) => {
+      // Disabled or deleted venues have no match and are skipped, as are venues whose circuit breaker is open
+      const venue = enabledVenues.find((v) => v.slug === target.venueSlug && !blockedVenues.has(v.slug));
+      return venue ? [{ target, venue, dayOffset: getDayOffset(target.date, now, venue.timezone) }] : [];
+    })
+    // Skip dates in the past, closures and days with nothing left to book
+    .filter(
+      ({ target, venue, dayOffset }) =>
+        dayOffset >= 0 &&
+        !closedDates.has(`${venue.slug}|${target.date}`) &&
+        getRemainingHours(venue.openingHours, target.date, now, venue.timezone).length > 0
+    );
+  const demand = await loadTargetDemand(upcoming.map(({ target }) => target), now);
+
+  for (const { target, venue, dayOffset } of upcoming) {
+    // Days the venue is shut were filtered out above along with finished days
+    const dayHours = getDayHours(venue.openingHours, target.date);
+    if (!dayHours) continue;
+    const currentHour = getZonedTime(now, venue.timezone).hour;
+    const closeHour = dayHours.close;
+    const targetDemand = demand.get(`${target.venueSlug}|${target.date}`)!;
+    const dateRange = getScraperAdapter(venue.type).fetchMode === "date-range";
+
+    plan.push({
       venue,
       date: target.date,
       dayOffset,
-      intervalMinutes,
+      intervalMinutes: getAdaptiveInterval(getScrapeInterval(dayOffset, currentHour, closeHour), targetDemand),
+      demand: targetDemand,
+      requestKey: dateRange ? venue.slug : `${venue.slug}|${target.date}`,
+      due: !target.nextScrapeAt || target.nextScrapeAt <= nowIso,
     });
   }
 
-  return results;
+  // A venue coming off its circuit breaker wait is probed with one target, not all of them
+  const probed = new Set<string>();
+  return applyRequestBudget(plan, getRequestBudget())
+    .filter((target) => target.due)
+    .filter(({ venue }) => {
+      if (!probingVenues.has(venue.slug)) return true;
+      if (probed.has(venue.slug)) return false;
+      probed.add(venue.slug);
+      return true;
+    })
+    .map(({ venue, date, dayOffset, intervalMinutes, demand }) => ({ venue, date, dayOffset, intervalMinutes, demand }));
 }
 
 /**
- * Mark a scrape target as scraped and calculate next scrape time
+ * Mark a scrape target as scraped and schedule its next scrape
  */
-export async function markTargetScraped(venueSlug: string, date: string): Promise<void> {
+export async function markTargetScraped(venueSlug: string, date: string, intervalMinutes: number): Promise<void> {
   const now = new Date();
-  const currentHour = now.getHours();
-  const dayOffset = getDayOffset(date);
-  const intervalMinutes = getScrapeInterval(dayOffset, currentHour);
-
   const nextScrapeAt = new Date(now.getTime() + intervalMinutes * 60 * 1000);
 
   await db
@@ -174,10 +329,11 @@ export async function markTargetScraped(venueSlug: string, date: string): Promis
 }
 
 /**
- * Clean up old scrape targets (dates in the past)
+ * Clean up old scrape targets (dates in the past at every venue)
  */
-export async function cleanupOldTargets(): Promise<number> {
-  const today = new Date().toISOString().split("T")[0];
+export async function cleanupOldTargets(now: Date = new Date()): Promise<number> {
+  // The earliest "today" across venues, so no venue loses a date it's still on
+  const today = getEarliestVenueToday(await getEnabledVenues(), now);
 
   const deleted = await db
     .delete(scrapeTargets)
@@ -189,13 +345,41 @@ export async function cleanupOldTargets(): Promise<number> {
 
 /**
  * Main scraping function - scrapes only targets that are due
- * Call this from the cron job (every 10 minutes)
+ * Call this from the cron job (every 10 minutes). The run and each request
+ * it makes are recorded in scrape_runs / scrape_attempts.
  */
-export async function runScheduledScrape(daysAhead: number = 8): Promise<ScheduledScrapeResult> {
-  const dates = getNextNDays(daysAhead);
+export async function runScheduledScrape(
+  daysAhead: number = 8,
+  trigger: ScrapeTrigger = "cron"
+): Promise<ScheduledScrapeResult> {
+  const runId = await startScrapeRun(trigger);
+  // Summed per attempt: the proxyManager totals are shared with (and reset by) full scrapes
+  const requestTotals: RequestTotals = { requests: 0, bytes: 0 };
+  const summarise = (result?: ScheduledScrapeResult) => ({
+    targetsScraped: result?.targetsScraped ?? 0,
+    targetsFailed: result?.errors.length ?? 0,
+    slotCount: result?.slots.length ?? 0,
+    ...requestTotals,
+  });
 
+  try {
+    const result = await scrapeDueTargets(runId, daysAhead, requestTotals);
+    await finishScrapeRun(runId, summarise(result));
+    return result;
+  } catch (error) {
+    await finishScrapeRun(runId, summarise(), error);
+    throw error;
+  }
+}
+
+async function scrapeDueTargets(
+  runId: number | null,
+  daysAhead: number,
+  requestTotals: RequestTotals
+): Promise<ScheduledScrapeResult> {
   // Ensure all targets exist
-  await ensureScrapeTargets(dates);
+  await ensureScrapeTargets(daysAhead);
+  const venueCount = (await getEnabledVenues()).length;
 
   // Get targets that are due
   const dueTargets = await getDueScrapeTargets();
@@ -205,8 +389,9 @@ export async function runScheduledScrape(daysAhead: number = 8): Promise<Schedul
   if (dueTargets.length === 0) {
     return {
       slots: [],
+      scrapedTargets: [],
       targetsScraped: 0,
-      targetsSkipped: VENUES.length * dates.length,
+      targetsSkipped: venueCount * daysAhead,
       errors: [],
     };
   }
@@ -220,86 +405,116 @@ export async function runScheduledScrape(daysAhead: number = 8): Promise<Schedul
     {} as Record<number, number>
   );
   console.log(`   By day offset: ${Object.entries(byDay).map(([d, c]) => `Day ${d}: ${c}`).join(", ")}`);
+  const watched = dueTargets.filter((t) => t.demand.watchCount > 0).length;
+  console.log(`   Watched: ${watched}, idle: ${dueTargets.length - watched}`);
 
   const allSlots: ScrapedSlot[] = [];
+  const scrapedTargets: ScrapedTarget[] = [];
   const errors: string[] = [];
+  const outcomes: VenueOutcomes = new Map();
 
-  // Separate ClubSpark targets (scraped per-venue) from Courtside (scraped per-date)
-  const clubsparkByVenue = new Map<string, ScrapeScheduleResult[]>();
-  const courtsideTargets: ScrapeScheduleResult[] = [];
+  // Split targets by how their platform fetches: date-range adapters get one
+  // request per venue, per-date adapters one request per (venue, date)
+  const rangeTargetsByVenue = new Map<string, ScrapeScheduleResult[]>();
+  const perDateTargets: ScrapeScheduleResult[] = [];
 
   for (const target of dueTargets) {
-    if (target.venue.type === "clubspark") {
-      if (!clubsparkByVenue.has(target.venue.slug)) {
-        clubsparkByVenue.set(target.venue.slug, []);
+    if (getScraperAdapter(target.venue.type).fetchMode === "date-range") {
+      if (!rangeTargetsByVenue.has(target.venue.slug)) {
+        rangeTargetsByVenue.set(target.venue.slug, []);
       }
-      clubsparkByVenue.get(target.venue.slug)!.push(target);
+      rangeTargetsByVenue.get(target.venue.slug)!.push(target);
     } else {
-      courtsideTargets.push(target);
+      perDateTargets.push(target);
     }
   }
 
-  // ClubSpark: one request per venue covers the full scraping window
-  const today = new Date().toISOString().split("T")[0];
-  const windowEndDate = new Date();
-  windowEndDate.setDate(windowEndDate.getDate() + 7);
-  const windowEnd = windowEndDate.toISOString().split("T")[0];
-
-  for (const [, targets] of clubsparkByVenue) {
+  // Date-range: one request per venue covers the full scraping window. Closure
+  // dates inside the window are fetched too, so their slots are dropped here.
+  const closedDates = await getClosedDates(getEarliestVenueToday(dueTargets.map((target) => target.venue), new Date()));
+  for (const [, targets] of rangeTargetsByVenue) {
     const venue = targets[0].venue;
+    const dates = getNextNDays(daysAhead, new Date(), venue.timezone);
+    const windowStart = dates[0];
+    const windowEnd = dates[dates.length - 1];
+    const isClosed = (date: string) => closedDates.has(`${venue.slug}|${date}`);
+    const adapter = getScraperAdapter(venue.type);
+    if (adapter.fetchMode !== "date-range") continue;
+
     try {
-      const venueSlots = await scrapeClubSpark(venue, today, windowEnd);
-      console.log(`   ✅ ${venue.slug} (${today}→${windowEnd}): ${venueSlots.length} slots`);
+      const venueSlots = await recordScrapeAttempt(
+        runId,
+        { venueSlug: venue.slug, date: windowStart, endDate: windowEnd },
+        async () =>
+          dropStartedSlots(await adapter.scrapeDateRange(venue, windowStart, windowEnd), venue).filter(
+            (slot) => !isClosed(slot.date)
+          ),
+        requestTotals
+      );
+      console.log(`   ✅ ${venue.slug} (${windowStart}→${windowEnd}): ${venueSlots.length} slots`);
+      noteVenueOutcome(outcomes, venue.slug);
       allSlots.push(...venueSlots);
+      scrapedTargets.push(...dates.filter((date) => !isClosed(date)).map((date) => ({ venue: venue.slug, date })));
       for (const target of targets) {
-        await markTargetScraped(venue.slug, target.date);
+        await markTargetScraped(venue.slug, target.date, target.intervalMinutes);
       }
     } catch (reason) {
       console.error(`   ❌ ${venue.slug}: ${reason}`);
+      noteVenueOutcome(outcomes, venue.slug, reason);
       for (const target of targets) {
         errors.push(`${venue.slug} ${target.date}: ${reason}`);
-        await markTargetScraped(venue.slug, target.date);
+        await markTargetScraped(venue.slug, target.date, target.intervalMinutes);
       }
     }
   }
 
-  // Courtside: concurrency-limited pool (per-date)
+  // Per-date: concurrency-limited pool
   const CONCURRENCY = 5;
-  const queue = courtsideTargets.map((target, index) => ({ target, index }));
-  const courtsideResults: PromiseSettledResult<{ venue: string; date: string; slots: ScrapedSlot[] }>[] = new Array(courtsideTargets.length);
+  const queue = perDateTargets.map((target, index) => ({ target, index }));
+  const perDateResults: PromiseSettledResult<{ venue: string; date: string; slots: ScrapedSlot[] }>[] = new Array(perDateTargets.length);
 
   const workers = Array.from({ length: Math.min(CONCURRENCY, queue.length) }, async () => {
     while (queue.length > 0) {
       const item = queue.shift();
       if (!item) break;
-      const { target: { venue, date }, index } = item;
+      const { target: { venue, date, intervalMinutes }, index } = item;
       try {
-        const slots = await scrapeVenue(venue, date);
-        await markTargetScraped(venue.slug, date);
+        const slots = await recordScrapeAttempt(
+          runId,
+          { venueSlug: venue.slug, date },
+          () => scrapeVenue(venue, date),
+          requestTotals
+        );
+        await markTargetScraped(venue.slug, date, intervalMinutes);
         console.log(`   ✅ ${venue.slug} ${date}: ${slots.length} slots`);
-        courtsideResults[index] = { status: "fulfilled", value: { venue: venue.slug, date, slots } };
+        perDateResults[index] = { status: "fulfilled", value: { venue: venue.slug, date, slots } };
       } catch (reason) {
-        courtsideResults[index] = { status: "rejected", reason };
+        perDateResults[index] = { status: "rejected", reason };
       }
     }
   });
 
   await Promise.all(workers);
 
-  for (let i = 0; i < courtsideResults.length; i++) {
-    const result = courtsideResults[i];
-    const target = courtsideTargets[i];
+  for (let i = 0; i < perDateResults.length; i++) {
+    const result = perDateResults[i];
+    const target = perDateTargets[i];
 
     if (result.status === "fulfilled") {
+      noteVenueOutcome(outcomes, target.venue.slug);
       allSlots.push(...result.value.slots);
+      scrapedTargets.push({ venue: target.venue.slug, date: target.date });
     } else {
+      noteVenueOutcome(outcomes, target.venue.slug, result.reason);
       const error = `${target.venue.slug} ${target.date}: ${result.reason}`;
       errors.push(error);
       console.error(`   ❌ ${error}`);
-      await markTargetScraped(target.venue.slug, target.date);
+      await markTargetScraped(target.venue.slug, target.date, target.intervalMinutes);
     }
   }
 
+  await recordVenueOutcomes(outcomes);
+
   // Cleanup old targets
   const cleanedUp = await cleanupOldTargets();
   if (cleanedUp > 0) {
@@ -308,8 +523,9 @@ export async function runScheduledScrape(daysAhead: number = 8): Promise<Schedul
 
   return {
     slots: allSlots,
+    scrapedTargets,
     targetsScraped: dueTargets.length,
-    targetsSkipped: VENUES.length * dates.length - dueTargets.length,
+    targetsSkipped: venueCount * daysAhead - dueTargets.length,
     errors,
   };
 }
@@ -326,11 +542,12 @@ export async function getScrapeStatus(): Promise<{
   const nowIso = now.toISOString();
 
   const allTargets = await db.select().from(scrapeTargets);
+  const timeZones = new Map((await getEnabledVenues()).map((venue) => [venue.slug, venue.timezone]));
 
   const byDayOffset: Record<number, { total: number; due: number }> = {};
 
   for (const target of allTargets) {
-    const dayOffset = getDayOffset(target.date);
+    const dayOffset = getDayOffset(target.date, now, timeZones.get(target.venueSlug));
     if (dayOffset < 0) continue;
 
     if (!byDayOffset[dayOffset]) {
@@ -1,8 +1,13 @@
-import { VENUES, Venue } from "./constants";
-import { scrapeVenue, ScrapedSlot } from "./scrapers";
-import { proxyManager, formatBytes } from "./proxy-manager";
+import { ScrapeTrigger, Venue } from "./constants";
+import { getUpcomingDates } from "./utils/venue-time";
+import { getEnabledVenues } from "./venues";
+import { scrapeVenue, ScrapedSlot, ScrapedTarget } from "./scrapers";
+import { proxyManager } from "./proxy-manager";
+import { formatBytes } from "./utils/format-bytes";
+import { RequestTotals, finishScrapeRun, recordScrapeAttempt, startScrapeRun } from "./scrape-log";
+import { VenueOutcomes, noteVenueOutcome, recordVenueOutcomes } from "./venue-health";
 
-export type { ScrapedSlot } from "./scrapers";
+export type { ScrapedSlot, ScrapedTarget } from "./scrapers";
 
 export interface ScrapeStats {
   durationMs: number;
@@ -20,6 +25,7 @@ export interface ScrapeStats {
 
 export interface ScrapeResult {
   slots: ScrapedSlot[];
+  scrapedTargets: ScrapedTarget[]; // Venue-dates that scraped successfully, even if empty
   stats: ScrapeStats;
 }
 
@@ -27,12 +33,13 @@ export interface ScrapeResult {
 const CONCURRENCY = parseInt(process.env.SCRAPE_CONCURRENCY || "5");
 
 export async function scrapeAllVenues(date: string): Promise<ScrapedSlot[]> {
-  console.log(`🚀 Scraping ${VENUES.length} venues (concurrency: ${CONCURRENCY})`);
+  const enabledVenues = await getEnabledVenues();
+  console.log(`🚀 Scraping ${enabledVenues.length} venues (concurrency: ${CONCURRENCY})`);
   const startTime = Date.now();
 
   // Scrape all venues in parallel with concurrency limit
   const results = await Promise.allSettled(
-    VENUES.map(async (venue, index) => {
+    enabledVenues.map(async (venue, index) => {
       // Stagger start times slightly to avoid thundering herd
       await new Promise((r) => setTimeout(r, index * 200));
       const slots = await scrapeVenue(venue, date);
@@ -54,7 +61,7 @@ export async function scrapeAllVenues(date: string): Promise<ScrapedSlot[]> {
   }
 
   const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-  console.log(`📊 Done: ${successCount}/${VENUES.length} venues, ${allSlots.length} slots in ${duration}s`);
+  console.log(`📊 Done: ${successCount}/${enabledVenues.length} venues, ${allSlots.length} slots in ${duration}s`);
 
   const stats = proxyManager.getStats();
   if (stats.configured) {
@@ -64,37 +71,58 @@ export async function scrapeAllVenues(date: string): Promise<ScrapedSlot[]> {
   return allSlots;
 }
 
-export function getNextNDays(n: number): string[] {
-  const dates: string[] = [];
-  const today = new Date();
-
-  for (let i = 0; i < n; i++) {
-    const date = new Date(today);
-    date.setDate(today.getDate() + i);
-    dates.push(date.toISOString().split("T")[0]);
-  }
-
-  return dates;
+// The next N dates (including today) in the default venue timezone
+export function getNextNDays(n: number, now: Date = new Date()): string[] {
+  return getUpcomingDates(n, now);
 }
 
 /**
  * Run a full scrape job with comprehensive timing and stats.
- * Scrapes all venues for the given dates in parallel.
+ * Scrapes all venues for the given dates in parallel, recording the run
+ * and each venue-date in scrape_runs / scrape_attempts.
  */
-export async function runFullScrape(dates: string[]): Promise<ScrapeResult> {
+export async function runFullScrape(dates: string[], trigger: ScrapeTrigger = "admin"): Promise<ScrapeResult> {
   const startTime = Date.now();
-  proxyManager.resetStats();
+  const runId = await startScrapeRun(trigger);
+  // Summed per attempt: the proxyManager totals are shared with scheduled scrapes
+  const requestTotals: RequestTotals = { requests: 0, bytes: 0 };
+
+  try {
+    const result = await scrapeVenueDates(runId, dates, startTime, requestTotals);
+    await finishScrapeRun(runId, {
+      targetsScraped: result.stats.venuesSuccess + result.stats.venuesFailed,
+      targetsFailed: result.stats.venuesFailed,
+      slotCount: result.stats.slotsScraped,
+      requests: result.stats.totalRequests,
+      bytes: result.stats.totalBytes,
+    });
+    return result;
+  } catch (error) {
+    await finishScrapeRun(runId, { targetsScraped: 0, targetsFailed: 0, slotCount: 0, ...requestTotals }, error);
+    throw error;
+  }
+}
 
-  console.log(`🚀 Starting full scrape: ${VENUES.length} venues × ${dates.length} dates`);
+async function scrapeVenueDates(
+  runId: number | null,
+  dates: string[],
+  startTime: number,
+  requestTotals: RequestTotals
+): Promise<ScrapeResult> {
+  const enabledVenues = await getEnabledVenues();
+
+  console.log(`🚀 Starting full scrape: ${enabledVenues.length} venues × ${dates.length} dates`);
 
   const allSlots: ScrapedSlot[] = [];
+  const scrapedTargets: ScrapedTarget[] = [];
   const failedVenues: string[] = [];
   let successCount = 0;
   let failCount = 0;
+  const outcomes: VenueOutcomes = new Map();
 
   // Create all venue-date combinations
   const tasks: { venue: Venue; date: string }[] = [];
-  for (const venue of VENUES) {
+  for (const venue of enabledVenues) {
     for (const date of dates) {
       tasks.push({ venue, date });
     }
@@ -105,7 +133,12 @@ export async function runFullScrape(dates: string[]): Promise<ScrapeResult> {
     tasks.map(async ({ venue, date }, index) => {
       // Stagger start times slightly to avoid thundering herd
       await new Promise((r) => setTimeout(r, index * 100));
-      const slots = await scrapeVenue(venue, date);
+      const slots = await recordScrapeAttempt(
+        runId,
+        { venueSlug: venue.slug, date },
+        () => scrapeVenue(venue, date),
+        requestTotals
+      );
       return { venue: venue.slug, date, slots };
     })
   );
@@ -116,9 +149,12 @@ export async function runFullScrape(dates: string[]): Promise<ScrapeResult> {
     const { venue, date } = tasks[i];
 
     if (result.status === "fulfilled") {
+      noteVenueOutcome(outcomes, venue.slug);
       allSlots.push(...result.value.slots);
+      scrapedTargets.push({ venue: venue.slug, date });
       successCount++;
     } else {
+      noteVenueOutcome(outcomes, venue.slug, result.reason);
       failCount++;
       const venueDate = `${venue.slug}:${date}`;
       if (!failedVenues.includes(venueDate)) {
@@ -128,16 +164,17 @@ export async function runFullScrape(dates: string[]): Promise<ScrapeResult> {
     }
   }
 
-  const durationMs = Date.now() - startTime;
-  const proxyStats = proxyManager.getStats();
+  // Full scrapes ignore open circuit breakers, so a success here closes them
+  await recordVenueOutcomes(outcomes);
 
+  const durationMs = Date.now() - startTime;
   const stats: ScrapeStats = {
     durationMs,
     durationFormatted: `${(durationMs / 1000).toFixed(1)}s`,
-    totalRequests: proxyStats.totalRequests,
-    totalBytes: proxyStats.totalBytes,
-    totalBytesFormatted: formatBytes(proxyStats.totalBytes),
-    venuesTotal: VENUES.length,
+    totalRequests: requestTotals.requests,
+    totalBytes: requestTotals.bytes,
+    totalBytesFormatted: formatBytes(requestTotals.bytes),
+    venuesTotal: enabledVenues.length,
     venuesSuccess: successCount,
     venuesFailed: failCount,
     datesScraped: dates.length,
@@ -149,11 +186,11 @@ export async function runFullScrape(dates: string[]): Promise<ScrapeResult> {
   console.log(`📊 Scrape completed in ${stats.durationFormatted}`);
   console.log(`   ${successCount}/${tasks.length} venue-dates succeeded`);
   console.log(`   ${allSlots.length} slots scraped`);
-  console.log(`   ${stats.totalBytesFormatted} transferred (${proxyStats.totalRequests} requests)`);
+  console.log(`   ${stats.totalBytesFormatted} transferred (${stats.totalRequests} requests)`);
 
   if (failedVenues.length > 0) {
     console.log(`   ⚠️  ${failedVenues.length} failures: ${failedVenues.slice(0, 5).join(", ")}${failedVenues.length > 5 ? "..." : ""}`);
   }
 
-  return { slots: allSlots, stats };
+  return { slots: allSlots, scrapedTargets, stats };
 }
@@ -1,6 +1,7 @@
-import { ScrapedSlot } from "./types";
+import { ScrapedSlot, DateRangeScraperAdapter } from "./types";
 import { Venue } from "../constants";
 import { proxyManager, proxyFetch } from "../proxy-manager";
+import { formatSlotHour } from "../utils/slot-time";
 
 interface ClubSparkSession {
   ID: string;
@@ -28,14 +29,6 @@ interface ClubSparkResponse {
   Resources: ClubSparkResource[];
 }
 
-// Convert 24-hour format to 12-hour am/pm format to match Courtside scraper
-function convertTo12HourFormat(hour: number): string {
-  if (hour === 0) return "12am";
-  if (hour < 12) return `${hour}am`;
-  if (hour === 12) return "12pm";
-  return `${hour - 12}pm`;
-}
-
 export async function scrapeClubSpark(
   venue: Venue,
   startDate: string,
@@ -95,7 +88,8 @@ export async function scrapeClubSpark(
       // Generate slots for each hour
       for (let hour = startHour; hour < endHour; hour++) {
         const timeMinutes = hour * 60;
-        const timeStr = convertTo12HourFormat(hour);
+        // 12-hour am/pm format to match the Courtside scraper
+        const timeStr = formatSlotHour(hour);
 
         // Find session that covers this time slot
         const session = sessions.find(
@@ -139,3 +133,27 @@ export async function scrapeClubSpark(
 
   return slots;
 }
+
+export const clubsparkAdapter: DateRangeScraperAdapter = {
+  type: "clubspark",
+  fetchMode: "date-range",
+  capabilities: {
+    requiredConfig: ["clubsparkHost", "clubsparkId"],
+  },
+  scrapeDateRange: scrapeClubSpark,
+  getBookingUrl(venue, date) {
+    if (!venue.clubsparkHost || !venue.clubsparkId) return "#";
+
+    // For main LTA site (clubspark.lta.org.uk), include venue ID in path
+    // For custom hosts, the venue ID is not in the path
+    const isMainLtaSite = venue.clubsparkHost === "clubspark.lta.org.uk";
+    const basePath = isMainLtaSite
+      ? `https://${venue.clubsparkHost}/${venue.clubsparkId}/Booking/BookByDate`
+      : `https://${venue.clubsparkHost}/Booking/BookByDate`;
+
+    if (date) {
+      return `${basePath}#?date=${date}&role=guest`;
+    }
+    return basePath;
+  },
+};
@@ -1,7 +1,7 @@
 import * as cheerio from "cheerio";
 import UserAgent from "user-agents";
 import { proxyManager, proxyFetch } from "../proxy-manager";
-import { ScrapedSlot } from "./types";
+import { ScrapedSlot, PerDateScraperAdapter } from "./types";
 
 const MAX_RETRIES = 2;
 const RETRY_DELAY = 1000;
@@ -138,3 +138,18 @@ export async function scrapeCourtside(
 
   return slots;
 }
+
+export const courtsideAdapter: PerDateScraperAdapter = {
+  type: "courtside",
+  fetchMode: "per-date",
+  capabilities: {
+    requiredConfig: [],
+  },
+  scrapeDate: (venue, date) => scrapeCourtside(venue.slug, date),
+  getBookingUrl(venue, date) {
+    if (date) {
+      return `https://tennistowerhamlets.com/book/courts/${venue.slug}/${date}`;
+    }
+    return `https://tennistowerhamlets.com/book/courts/${venue.slug}`;
+  },
+};
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { getScraperAdapter, scrapeVenue } from "./index";
+import type { Venue } from "../constants";
+
+vi.mock("../proxy-manager", () => ({
+  proxyManager: { getAgent: () => null },
+  proxyFetch: vi.fn(),
+}));
+
+import { proxyFetch } from "../proxy-manager";
+
+const courtsideVenue: Venue = {
+  slug: "victoria-park",
+  name: "Victoria Park",
+  type: "courtside",
+};
+
+const clubsparkVenue: Venue = {
+  slug: "west-ham-park",
+  name: "West Ham Park",
+  type: "clubspark",
+  clubsparkId: "WestHamPark",
+  clubsparkHost: "clubspark.lta.org.uk",
+};
+
+beforeEach(() => {
+  vi.mocked(proxyFetch).mockReset();
+});
+
+describe("getScraperAdapter", () => {
+  it("returns the adapter registered for each venue type", () => {
+    expect(getScraperAdapter("courtside").fetchMode).toBe("per-date");
+    expect(getScraperAdapter("clubspark").fetchMode).toBe("date-range");
+  });
+
+  it("builds Courtside booking URLs", () => {
+    const adapter = getScraperAdapter("courtside");
+    expect(adapter.getBookingUrl(courtsideVenue, "2026-04-03")).toBe(
+      "https://tennistowerhamlets.com/book/courts/victoria-park/2026-04-03"
+    );
+  });
+
+  it("builds ClubSpark booking URLs with the venue ID on the main LTA host", () => {
+    const adapter = getScraperAdapter("clubspark");
+    expect(adapter.getBookingUrl(clubsparkVenue, "2026-04-03")).toBe(
+      "https://clubspark.lta.org.uk/WestHamPark/Booking/BookByDate#?date=2026-04-03&role=guest"
+    );
+  });
+});
+
+describe("scrapeVenue", () => {
+  it("fetches a single-day range for date-range adapters", async () => {
+    vi.mocked(proxyFetch).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ EarliestStartTime: 480, LatestEndTime: 540, MinimumInterval: 60, Resources: [] }),
+    } as never);
+
+    await scrapeVenue(clubsparkVenue, "2026-04-03");
+
+    const url = vi.mocked(proxyFetch).mock.calls[0][0] as string;
+    expect(url).toContain("startDate=2026-04-03&endDate=2026-04-03");
+  });
+
+  it("fetches the dated page for per-date adapters", async () => {
+    vi.mocked(proxyFetch).mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: "OK",
+      body: `<table><tr><th class="time">8am</th></tr></table>${" ".repeat(100)}`,
+    } as never);
+
+    await scrapeVenue(courtsideVenue, "2026-04-03");
+
+    const url = vi.mocked(proxyFetch).mock.calls[0][0] as string;
+    expect(url).toBe("https://tennistowerhamlets.com/book/courts/victoria-park/2026-04-03");
+  });
+
+  it("drops slots that have already started", async () => {
+    vi.mocked(proxyFetch).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        EarliestStartTime: 540,
+        LatestEndTime: 720,
+        MinimumInterval: 60,
+        Resources: [{ Name: "Court 1", Days: [{ Date: "2026-04-03T00:00:00", Sessions: [] }] }],
+      }),
+    } as never);
+
+    // 10:30 BST
+    const slots = await scrapeVenue(clubsparkVenue, "2026-04-03", new Date("2026-04-03T09:30:00Z"));
+
+    expect(slots.map((slot) => slot.time)).toEqual(["11am"]);
+  });
+});
@@ -1,14 +1,53 @@
-import { Venue } from "../constants";
-import { ScrapedSlot } from "./types";
-import { scrapeCourtside } from "./courtside";
+import { Venue, VenueType } from "../constants";
+import { ScrapedSlot, ScrapedTarget, ScraperAdapter } from "./types";
+import { courtsideAdapter } from "./courtside";
+import { clubsparkAdapter } from "./clubspark";
+import { hasSlotStarted } from "../opening-hours";
 
-export type { ScrapedSlot } from "./types";
-export { scrapeClubSpark } from "./clubspark";
+export type { ScrapedSlot, ScrapedTarget, ScraperAdapter } from "./types";
 
-// Only used for Courtside venues; ClubSpark is scraped per-venue via scrapeClubSpark
+// One adapter per booking platform. Adding a platform = new VenueType + adapter file + entry here.
+const SCRAPER_ADAPTERS: Record<VenueType, ScraperAdapter> = {
+  courtside: courtsideAdapter,
+  clubspark: clubsparkAdapter,
+};
+
+export function isSupportedVenueType(type: string): type is VenueType {
+  return Object.prototype.hasOwnProperty.call(SCRAPER_ADAPTERS, type);
+}
+
+export function getScraperAdapter(type: VenueType): ScraperAdapter {
+  const adapter = SCRAPER_ADAPTERS[type];
+  if (!adapter) {
+    throw new Error(`No scraper adapter registered for venue type: ${type}`);
+  }
+  return adapter;
+}
+
+// Slots that have already started can't be booked, so they never reach storeAndDiff
+export function dropStartedSlots(slots: ScrapedSlot[], venue: Venue, now: Date = new Date()): ScrapedSlot[] {
+  return slots.filter((slot) => !hasSlotStarted(slot.date, slot.time, now, venue.timezone));
+}
+
+// The (venue, date) groups present in a list of slots
+export function getSlotTargets(slots: ScrapedSlot[]): ScrapedTarget[] {
+  const seen = new Map<string, ScrapedTarget>();
+  for (const slot of slots) {
+    seen.set(`${slot.venue}|${slot.date}`, { venue: slot.venue, date: slot.date });
+  }
+  return Array.from(seen.values());
+}
+
+// Scrape a single venue-date, whichever way the venue's platform fetches
 export async function scrapeVenue(
   venue: Venue,
-  date: string
+  date: string,
+  now: Date = new Date()
 ): Promise<ScrapedSlot[]> {
-  return scrapeCourtside(venue.slug, date);
+  const adapter = getScraperAdapter(venue.type);
+  const slots =
+    adapter.fetchMode === "per-date"
+      ? await adapter.scrapeDate(venue, date)
+      : await adapter.scrapeDateRange(venue, date, date);
+  return dropStartedSlots(slots, venue, now);
 }
@@ -1,3 +1,5 @@
+import type { Venue, VenueType } from "../constants";
+
 export interface ScrapedSlot {
   venue: string;
   date: string;
@@ -6,3 +8,35 @@ export interface ScrapedSlot {
   status: "available" | "booked" | "closed" | "coaching";
   price?: string;
 }
+
+// A (venue, date) whose scrape succeeded - authoritative even when it listed no slots
+export interface ScrapedTarget {
+  venue: string;
+  date: string;
+}
+
+export interface ScraperCapabilities {
+  // Venue config fields the adapter needs before it can scrape (e.g. ClubSpark host/ID)
+  requiredConfig: (keyof Venue)[];
+}
+
+interface BaseScraperAdapter {
+  type: VenueType;
+  capabilities: ScraperCapabilities;
+  // Public booking page for a venue, optionally deep-linked to a date
+  getBookingUrl(venue: Venue, date?: string): string;
+}
+
+// One request per (venue, date) - e.g. Courtside HTML pages
+export interface PerDateScraperAdapter extends BaseScraperAdapter {
+  fetchMode: "per-date";
+  scrapeDate(venue: Venue, date: string): Promise<ScrapedSlot[]>;
+}
+
+// One request covers a whole date window - e.g. ClubSpark's session API
+export interface DateRangeScraperAdapter extends BaseScraperAdapter {
+  fetchMode: "date-range";
+  scrapeDateRange(venue: Venue, startDate: string, endDate: string): Promise<ScrapedSlot[]>;
+}
+
+export type ScraperAdapter = PerDateScraperAdapter | DateRangeScraperAdapter;
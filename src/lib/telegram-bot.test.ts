@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { eq } from "drizzle-orm";
+
+vi.mock("./db", async () => (await import("./test-db")).createTestDb());
+
+import { db } from "./db";
+import {
+  dismissedSlots,
+  notificationChannels,
+  pendingNotifications,
+  slotEvents,
+  slots,
+  telegramLinkCodes,
+  users,
+  venues,
+  watches,
+} from "./schema";
+import { createLinkCode, handleTelegramCallback, handleTelegramUpdate, parseMuteDuration } from "./telegram-bot";
+
+const CHAT_ID = 777;
+// 10:00 in London
+const NOW = new Date("2026-04-07T09:00:00Z");
+
+function update(text: string) {
+  return { update_id: 1, message: { text, chat: { id: CHAT_ID, first_name: "Sam" } } };
+}
+
+let userId: number;
+let venueId: number;
+
+async function linkChat() {
+  await db.insert(notificationChannels).values({ userId, type: "telegram", destination: String(CHAT_ID) });
+}
+
+function press(data: string, chatId = CHAT_ID) {
+  return { id: "cb-1", data, message: { chat: { id: chatId } } };
+}
+
+beforeEach(async () => {
+  await db.delete(telegramLinkCodes);
+  await db.delete(dismissedSlots);
+  await db.delete(pendingNotifications);
+  await db.delete(notificationChannels);
+  await db.delete(watches);
+  await db.delete(slots);
+  await db.delete(users);
+  await db.delete(venues);
+
+  [{ id: userId }] = await db.insert(users).values({ email: "player@example.com", isAllowed: 1 }).returning();
+  [{ id: venueId }] = await db.insert(venues).values({ slug: "victoria-park", name: "Victoria Park" }).returning();
+});
+
+describe("parseMuteDuration", () => {
+  it("parses minutes, hours and days", () => {
+    expect(parseMuteDuration("30m")).toBe(30);
+    expect(parseMuteDuration("2h")).toBe(120);
+    expect(parseMuteDuration("1d")).toBe(1440);
+  });
+
+  it("rejects zero, too long and malformed durations", () => {
+    expect(parseMuteDuration("0h")).toBeNull();
+    expect(parseMuteDuration("8d")).toBeNull();
+    expect(parseMuteDuration("soon")).toBeNull();
+  });
+});
+
+describe("handleTelegramUpdate", () => {
+  it("replies with the chat ID to plain messages", async () => {
+    const reply = await handleTelegramUpdate(update("hello"), NOW);
+    expect(reply).toContain(`<b>${CHAT_ID}</b>`);
+    expect(reply).toContain("Hello Sam");
+  });
+
+  it("ignores updates without a message", async () => {
+    expect(await handleTelegramUpdate({ update_id: 1 }, NOW)).toBeNull();
+  });
+
+  it("rejects unknown commands with the command list", async () => {
+    const reply = await handleTelegramUpdate(update("/dance"), NOW);
+    expect(reply).toContain("Unknown command");
+    expect(reply).toContain("/watches");
+  });
+
+  it("links the chat with a valid code, once", async () => {
+    const { code } = await createLinkCode(userId, NOW);
+
+    const reply = await handleTelegramUpdate(update(`/link ${code.toLowerCase()}`), NOW);
+    expect(reply).toContain("now linked");
+
+    const channels = await db.select().from(notificationChannels);
+    expect(channels).toMatchObject([{ userId, type: "telegram", destination: String(CHAT_ID), active: 1 }]);
+
+    expect(await handleTelegramUpdate(update(`/link ${code}`), NOW)).toContain("invalid or has expired");
+  });
+
+  it("links the chat from a deep link's /start payload", async () => {
+    const { code, deepLink } = await createLinkCode(userId, NOW);
+    expect(deepLink).toBe(`https://t.me/MvgMonitorBot?start=${code}`);
+
+    const reply = await handleTelegramUpdate(update(`/start ${code}`), NOW);
+    expect(reply).toContain("now linked");
+    expect(await db.select().from(notificationChannels)).toMatchObject([{ userId, destination: String(CHAT_ID) }]);
+  });
+
+  it("rejects expired link codes", async () => {
+    const { code } = await createLinkCode(userId, new Date(NOW.getTime() - 60 * 60 * 1000));
+    expect(await handleTelegramUpdate(update(`/link ${code}`), NOW)).toContain("invalid or has expired");
+    expect(await db.select().from(notificationChannels)).toHaveLength(0);
+  });
+
+  it("requires a linked chat for account commands", async () => {
+    const reply = await handleTelegramUpdate(update("/watches"), NOW);
+    expect(reply).toContain("isn't linked");
+  });
+
+  it("lists, pauses and resumes watches", async () => {
+    await linkChat();
+    await db.insert(watches).values([
+      { userId, venueId, dayTimes: JSON.stringify({ monday: ["7pm", "8pm"], saturday: ["9am-12pm"] }) },
+      { userId, venueId: null, dayTimes: JSON.stringify({ friday: ["6pm"] }) },
+    ]);
+
+    const list = await handleTelegramUpdate(update("/watches"), NOW);
+    expect(list).toContain("1. <b>Victoria Park</b>");
+    expect(list).toContain("Mon 7pm, 8pm · Sat 9am-12pm");
+    expect(list).toContain("2. <b>All venues</b>");
+
+    expect(await handleTelegramUpdate(update("/pause@CourtBot 2"), NOW)).toContain("Watch 2 paused");
+    let rows = await db.select().from(watches).orderBy(watches.id);
+    expect(rows.map((w) => w.active)).toEqual([1, 0]);
+    expect(await handleTelegramUpdate(update("/watches"), NOW)).toContain("All venues</b> (paused)");
+
+    expect(await handleTelegramUpdate(update("/pause 5"), NOW)).toContain("from 1 to 2");
+
+    await handleTelegramUpdate(update("/pause"), NOW);
+    await handleTelegramUpdate(update("/resume"), NOW);
+    rows = await db.select().from(watches);
+    expect(rows.every((w) => w.active === 1)).toBe(true);
+  });
+
+  it("does not resume expired watches", async () => {
+    await linkChat();
+    await db.insert(watches).values({ userId, venueId, active: 0, expiredAt: "2026-04-01T00:00:00Z" });
+
+    expect(await handleTelegramUpdate(update("/resume 1"), NOW)).toContain("expired");
+    const [watch] = await db.select().from(watches);
+    expect(watch.active).toBe(0);
+  });
+
+  it("shows today's remaining free courts for a venue", async () => {
+    await db.insert(slots).values([
+      { venueId, date: "2026-04-07", time: "9am", court: "Court 1", status: "available" },
+      { venueId, date: "2026-04-07", time: "7pm", court: "Court 2", status: "available", price: "£10" },
+      { venueId, date: "2026-04-07", time: "7pm", court: "Court 1", status: "available", price: "£10" },
+      { venueId, date: "2026-04-07", time: "6pm", court: "Court 1", status: "booked" },
+      { venueId, date: "2026-04-08", time: "7pm", court: "Court 1", status: "available" },
+    ]);
+
+    const reply = await handleTelegramUpdate(update("/today victoria"), NOW);
+    expect(reply).toContain("Victoria Park");
+    expect(reply).toContain("<b>7pm</b>: Court 1 (£10), Court 2 (£10)");
+    // 9am has already started and 6pm is booked
+    expect(reply).not.toContain("9am");
+    expect(reply).not.toContain("6pm");
+
+    expect(await handleTelegramUpdate(update("/today nowhere"), NOW)).toContain("No venue matches");
+    expect(await handleTelegramUpdate(update("/today"), NOW)).toContain("<code>victoria-park</code>");
+  });
+
+  it("mutes and unmutes the chat", async () => {
+    await linkChat();
+
+    expect(await handleTelegramUpdate(update("/mute 2h"), NOW)).toContain("muted");
+    let [channel] = await db.select().from(notificationChannels).where(eq(notificationChannels.userId, userId));
+    expect(channel.mutedUntil).toBe("2026-04-07T11:00:00.000Z");
+
+    expect(await handleTelegramUpdate(update("/mute forever"), NOW)).toContain("Usage");
+
+    await handleTelegramUpdate(update("/mute off"), NOW);
+    [channel] = await db.select().from(notificationChannels);
+    expect(channel.mutedUntil).toBeNull();
+  });
+});
+
+describe("handleTelegramCallback", () => {
+  it("mutes the watches behind an alert for today", async () => {
+    await linkChat();
+    const [watch] = await db.insert(watches).values({ userId, venueId }).returning();
+
+    expect(await handleTelegramCallback(press(`mute:${watch.id}`), NOW)).toContain("muted for the rest of today");
+    const [muted] = await db.select().from(watches);
+    expect(muted.mutedOn).toBe("2026-04-07");
+  });
+
+  it("only acts for chats linked to the watch owner", async () => {
+    const [watch] = await db.insert(watches).values({ userId, venueId }).returning();
+
+    expect(await handleTelegramCallback(press(`mute:${watch.id}`), NOW)).toContain("isn't linked");
+
+    const [other] = await db.insert(users).values({ email: "other@example.com" }).returning();
+    await db.insert(notificationChannels).values({ userId: other.id, type: "telegram", destination: String(CHAT_ID) });
+    expect(await handleTelegramCallback(press(`mute:${watch.id}`), NOW)).toContain("no longer exists");
+    const [unchanged] = await db.select().from(watches);
+    expect(unchanged.mutedOn).toBeNull();
+  });
+
+  it("dismisses a slot and drops it from the queue", async () => {
+    await linkChat();
+    const [channel] = await db.select().from(notificationChannels);
+    const [event] = await db
+      .insert(slotEvents)
+      .values({ venueId, date: "2026-04-07", time: "7pm", court: "Court 1", oldStatus: "booked", newStatus: "available" })
+      .returning();
+    const slotKey = "victoria-park:2026-04-07:7pm:Court 1";
+    await db.insert(pendingNotifications).values({ userId, channelId: channel.id, slotKey, payload: "{}" });
+
+    expect(await handleTelegramCallback(press(`skip:${event.id}`), NOW)).toContain("no more alerts for 7pm Court 1");
+    expect(await db.select().from(dismissedSlots)).toMatchObject([{ userId, slotKey }]);
+    expect(await db.select().from(pendingNotifications)).toHaveLength(0);
+
+    // Pressing again is harmless
+    await handleTelegramCallback(press(`skip:${event.id}`), NOW);
+    expect(await db.select().from(dismissedSlots)).toHaveLength(1);
+  });
+
+  it("answers unknown or stale buttons", async () => {
+    await linkChat();
+    expect(await handleTelegramCallback(press("skip:999"), NOW)).toContain("expired");
+    expect(await handleTelegramCallback(press("dance:1"), NOW)).toBe("Unknown action.");
+  });
+});
@@ -0,0 +1,434 @@
+import { randomBytes } from "crypto";
+import { db } from "./db";
+import {
+  dismissedSlots,
+  notificationChannels,
+  pendingNotifications,
+  slotEvents,
+  slots,
+  telegramLinkCodes,
+  venues,
+  watches,
+} from "./schema";
+import type { Watch } from "./schema";
+import { and, asc, eq, inArray, lt } from "drizzle-orm";
+import { escapeTelegramHtml } from "./utils/html-escape";
+import { parseSlotHour } from "./utils/slot-time";
+import { WEEK_DAYS } from "./watch-rules";
+import { getLocalTime } from "./notifiers/schedule";
+import { DEFAULT_TIMEZONE } from "./constants";
+import { getSlotKey } from "./differ";
+
+/**
+ * Telegram bot commands
+ *
+ * The webhook hands every update to handleTelegramUpdate, which parses
+ * "/command args" and returns the reply text. Commands that act on an account
+ * need the chat to be linked first (a telegram notification channel whose
+ * destination is the chat ID).
+ */
+
+export const LINK_CODE_TTL_MINUTES = 15;
+const MAX_MUTE_MINUTES = 7 * 24 * 60;
+
+// The parts of a Telegram update we read
+export interface TelegramUpdate {
+  update_id?: number;
+  message?: {
+    text?: string;
+    chat: { id: number; first_name?: string };
+  };
+  // A press of an alert's inline button
+  callback_query?: {
+    id: string;
+    data?: string;
+    message?: { chat: { id: number } };
+  };
+}
+
+interface CommandContext {
+  chatId: string;
+  args: string[];
+  firstName: string;
+  // Accounts this chat is linked to (usually one)
+  userIds: number[];
+  now: Date;
+}
+
+interface Command {
+  description: string;
+  usage?: string;
+  requiresLink?: boolean;
+  handler: (ctx: CommandContext) => Promise<string>;
+}
+
+const DAY_LABELS: Record<string, string> = {
+  monday: "Mon",
+  tuesday: "Tue",
+  wednesday: "Wed",
+  thursday: "Thu",
+  friday: "Fri",
+  saturday: "Sat",
+  sunday: "Sun",
+};
+
+function appUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || "https://your-app.com";
+}
+
+function botUsername(): string {
+  return process.env.TELEGRAM_BOT_USERNAME || "MvgMonitorBot";
+}
+
+// Create a one-time code the user sends to the bot as /link <code>, or opens as a
+// t.me deep link - Telegram then sends "/start <code>" on the user's behalf
+export async function createLinkCode(
+  userId: number,
+  now = new Date()
+): Promise<{ code: string; expiresAt: string; deepLink: string }> {
+  const code = randomBytes(4).toString("hex").toUpperCase();
+  const expiresAt = new Date(now.getTime() + LINK_CODE_TTL_MINUTES * 60 * 1000).toISOString();
+
+  // Only the latest code for a user is valid
+  await db.delete(telegramLinkCodes).where(eq(telegramLinkCodes.userId, userId));
+  await db.insert(telegramLinkCodes).values({ code, userId, expiresAt });
+
+  return { code, expiresAt, deepLink: `https://t.me/${botUsername()}?start=${code}` };
+}
+
+// "2h" -> 120, "30m" -> 30, "1d" -> 1440; null if not a duration
+export function parseMuteDuration(value: string): number | null {
+  const match = value.trim().toLowerCase().match(/^(\d+)\s*(m|min|h|hr|d)$/);
+  if (!match) return null;
+  const amount = parseInt(match[1], 10);
+  const minutes = match[2].startsWith("m") ? amount : match[2].startsWith("h") ? amount * 60 : amount * 24 * 60;
+  return minutes > 0 && minutes <= MAX_MUTE_MINUTES ? minutes : null;
+}
+
+function describeTimes(watch: Watch): string {
+  if (watch.dayTimes) {
+    try {
+      const dayTimes: Record<string, string[]> = JSON.parse(watch.dayTimes);
+      const parts = WEEK_DAYS.filter((day) => dayTimes[day]?.length).map(
+        (day) => `${DAY_LABELS[day]} ${dayTimes[day].join(", ")}`
+      );
+      return parts.length > 0 ? parts.join(" · ") : "no times set";
+    } catch {
+      return "invalid times";
+    }
+  }
+
+  // Legacy weekday/weekend format
+  const parts: string[] = [];
+  for (const [label, json] of [["Weekdays", watch.weekdayTimes], ["Weekends", watch.weekendTimes]] as const) {
+    if (!json) continue;
+    try {
+      const times: string[] = JSON.parse(json);
+      if (times.length > 0) parts.push(`${label} ${times.join(", ")}`);
+    } catch {
+      // Skip unreadable legacy data
+    }
+  }
+  return parts.length > 0 ? parts.join(" · ") : "no times set";
+}
+
+// The user's watches in a stable order, so /pause 2 refers to the 2nd line of /watches
+async function loadWatches(userIds: number[]): Promise<Watch[]> {
+  return db.select().from(watches).where(inArray(watches.userId, userIds)).orderBy(asc(watches.id));
+}
+
+// Resolve "/pause 2" style arguments to watches; all watches when no number is given
+async function selectWatches(ctx: CommandContext): Promise<Watch[] | string> {
+  const userWatches = await loadWatches(ctx.userIds);
+  if (userWatches.length === 0) return "You don't have any watches yet.";
+  if (ctx.args.length === 0) return userWatches;
+
+  const index = parseInt(ctx.args[0], 10);
+  if (!Number.isInteger(index) || index < 1 || index > userWatches.length) {
+    return `Pick a watch number from 1 to ${userWatches.length} (see /watches).`;
+  }
+  return [userWatches[index - 1]];
+}
+
+async function handleLink(ctx: CommandContext): Promise<string> {
+  const code = ctx.args[0]?.toUpperCase();
+  if (!code) {
+    return `Send <code>/link CODE</code> with the code from your dashboard settings: ${appUrl()}/dashboard?tab=settings`;
+  }
+
+  const linkCode = await db.query.telegramLinkCodes.findFirst({
+    where: eq(telegramLinkCodes.code, code),
+  });
+  if (!linkCode || linkCode.expiresAt < ctx.now.toISOString()) {
+    return "That code is invalid or has expired. Generate a new one from your dashboard.";
+  }
+
+  await db
+    .insert(notificationChannels)
+    .values({ userId: linkCode.userId, type: "telegram", destination: ctx.chatId })
+    .onConflictDoUpdate({
+      target: [notificationChannels.userId, notificationChannels.type, notificationChannels.destination],
+      set: { active: 1 },
+    });
+  await db.delete(telegramLinkCodes).where(eq(telegramLinkCodes.id, linkCode.id));
+
+  return "✅ This chat is now linked to your account. Court alerts will arrive here.\n\nSend /help to see what else I can do.";
+}
+
+async function handleWatches(ctx: CommandContext): Promise<string> {
+  const userWatches = await loadWatches(ctx.userIds);
+  if (userWatches.length === 0) {
+    return `You don't have any watches yet. Create one at ${appUrl()}/dashboard`;
+  }
+
+  const venueRows = await db.select({ id: venues.id, name: venues.name }).from(venues);
+  const venueNames = new Map(venueRows.map((v) => [v.id, v.name]));
+
+  const lines = ["🎾 <b>Your watches</b>\n"];
+  userWatches.forEach((watch, i) => {
+    const venueName = watch.venueId !== null ? venueNames.get(watch.venueId) ?? "Unknown venue" : "All venues";
+    const status = watch.expiredAt ? " (expired)" : watch.active ? "" : " (paused)";
+    lines.push(`${i + 1}. <b>${escapeTelegramHtml(venueName)}</b>${status}`);
+    lines.push(`   ${escapeTelegramHtml(describeTimes(watch))}`);
+  });
+  lines.push("\nUse /pause or /resume with a number to change one watch.");
+
+  return lines.join("\n");
+}
+
+async function setWatchesActive(ctx: CommandContext, active: boolean): Promise<string> {
+  const selected = await selectWatches(ctx);
+  if (typeof selected === "string") return selected;
+
+  // Watches whose dates have passed stay expired
+  const ids = selected.filter((watch) => !watch.expiredAt).map((watch) => watch.id);
+  if (ids.length === 0) return "That watch has expired - edit its dates in the dashboard to use it again.";
+
+  await db
+    .update(watches)
+    .set({ active: active ? 1 : 0 })
+    .where(inArray(watches.id, ids));
+
+  const subject = ids.length === 1 && ctx.args.length > 0 ? `Watch ${ctx.args[0]}` : `${ids.length} watches`;
+  return active ? `▶️ ${subject} resumed.` : `⏸ ${subject} paused. Send /resume to turn alerts back on.`;
+}
+
+async function handleToday(ctx: CommandContext): Promise<string> {
+  const query = ctx.args.join(" ").trim().toLowerCase();
+  const enabledVenues = await db.select().from(venues).where(eq(venues.enabled, 1)).orderBy(asc(venues.name));
+
+  if (!query) {
+    const list = enabledVenues.map((v) => `• <code>${escapeTelegramHtml(v.slug)}</code> - ${escapeTelegramHtml(v.name)}`);
+    return ["Usage: <code>/today venue</code>\n", ...list].join("\n");
+  }
+
+  const venue =
+    enabledVenues.find((v) => v.slug === query || v.name.toLowerCase() === query) ??
+    enabledVenues.find((v) => v.slug.includes(query.replace(/\s+/g, "-")) || v.name.toLowerCase().includes(query));
+  if (!venue) return `No venue matches "${escapeTelegramHtml(query)}". Send /today to list venues.`;
+
+  const { date: today, hour } = getLocalTime(ctx.now, venue.timezone);
+  const free = await db
+    .select({ time: slots.time, court: slots.court, price: slots.price })
+    .from(slots)
+    .where(and(eq(slots.venueId, venue.id), eq(slots.date, today), eq(slots.status, "available")));
+
+  // Group courts by start time, skipping hours that have already started
+  const byTime = new Map<string, string[]>();
+  for (const slot of free) {
+    const slotHour = parseSlotHour(slot.time);
+    if (slotHour !== null && slotHour <= hour) continue;
+    if (!byTime.has(slot.time)) byTime.set(slot.time, []);
+    byTime.get(slot.time)!.push(slot.price ? `${slot.court} (${slot.price})` : slot.court);
+  }
+
+  const heading = `📍 <b>${escapeTelegramHtml(venue.name)}</b> - today`;
+  if (byTime.size === 0) return `${heading}\n\nNo free courts for the rest of today.`;
+
+  const times = [...byTime.keys()].sort((a, b) => (parseSlotHour(a) ?? 0) - (parseSlotHour(b) ?? 0));
+  const lines = [heading, ""];
+  for (const time of times) {
+    const courts = byTime.get(time)!.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    lines.push(`• <b>${escapeTelegramHtml(time)}</b>: ${escapeTelegramHtml(courts.join(", "))}`);
+  }
+  return lines.join("\n");
+}
+
+async function handleMute(ctx: CommandContext): Promise<string> {
+  const arg = ctx.args[0]?.toLowerCase();
+  const channelFilter = and(eq(notificationChannels.type, "telegram"), eq(notificationChannels.destination, ctx.chatId));
+
+  if (arg === "off") {
+    await db.update(notificationChannels).set({ mutedUntil: null }).where(channelFilter);
+    return "🔔 Alerts unmuted.";
+  }
+
+  const minutes = arg ? parseMuteDuration(arg) : null;
+  if (minutes === null) {
+    return "Usage: <code>/mute 2h</code> (minutes <code>m</code>, hours <code>h</code> or days <code>d</code>, up to 7 days), or <code>/mute off</code>.";
+  }
+
+  const mutedUntil = new Date(ctx.now.getTime() + minutes * 60 * 1000);
+  await db.update(notificationChannels).set({ mutedUntil: mutedUntil.toISOString() }).where(channelFilter);
+
+  const until = mutedUntil.toLocaleString("en-GB", {
+    timeZone: DEFAULT_TIMEZONE,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  return `🔕 Alerts muted in this chat until ${until}. Send <code>/mute off</code> to unmute.`;
+}
+
+function handleStart(ctx: CommandContext): Promise<string> {
+  // Opened from a dashboard deep link
+  if (ctx.args.length > 0) return handleLink(ctx);
+
+  return Promise.resolve(
+    `👋 Hello ${escapeTelegramHtml(ctx.firstName)}!\n\n` +
+      `Your Telegram Chat ID is:\n` +
+      `<b>${ctx.chatId}</b>\n\n` +
+      `To get court alerts here, generate a link code in your dashboard settings and send <code>/link CODE</code>, ` +
+      `or use the chat ID above when adding a Telegram channel.\n\n` +
+      `🔗 ${appUrl()}/dashboard?tab=settings\n\n` +
+      helpText()
+  );
+}
+
+const COMMANDS: Record<string, Command> = {
+  start: { description: "Show your chat ID, or link a chat from a dashboard link", handler: handleStart },
+  link: { description: "Link this chat to your account", usage: "/link CODE", handler: handleLink },
+  watches: { description: "List your watches", requiresLink: true, handler: handleWatches },
+  pause: {
+    description: "Pause all watches, or one by number",
+    usage: "/pause [n]",
+    requiresLink: true,
+    handler: (ctx) => setWatchesActive(ctx, false),
+  },
+  resume: {
+    description: "Resume all watches, or one by number",
+    usage: "/resume [n]",
+    requiresLink: true,
+    handler: (ctx) => setWatchesActive(ctx, true),
+  },
+  today: { description: "Free courts at a venue today", usage: "/today venue", handler: handleToday },
+  mute: { description: "Mute alerts for a while", usage: "/mute 2h", requiresLink: true, handler: handleMute },
+  help: { description: "Show this list", handler: () => Promise.resolve(helpText()) },
+};
+
+function helpText(): string {
+  const lines = ["<b>Commands</b>"];
+  for (const [name, command] of Object.entries(COMMANDS)) {
+    lines.push(`${escapeTelegramHtml(command.usage ?? `/${name}`)} - ${command.description}`);
+  }
+  return lines.join("\n");
+}
+
+async function loadLinkedUserIds(chatId: string): Promise<number[]> {
+  const linked = await db
+    .select({ userId: notificationChannels.userId })
+    .from(notificationChannels)
+    .where(and(eq(notificationChannels.type, "telegram"), eq(notificationChannels.destination, chatId)));
+  return [...new Set(linked.map((row) => row.userId))];
+}
+
+// "mute:<watch ids>" - silence the watches behind an alert until tomorrow
+async function muteWatchesToday(userIds: number[], data: string, now: Date): Promise<string> {
+  const watchIds = data
+    .split(",")
+    .map((id) => parseInt(id, 10))
+    .filter(Number.isInteger);
+  if (watchIds.length === 0) return "Unknown watch.";
+
+  const { date: today } = getLocalTime(now);
+  const updated = await db
+    .update(watches)
+    .set({ mutedOn: today })
+    .where(and(inArray(watches.id, watchIds), inArray(watches.userId, userIds)))
+    .returning({ id: watches.id });
+
+  if (updated.length === 0) return "That watch no longer exists.";
+  return updated.length === 1 ? "🔇 Watch muted for the rest of today." : "🔇 Watches muted for the rest of today.";
+}
+
+// "skip:<slot event id>" - never alert about this slot again
+async function dismissSlot(userIds: number[], data: string): Promise<string> {
+  const eventId = parseInt(data, 10);
+  const [event] = Number.isInteger(eventId)
+    ? await db
+        .select({ venue: venues.slug, date: slotEvents.date, time: slotEvents.time, court: slotEvents.court })
+        .from(slotEvents)
+        .innerJoin(venues, eq(slotEvents.venueId, venues.id))
+        .where(eq(slotEvents.id, eventId))
+    : [];
+  if (!event) return "That slot has expired.";
+
+  const slotKey = getSlotKey(event);
+  await db
+    .insert(dismissedSlots)
+    .values(userIds.map((userId) => ({ userId, slotKey })))
+    .onConflictDoNothing();
+  await db
+    .delete(pendingNotifications)
+    .where(and(inArray(pendingNotifications.userId, userIds), eq(pendingNotifications.slotKey, slotKey)));
+
+  return `🙅 OK - no more alerts for ${event.time} ${event.court}.`;
+}
+
+// Handle an inline button press and return the toast text to answer it with
+export async function handleTelegramCallback(
+  query: NonNullable<TelegramUpdate["callback_query"]>,
+  now = new Date()
+): Promise<string> {
+  if (!query.message || !query.data) return "This button has expired.";
+
+  const userIds = await loadLinkedUserIds(String(query.message.chat.id));
+  if (userIds.length === 0) return "This chat isn't linked to an account.";
+
+  const [action, data = ""] = query.data.split(":");
+  switch (action) {
+    case "mute":
+      return muteWatchesToday(userIds, data, now);
+    case "skip":
+      return dismissSlot(userIds, data);
+    default:
+      return "Unknown action.";
+  }
+}
+
+// Handle an incoming message and return the reply to send, or null to stay silent
+export async function handleTelegramUpdate(update: TelegramUpdate, now = new Date()): Promise<string | null> {
+  const message = update.message;
+  if (!message) return null;
+
+  const chatId = String(message.chat.id);
+  const text = message.text?.trim() ?? "";
+
+  // "/pause@CourtBot 2" -> command "pause", args ["2"]
+  const [head = "", ...args] = text.split(/\s+/);
+  const name = head.startsWith("/") ? head.slice(1).split("@")[0].toLowerCase() : "start";
+  const command = COMMANDS[name];
+  if (!command) return `Unknown command <code>${escapeTelegramHtml(head)}</code>.\n\n${helpText()}`;
+
+  const userIds = await loadLinkedUserIds(chatId);
+  if (command.requiresLink && userIds.length === 0) {
+    return "This chat isn't linked to an account yet. Generate a code in your dashboard settings and send <code>/link CODE</code>.";
+  }
+
+  return command.handler({
+    chatId,
+    args: head.startsWith("/") ? args : [],
+    firstName: message.chat.first_name || "there",
+    userIds,
+    now,
+  });
+}
+
+// Remove link codes that can no longer be used
+export async function deleteExpiredLinkCodes(now = new Date()): Promise<number> {
+  const deleted = await db
+    .delete(telegramLinkCodes)
+    .where(lt(telegramLinkCodes.expiresAt, now.toISOString()))
+    .returning();
+  return deleted.length;
+}
@@ -0,0 +1,10 @@
+/**
+ * Formats a byte count for display
+ * @param bytes - Number of bytes
+ * @returns Size like "512 B", "3.4 KB" or "1.25 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
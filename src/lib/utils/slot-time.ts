@@ -0,0 +1,24 @@
+/**
+ * Parses a slot time like "7pm" or "10:30am" into a 24-hour hour
+ * @param time - Slot time as stored in the slots table
+ * @returns Hour 0-23, or null if the time is not recognised
+ */
+export function parseSlotHour(time: string): number | null {
+  const match = time.trim().toLowerCase().match(/^(\d{1,2})(?::\d{2})?\s*(am|pm)$/);
+  if (!match) return null;
+  let hour = parseInt(match[1], 10) % 12;
+  if (match[2] === "pm") hour += 12;
+  return hour;
+}
+
+/**
+ * Formats a 24-hour hour as a slot time
+ * @param hour - Hour 0-23
+ * @returns Slot time like "7am", "12pm" or "7pm"
+ */
+export function formatSlotHour(hour: number): string {
+  if (hour === 0) return "12am";
+  if (hour < 12) return `${hour}am`;
+  if (hour === 12) return "12pm";
+  return `${hour - 12}pm`;
+}
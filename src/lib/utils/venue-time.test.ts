@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  addDays,
+  daysBetween,
+  formatSlotDate,
+  getDayOfWeek,
+  getUpcomingDates,
+  getVenueToday,
+  getZonedTime,
+  zonedTimeToInstant,
+} from "./venue-time";
+
+// UK clocks go forward at 01:00 UTC on 2026-03-29 and back at 01:00 UTC on 2026-10-25
+
+describe("getZonedTime", () => {
+  it("reads wall-clock time either side of the spring change", () => {
+    expect(getZonedTime(new Date("2026-03-29T00:59:00Z"))).toEqual({ date: "2026-03-29", hour: 0, minute: 59 });
+    expect(getZonedTime(new Date("2026-03-29T01:00:00Z"))).toEqual({ date: "2026-03-29", hour: 2, minute: 0 });
+  });
+
+  it("reads wall-clock time either side of the autumn change", () => {
+    expect(getZonedTime(new Date("2026-10-25T00:30:00Z"))).toEqual({ date: "2026-10-25", hour: 1, minute: 30 });
+    expect(getZonedTime(new Date("2026-10-25T01:30:00Z"))).toEqual({ date: "2026-10-25", hour: 1, minute: 30 });
+  });
+});
+
+describe("getVenueToday", () => {
+  it("rolls over at the venue's midnight, not UTC's", () => {
+    // 23:30 UTC is already tomorrow in London during BST...
+    expect(getVenueToday(new Date("2026-06-30T23:30:00Z"))).toBe("2026-07-01");
+    // ...but not in winter
+    expect(getVenueToday(new Date("2026-12-31T23:30:00Z"))).toBe("2026-12-31");
+    expect(getVenueToday(new Date("2026-07-01T03:00:00Z"), "America/New_York")).toBe("2026-06-30");
+  });
+});
+
+describe("calendar arithmetic", () => {
+  it("adds and counts whole days across DST changes", () => {
+    expect(addDays("2026-03-28", 1)).toBe("2026-03-29");
+    expect(addDays("2026-03-29", 1)).toBe("2026-03-30");
+    expect(addDays("2026-10-24", 2)).toBe("2026-10-26");
+    expect(addDays("2026-03-01", -1)).toBe("2026-02-28");
+    expect(daysBetween("2026-03-28", "2026-03-30")).toBe(2);
+    expect(daysBetween("2026-10-26", "2026-10-24")).toBe(-2);
+  });
+
+  it("gives the weekday of a calendar date", () => {
+    expect(getDayOfWeek("2026-03-29")).toBe(0); // Sunday
+    expect(getDayOfWeek("2026-10-26")).toBe(1); // Monday
+  });
+
+  it("lists upcoming dates from the venue's today", () => {
+    expect(getUpcomingDates(3, new Date("2026-10-24T23:30:00Z"))).toEqual(["2026-10-25", "2026-10-26", "2026-10-27"]);
+    expect(getUpcomingDates(2, new Date("2026-10-25T23:30:00Z"))).toEqual(["2026-10-25", "2026-10-26"]);
+  });
+});
+
+describe("zonedTimeToInstant", () => {
+  it("converts venue wall-clock hours to UTC in summer and winter", () => {
+    expect(zonedTimeToInstant("2026-07-01", 19).toISOString()).toBe("2026-07-01T18:00:00.000Z");
+    expect(zonedTimeToInstant("2026-01-13", 19).toISOString()).toBe("2026-01-13T19:00:00.000Z");
+    expect(zonedTimeToInstant("2026-07-01", 19, "America/New_York").toISOString()).toBe("2026-07-01T23:00:00.000Z");
+  });
+
+  it("handles the hours around the spring change", () => {
+    expect(zonedTimeToInstant("2026-03-29", 0).toISOString()).toBe("2026-03-29T00:00:00.000Z");
+    // 1am doesn't exist that night, so it lands on 2am BST
+    expect(zonedTimeToInstant("2026-03-29", 1).toISOString()).toBe("2026-03-29T01:00:00.000Z");
+    expect(zonedTimeToInstant("2026-03-29", 3).toISOString()).toBe("2026-03-29T02:00:00.000Z");
+  });
+
+  it("handles the hours around the autumn change", () => {
+    expect(zonedTimeToInstant("2026-10-25", 0).toISOString()).toBe("2026-10-24T23:00:00.000Z");
+    expect(zonedTimeToInstant("2026-10-25", 2).toISOString()).toBe("2026-10-25T02:00:00.000Z");
+    expect(zonedTimeToInstant("2026-10-25", 19).toISOString()).toBe("2026-10-25T19:00:00.000Z");
+  });
+});
+
+describe("formatSlotDate", () => {
+  it("labels the calendar date itself", () => {
+    expect(formatSlotDate("2026-03-29")).toBe("Sun 29 Mar");
+    expect(formatSlotDate("2026-10-25", "long")).toBe("Sunday 25 October");
+  });
+});
@@ -0,0 +1,114 @@
+import { DEFAULT_TIMEZONE } from "../constants";
+
+/**
+ * Venue-local dates and times
+ *
+ * Slot dates ("YYYY-MM-DD") and times ("7pm") are wall-clock values in the
+ * venue's timezone. These helpers never read the server's (or browser's)
+ * local timezone: calendar arithmetic runs on UTC midnights and conversions
+ * to and from instants go through Intl with an explicit IANA timezone.
+ */
+
+export interface ZonedTime {
+  date: string; // YYYY-MM-DD
+  hour: number; // 0-23
+  minute: number; // 0-59
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Wall-clock date, hour and minute of an instant in a timezone
+ * @param instant - Point in time
+ * @param timeZone - IANA timezone, e.g. "Europe/London"
+ */
+export function getZonedTime(instant: Date, timeZone: string = DEFAULT_TIMEZONE): ZonedTime {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(instant);
+  const get = (type: string) => parts.find((p) => p.type === type)!.value;
+
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    hour: parseInt(get("hour"), 10),
+    minute: parseInt(get("minute"), 10),
+  };
+}
+
+/**
+ * Today's date at a venue
+ * @returns YYYY-MM-DD in the given timezone
+ */
+export function getVenueToday(now: Date = new Date(), timeZone: string = DEFAULT_TIMEZONE): string {
+  return getZonedTime(now, timeZone).date;
+}
+
+/**
+ * Calendar arithmetic on YYYY-MM-DD dates, unaffected by DST
+ * @returns The date `days` days after `date` (negative for earlier)
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split("T")[0];
+}
+
+/**
+ * Whole calendar days from one YYYY-MM-DD date to another
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Weekday of a calendar date
+ * @returns 0 = Sunday ... 6 = Saturday
+ */
+export function getDayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * The next `n` dates at a venue, starting with its today
+ */
+export function getUpcomingDates(n: number, now: Date = new Date(), timeZone: string = DEFAULT_TIMEZONE): string[] {
+  const today = getVenueToday(now, timeZone);
+  return Array.from({ length: n }, (_, i) => addDays(today, i));
+}
+
+/**
+ * The instant a venue's wall-clock time occurs, e.g. when a "7pm" slot starts.
+ * Times skipped by a DST change resolve to the hour after the gap.
+ * @param date - YYYY-MM-DD
+ * @param hour - Hour 0-23
+ */
+export function zonedTimeToInstant(date: string, hour: number, timeZone: string = DEFAULT_TIMEZONE): Date {
+  const wallClock = Date.parse(`${date}T${String(hour).padStart(2, "0")}:00:00Z`);
+
+  // Offset of the timezone at an instant, in ms ahead of UTC
+  const offsetAt = (instant: number) => {
+    const zoned = getZonedTime(new Date(instant), timeZone);
+    return Date.parse(`${zoned.date}T${String(zoned.hour).padStart(2, "0")}:${String(zoned.minute).padStart(2, "0")}:00Z`) - instant;
+  };
+
+  // The offset at the first guess may be on the wrong side of a DST change; one correction settles it
+  const firstGuess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(firstGuess));
+}
+
+/**
+ * Label for a slot date, independent of the reader's timezone
+ * @returns "Tue 7 Apr" (short) or "Tuesday 7 April" (long)
+ */
+export function formatSlotDate(date: string, style: "short" | "long" = "short"): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-GB", {
+    weekday: style,
+    day: "numeric",
+    month: style,
+    timeZone: "UTC",
+  });
+}
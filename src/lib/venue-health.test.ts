@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./db", async () => (await import("./test-db")).createTestDb());
+vi.mock("./notifiers/email", () => ({ sendVenueDownAlert: vi.fn() }));
+
+import { db } from "./db";
+import { venueHealth, venues } from "./schema";
+import { sendVenueDownAlert } from "./notifiers/email";
+import {
+  VenueOutcomes,
+  alertDownVenues,
+  getBackoffMinutes,
+  getBlockedVenues,
+  getProbingVenues,
+  noteVenueOutcome,
+  recordVenueOutcomes,
+} from "./venue-health";
+
+const NOW = new Date("2026-04-07T09:00:00Z");
+
+function minutesLater(minutes: number): Date {
+  return new Date(NOW.getTime() + minutes * 60 * 1000);
+}
+
+function outcome(venueSlug: string, error?: string): VenueOutcomes {
+  const outcomes: VenueOutcomes = new Map();
+  noteVenueOutcome(outcomes, venueSlug, error === undefined ? undefined : new Error(error));
+  return outcomes;
+}
+
+beforeEach(async () => {
+  vi.mocked(sendVenueDownAlert).mockReset().mockResolvedValue(true);
+  await db.delete(venues);
+  await db.insert(venues).values([
+    { slug: "victoria-park", name: "Victoria Park" },
+    { slug: "ropemakers-field", name: "Ropemakers Field" },
+  ]);
+});
+
+describe("getBackoffMinutes", () => {
+  it("doubles the wait from the third failure up to a ceiling", () => {
+    expect(getBackoffMinutes(2)).toBe(0);
+    expect(getBackoffMinutes(3)).toBe(15);
+    expect(getBackoffMinutes(4)).toBe(30);
+    expect(getBackoffMinutes(20)).toBe(720);
+  });
+});
+
+describe("noteVenueOutcome", () => {
+  it("counts a venue as healthy if any request succeeded", () => {
+    const outcomes: VenueOutcomes = new Map();
+    noteVenueOutcome(outcomes, "victoria-park", new Error("HTTP 403"));
+    noteVenueOutcome(outcomes, "victoria-park");
+    noteVenueOutcome(outcomes, "victoria-park", new Error("HTTP 403"));
+    noteVenueOutcome(outcomes, "ropemakers-field", new Error("timeout"));
+
+    expect(outcomes).toEqual(
+      new Map([
+        ["victoria-park", null],
+        ["ropemakers-field", "timeout"],
+      ])
+    );
+  });
+});
+
+describe("recordVenueOutcomes", () => {
+  it("opens the circuit after repeated failures and closes it on success", async () => {
+    for (let run = 0; run < 3; run++) {
+      await recordVenueOutcomes(outcome("victoria-park", "HTTP 403"), minutesLater(run * 10));
+    }
+
+    const [health] = await db.select().from(venueHealth);
+    expect(health).toMatchObject({
+      consecutiveFailures: 3,
+      failingSince: NOW.toISOString(),
+      lastError: "HTTP 403",
+      blockedUntil: minutesLater(35).toISOString(),
+    });
+    expect(await getBlockedVenues(minutesLater(30))).toEqual(new Set(["victoria-park"]));
+    expect(await getBlockedVenues(minutesLater(35))).toEqual(new Set());
+    expect(await getProbingVenues(minutesLater(30))).toEqual(new Set());
+    expect(await getProbingVenues(minutesLater(35))).toEqual(new Set(["victoria-park"]));
+
+    await recordVenueOutcomes(outcome("victoria-park"), minutesLater(40));
+
+    const [recovered] = await db.select().from(venueHealth);
+    expect(recovered).toMatchObject({
+      consecutiveFailures: 0,
+      failingSince: null,
+      lastSuccessAt: minutesLater(40).toISOString(),
+      blockedUntil: null,
+    });
+    expect(await getProbingVenues(minutesLater(40))).toEqual(new Set());
+  });
+});
+
+describe("alertDownVenues", () => {
+  it("alerts once per outage after the venue has been failing for 6 hours", async () => {
+    await recordVenueOutcomes(outcome("victoria-park", "HTTP 403"), NOW);
+
+    expect(await alertDownVenues(minutesLater(5 * 60))).toBe(0);
+    expect(await alertDownVenues(minutesLater(6 * 60))).toBe(1);
+    expect(vi.mocked(sendVenueDownAlert).mock.calls[0][0]).toMatchObject([
+      { slug: "victoria-park", failingSince: NOW.toISOString(), lastSuccessAt: null, lastError: "HTTP 403" },
+    ]);
+    expect(await alertDownVenues(minutesLater(7 * 60))).toBe(0);
+
+    // A success ends the outage; the next one alerts again
+    await recordVenueOutcomes(outcome("victoria-park"), minutesLater(8 * 60));
+    await recordVenueOutcomes(outcome("victoria-park", "HTTP 403"), minutesLater(9 * 60));
+    expect(await alertDownVenues(minutesLater(15 * 60))).toBe(1);
+    expect(sendVenueDownAlert).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries the alert if it couldn't be sent", async () => {
+    vi.mocked(sendVenueDownAlert).mockResolvedValueOnce(false);
+    await recordVenueOutcomes(outcome("ropemakers-field", "timeout"), NOW);
+
+    expect(await alertDownVenues(minutesLater(6 * 60))).toBe(0);
+    expect(await alertDownVenues(minutesLater(6 * 60 + 10))).toBe(1);
+  });
+});
@@ -0,0 +1,170 @@
+import { db } from "./db";
+import { venueHealth, venues } from "./schema";
+import type { VenueHealth } from "./schema";
+import { sendVenueDownAlert } from "./notifiers/email";
+import { and, eq, gt, gte, inArray, isNull, lte } from "drizzle-orm";
+
+/**
+ * Venue scrape health and circuit breaker
+ *
+ * Each scrape run records one outcome per venue it scraped: a success if any
+ * request for the venue worked, otherwise a failure. After
+ * CIRCUIT_BREAKER_THRESHOLD failed runs in a row the breaker opens and the
+ * scheduler skips the venue until blocked_until, with the wait doubling on
+ * each further failure. The first run after the wait is the probe, scraping a
+ * single target: a success closes the breaker, a failure opens it for longer. A venue failing for
+ * VENUE_DOWN_ALERT_HOURS gets one admin alert per outage.
+ */
+
+export const CIRCUIT_BREAKER_THRESHOLD = 3;
+const BASE_BACKOFF_MINUTES = 15;
+const MAX_BACKOFF_MINUTES = 12 * 60;
+
+// Hours without a successful scrape before the admin is alerted
+const VENUE_DOWN_ALERT_HOURS = parseFloat(process.env.VENUE_DOWN_ALERT_HOURS || "6");
+
+// venueSlug -> error message, or null if any request for the venue succeeded
+export type VenueOutcomes = Map<string, string | null>;
+
+export interface DownVenue {
+  slug: string;
+  name: string;
+  failingSince: string;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  blockedUntil: string | null;
+}
+
+// How long a venue is skipped after this many failed runs in a row (0 = breaker closed)
+export function getBackoffMinutes(consecutiveFailures: number): number {
+  if (consecutiveFailures < CIRCUIT_BREAKER_THRESHOLD) return 0;
+  return Math.min(BASE_BACKOFF_MINUTES * 2 ** (consecutiveFailures - CIRCUIT_BREAKER_THRESHOLD), MAX_BACKOFF_MINUTES);
+}
+
+// Add one request's result to a run's outcomes; any success makes the venue healthy for the run
+export function noteVenueOutcome(outcomes: VenueOutcomes, venueSlug: string, error?: unknown): void {
+  if (error === undefined) {
+    outcomes.set(venueSlug, null);
+  } else if (!outcomes.has(venueSlug)) {
+    outcomes.set(venueSlug, error instanceof Error ? error.message : String(error));
+  }
+}
+
+// Update each scraped venue's health, opening or closing its circuit breaker
+export async function recordVenueOutcomes(outcomes: VenueOutcomes, now: Date = new Date()): Promise<void> {
+  if (outcomes.size === 0) return;
+
+  const nowIso = now.toISOString();
+  const rows = await db
+    .select({ id: venues.id, slug: venues.slug, health: venueHealth })
+    .from(venues)
+    .leftJoin(venueHealth, eq(venueHealth.venueId, venues.id))
+    .where(inArray(venues.slug, [...outcomes.keys()]));
+
+  for (const { id, slug, health } of rows) {
+    const error = outcomes.get(slug);
+    let values: Omit<typeof venueHealth.$inferInsert, "id" | "venueId">;
+
+    if (error === null) {
+      values = {
+        consecutiveFailures: 0,
+        failingSince: null,
+        lastSuccessAt: nowIso,
+        blockedUntil: null,
+        alertedAt: null,
+      };
+    } else {
+      const consecutiveFailures = (health?.consecutiveFailures ?? 0) + 1;
+      const backoffMinutes = getBackoffMinutes(consecutiveFailures);
+      values = {
+        consecutiveFailures,
+        failingSince: health?.failingSince ?? nowIso,
+        lastFailureAt: nowIso,
+        lastError: error,
+        blockedUntil: backoffMinutes > 0 ? new Date(now.getTime() + backoffMinutes * 60 * 1000).toISOString() : null,
+      };
+      if (backoffMinutes > 0) {
+        console.warn(`🔌 Circuit open for ${slug} after ${consecutiveFailures} failed runs, retrying in ${backoffMinutes}m`);
+      }
+    }
+
+    await db
+      .insert(venueHealth)
+      .values({ venueId: id, ...values })
+      .onConflictDoUpdate({ target: venueHealth.venueId, set: values });
+  }
+}
+
+// Slugs of venues whose circuit breaker is open
+export async function getBlockedVenues(now: Date = new Date()): Promise<Set<string>> {
+  const rows = await db
+    .select({ slug: venues.slug })
+    .from(venueHealth)
+    .innerJoin(venues, eq(venueHealth.venueId, venues.id))
+    .where(gt(venueHealth.blockedUntil, now.toISOString()));
+  return new Set(rows.map((row) => row.slug));
+}
+
+// Slugs of venues whose breaker wait is over but which haven't succeeded since,
+// so the next run only probes them
+export async function getProbingVenues(now: Date = new Date()): Promise<Set<string>> {
+  const rows = await db
+    .select({ slug: venues.slug })
+    .from(venueHealth)
+    .innerJoin(venues, eq(venueHealth.venueId, venues.id))
+    .where(
+      and(
+        gte(venueHealth.consecutiveFailures, CIRCUIT_BREAKER_THRESHOLD),
+        lte(venueHealth.blockedUntil, now.toISOString())
+      )
+    );
+  return new Set(rows.map((row) => row.slug));
+}
+
+// Health rows keyed by venue ID (venues never scraped have none)
+export async function getVenueHealthByVenue(): Promise<Map<number, VenueHealth>> {
+  const rows = await db.select().from(venueHealth);
+  return new Map(rows.map((row) => [row.venueId, row]));
+}
+
+// Forget a venue's failures and close its breaker
+export async function resetVenueHealth(venueId: number): Promise<void> {
+  await db.delete(venueHealth).where(eq(venueHealth.venueId, venueId));
+}
+
+// Alert the admin about enabled venues failing for VENUE_DOWN_ALERT_HOURS that
+// haven't been alerted yet this outage. Returns the number of venues reported.
+export async function alertDownVenues(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - VENUE_DOWN_ALERT_HOURS * 60 * 60 * 1000).toISOString();
+  const rows = await db
+    .select({ venueId: venues.id, slug: venues.slug, name: venues.name, health: venueHealth })
+    .from(venueHealth)
+    .innerJoin(venues, eq(venueHealth.venueId, venues.id))
+    .where(and(eq(venues.enabled, 1), lte(venueHealth.failingSince, cutoff), isNull(venueHealth.alertedAt)));
+
+  if (rows.length === 0) return 0;
+
+  const down: DownVenue[] = [];
+  for (const { slug, name, health } of rows) {
+    // Always set by the query's filter, but the column is nullable
+    if (!health.failingSince) continue;
+    down.push({
+      slug,
+      name,
+      failingSince: health.failingSince,
+      lastSuccessAt: health.lastSuccessAt,
+      lastError: health.lastError,
+      consecutiveFailures: health.consecutiveFailures,
+      blockedUntil: health.blockedUntil,
+    });
+  }
+
+  if (!(await sendVenueDownAlert(down, VENUE_DOWN_ALERT_HOURS))) return 0;
+
+  await db
+    .update(venueHealth)
+    .set({ alertedAt: now.toISOString() })
+    .where(inArray(venueHealth.venueId, rows.map((row) => row.venueId)));
+  return down.length;
+}
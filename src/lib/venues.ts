@@ -0,0 +1,52 @@
+import { db } from "./db";
+import { venueClosures, venues } from "./schema";
+import type { Venue as VenueRow } from "./schema";
+import { DEFAULT_VENUES, Venue } from "./constants";
+import { eq, count, gte } from "drizzle-orm";
+import { parseOpeningHours } from "./opening-hours";
+
+// Map a venues row to the config shape the scrapers and link helpers work with
+export function toVenueConfig(row: VenueRow): Venue {
+  return {
+    slug: row.slug,
+    name: row.name,
+    type: row.type,
+    clubsparkId: row.clubsparkId ?? undefined,
+    clubsparkHost: row.clubsparkHost ?? undefined,
+    address: row.address ?? undefined,
+    timezone: row.timezone,
+    openingHours: parseOpeningHours(row.openingHours),
+  };
+}
+
+// Seed the catalogue on first run; after that, admins manage venues from the dashboard
+export async function ensureVenuesExist(): Promise<void> {
+  const [{ count: venueCount }] = await db.select({ count: count() }).from(venues);
+  if (venueCount > 0) return;
+
+  await db.insert(venues).values(
+    DEFAULT_VENUES.map((venue) => ({
+      slug: venue.slug,
+      name: venue.name,
+      type: venue.type,
+      clubsparkId: venue.clubsparkId ?? null,
+      clubsparkHost: venue.clubsparkHost ?? null,
+    }))
+  );
+}
+
+// Venues that should be scraped and shown on the dashboard
+export async function getEnabledVenues(): Promise<Venue[]> {
+  const rows = await db.select().from(venues).where(eq(venues.enabled, 1));
+  return rows.map(toVenueConfig);
+}
+
+// Closures from a date onwards, as "venueSlug|date" keys
+export async function getClosedDates(fromDate: string): Promise<Set<string>> {
+  const rows = await db
+    .select({ slug: venues.slug, date: venueClosures.date })
+    .from(venueClosures)
+    .innerJoin(venues, eq(venueClosures.venueId, venues.id))
+    .where(gte(venueClosures.date, fromDate));
+  return new Set(rows.map((row) => `${row.slug}|${row.date}`));
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import {
+  consecutiveFreeHours,
+  isCourtExcluded,
+  isWatchExpired,
+  matchesTimePreferences,
+  matchesWatchDates,
+  parsePrice,
+  parseTimeRange,
+  parseWatchRules,
+  validateWatchInput,
+  watchCoversDate,
+} from "./watch-rules";
+
+describe("matchesTimePreferences", () => {
+  it("matches exact times", () => {
+    expect(matchesTimePreferences(["7pm", "8pm"], "7pm")).toBe(true);
+    expect(matchesTimePreferences(["7pm", "8pm"], "9pm")).toBe(false);
+  });
+
+  it("matches ranges with an exclusive end", () => {
+    expect(parseTimeRange("6pm-9pm")).toEqual({ start: 18, end: 21 });
+    expect(matchesTimePreferences(["6pm-9pm"], "6pm")).toBe(true);
+    expect(matchesTimePreferences(["6pm-9pm"], "8pm")).toBe(true);
+    expect(matchesTimePreferences(["6pm-9pm"], "9pm")).toBe(false);
+  });
+
+  it("rejects backwards ranges", () => {
+    expect(parseTimeRange("9pm-6pm")).toBeNull();
+  });
+});
+
+describe("consecutiveFreeHours", () => {
+  it("measures the run of free hours around a slot", () => {
+    const free = new Set([17, 18, 19, 21]);
+    expect(consecutiveFreeHours(free, 18, () => true)).toBe(3);
+    expect(consecutiveFreeHours(free, 21, () => true)).toBe(1);
+    expect(consecutiveFreeHours(free, 20, () => true)).toBe(0);
+  });
+
+  it("only counts hours the watch allows", () => {
+    const free = new Set([17, 18, 19]);
+    expect(consecutiveFreeHours(free, 18, (h) => h >= 18)).toBe(2);
+  });
+});
+
+describe("court and price rules", () => {
+  it("excludes courts case-insensitively", () => {
+    expect(isCourtExcluded("Court 4", ["court 4"])).toBe(true);
+    expect(isCourtExcluded("Court 1", ["court 4"])).toBe(false);
+  });
+
+  it("parses listed prices", () => {
+    expect(parsePrice("£10.50")).toBe(10.5);
+    expect(parsePrice(undefined)).toBeNull();
+  });
+
+  it("defaults missing rule columns", () => {
+    expect(
+      parseWatchRules({
+        minConsecutiveHours: null,
+        excludedCourts: null,
+        maxPrice: null,
+        specificDates: null,
+        startDate: null,
+        endDate: null,
+      })
+    ).toEqual({
+      minConsecutiveHours: 1,
+      excludedCourts: [],
+      maxPrice: null,
+      specificDates: [],
+      startDate: null,
+      endDate: null,
+    });
+  });
+});
+
+describe("date rules", () => {
+  const noDates = { specificDates: [], startDate: null, endDate: null };
+
+  it("limits matches to specific dates and the start/end window", () => {
+    expect(matchesWatchDates("2026-11-14", noDates)).toBe(true);
+    expect(matchesWatchDates("2026-11-14", { ...noDates, specificDates: ["2026-11-14"] })).toBe(true);
+    expect(matchesWatchDates("2026-11-15", { ...noDates, specificDates: ["2026-11-14"] })).toBe(false);
+    expect(matchesWatchDates("2026-11-01", { ...noDates, startDate: "2026-11-02" })).toBe(false);
+    expect(matchesWatchDates("2026-11-30", { ...noDates, endDate: "2026-11-30" })).toBe(true);
+    expect(matchesWatchDates("2026-12-01", { ...noDates, endDate: "2026-11-30" })).toBe(false);
+  });
+
+  it("expires once every date has passed", () => {
+    expect(isWatchExpired(noDates, "2026-12-01")).toBe(false);
+    expect(isWatchExpired({ ...noDates, endDate: "2026-11-30" }, "2026-11-30")).toBe(false);
+    expect(isWatchExpired({ ...noDates, endDate: "2026-11-30" }, "2026-12-01")).toBe(true);
+    expect(isWatchExpired({ ...noDates, specificDates: ["2026-11-14", "2026-11-21"] }, "2026-11-20")).toBe(false);
+    expect(isWatchExpired({ ...noDates, specificDates: ["2026-11-14", "2026-11-21"] }, "2026-11-22")).toBe(true);
+  });
+
+  it("covers a date when the watch has times for its weekday", () => {
+    const watch = {
+      ...noDates,
+      specificDates: null,
+      minConsecutiveHours: null,
+      excludedCourts: null,
+      maxPrice: null,
+      dayTimes: JSON.stringify({ saturday: ["9am-12pm"], sunday: [] }),
+      weekdayTimes: null,
+      weekendTimes: null,
+    };
+
+    // 2026-11-14 is a Saturday
+    expect(watchCoversDate(watch, "2026-11-14")).toBe(true);
+    expect(watchCoversDate(watch, "2026-11-15")).toBe(false);
+    expect(watchCoversDate({ ...watch, endDate: "2026-11-13" }, "2026-11-14")).toBe(false);
+    expect(
+      watchCoversDate({ ...watch, dayTimes: null, weekendTimes: JSON.stringify(["10am"]) }, "2026-11-15")
+    ).toBe(true);
+  });
+});
+
+describe("validateWatchInput", () => {
+  it("accepts times, ranges and rules", () => {
+    expect(
+      validateWatchInput({
+        dayTimes: { monday: ["7pm", "6pm-9pm"], saturday: [] },
+        minConsecutiveHours: 2,
+        excludedCourts: ["Court 4"],
+        maxPrice: 12,
+      })
+    ).toBeNull();
+  });
+
+  it("rejects invalid input", () => {
+    expect(validateWatchInput({ dayTimes: { funday: ["7pm"] } })).toMatch(/Unknown day/);
+    expect(validateWatchInput({ dayTimes: { monday: ["9pm-6pm"] } })).toMatch(/Invalid time/);
+    expect(validateWatchInput({ minConsecutiveHours: 0 })).toMatch(/minConsecutiveHours/);
+    expect(validateWatchInput({ excludedCourts: "Court 4" })).toMatch(/excludedCourts/);
+    expect(validateWatchInput({ maxPrice: -1 })).toMatch(/maxPrice/);
+    expect(validateWatchInput({ specificDates: ["14/11/2026"] })).toMatch(/specificDates/);
+    expect(validateWatchInput({ startDate: "2026-11-30", endDate: "2026-11-01" })).toMatch(/endDate/);
+  });
+});
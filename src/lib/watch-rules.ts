@@ -0,0 +1,230 @@
+import { parseSlotHour } from "./utils/slot-time";
+import { getDayOfWeek } from "./utils/venue-time";
+
+/**
+ * Watch rules
+ *
+ * Besides exact times ("7pm"), a day's entries in dayTimes may be ranges
+ * ("6pm-9pm") matching any slot that starts within them - the end is exclusive,
+ * i.e. play finishes by 9pm. Watch-level rules then narrow matches further:
+ * a minimum run of consecutive free hours on the same court, courts to skip
+ * and a maximum price. Date rules limit a watch to specific dates and/or a
+ * start-end window; once those have passed the watch is expired.
+ */
+
+export const WEEK_DAYS = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"] as const;
+
+export const MAX_CONSECUTIVE_HOURS = 4;
+const MAX_EXCLUDED_COURTS = 20;
+const MAX_SPECIFIC_DATES = 60;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface WatchRules {
+  minConsecutiveHours: number;
+  excludedCourts: string[];
+  maxPrice: number | null;
+  specificDates: string[];
+  startDate: string | null;
+  endDate: string | null;
+}
+
+// Rule columns as stored on the watches table
+export interface StoredWatchRules {
+  minConsecutiveHours: number | null;
+  excludedCourts: string | null;
+  maxPrice: number | null;
+  specificDates: string | null;
+  startDate: string | null;
+  endDate: string | null;
+}
+
+type WatchDateRules = Pick<WatchRules, "specificDates" | "startDate" | "endDate">;
+
+// "6pm-9pm" -> { start: 18, end: 21 }, or null if not a valid range
+export function parseTimeRange(entry: string): { start: number; end: number } | null {
+  const parts = entry.split("-");
+  if (parts.length !== 2) return null;
+  const start = parseSlotHour(parts[0]);
+  const end = parseSlotHour(parts[1]);
+  if (start === null || end === null || end <= start) return null;
+  return { start, end };
+}
+
+// Whether a slot time matches any of a day's entries (exact times or ranges)
+export function matchesTimePreferences(entries: string[], time: string): boolean {
+  const normalized = time.toLowerCase().trim();
+  const hour = parseSlotHour(time);
+
+  return entries.some((entry) => {
+    if (entry.toLowerCase().trim() === normalized) return true;
+    const range = parseTimeRange(entry);
+    return range !== null && hour !== null && hour >= range.start && hour < range.end;
+  });
+}
+
+// "£10.50" -> 10.5
+export function parsePrice(price: string | null | undefined): number | null {
+  if (!price) return null;
+  const match = price.match(/\d+(?:\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+}
+
+export function isCourtExcluded(court: string, excludedCourts: string[]): boolean {
+  const normalized = court.toLowerCase().trim();
+  return excludedCourts.some((c) => c.toLowerCase().trim() === normalized);
+}
+
+// Length of the run of free hours containing `hour`, counting only hours that pass `allowed`
+export function consecutiveFreeHours(
+  freeHours: Set<number>,
+  hour: number,
+  allowed: (hour: number) => boolean
+): number {
+  if (!freeHours.has(hour) || !allowed(hour)) return 0;
+
+  let run = 1;
+  for (let h = hour - 1; freeHours.has(h) && allowed(h); h--) run++;
+  for (let h = hour + 1; freeHours.has(h) && allowed(h); h++) run++;
+  return run;
+}
+
+// Whether a YYYY-MM-DD date falls within the watch's specific dates and start/end window
+export function matchesWatchDates(date: string, rules: WatchDateRules): boolean {
+  if (rules.startDate && date < rules.startDate) return false;
+  if (rules.endDate && date > rules.endDate) return false;
+  if (rules.specificDates.length > 0 && !rules.specificDates.includes(date)) return false;
+  return true;
+}
+
+// A watch expires once its end date or all of its specific dates are before today
+export function isWatchExpired(rules: WatchDateRules, today: string): boolean {
+  if (rules.endDate && rules.endDate < today) return true;
+  if (rules.specificDates.length > 0 && rules.specificDates.every((d) => d < today)) return true;
+  return false;
+}
+
+// Whether a watch could match any slot on a YYYY-MM-DD date: it has times for that
+// weekday (dayTimes, or the legacy weekday/weekend lists) and the date passes its date rules
+export function watchCoversDate(
+  watch: StoredWatchRules & { dayTimes: string | null; weekdayTimes: string | null; weekendTimes: string | null },
+  date: string
+): boolean {
+  if (!matchesWatchDates(date, parseWatchRules(watch))) return false;
+
+  const dayOfWeek = getDayOfWeek(date); // 0 = Sunday
+  try {
+    if (watch.dayTimes) {
+      const dayTimes = JSON.parse(watch.dayTimes);
+      return (dayTimes[WEEK_DAYS[(dayOfWeek + 6) % 7]] ?? []).length > 0;
+    }
+    const timesJson = dayOfWeek === 0 || dayOfWeek === 6 ? watch.weekendTimes : watch.weekdayTimes;
+    return timesJson !== null && JSON.parse(timesJson).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+function parseJsonList(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function parseWatchRules(watch: StoredWatchRules): WatchRules {
+  return {
+    minConsecutiveHours: watch.minConsecutiveHours ?? 1,
+    excludedCourts: parseJsonList(watch.excludedCourts),
+    maxPrice: watch.maxPrice ?? null,
+    specificDates: parseJsonList(watch.specificDates),
+    startDate: watch.startDate ?? null,
+    endDate: watch.endDate ?? null,
+  };
+}
+
+// Validate a watch create/update body, returning an error message or null
+export function validateWatchInput(body: {
+  dayTimes?: unknown;
+  minConsecutiveHours?: unknown;
+  excludedCourts?: unknown;
+  maxPrice?: unknown;
+  specificDates?: unknown;
+  startDate?: unknown;
+  endDate?: unknown;
+}): string | null {
+  const { dayTimes, minConsecutiveHours, excludedCourts, maxPrice, specificDates, startDate, endDate } = body;
+
+  if (dayTimes !== undefined && dayTimes !== null) {
+    if (typeof dayTimes !== "object" || Array.isArray(dayTimes)) {
+      return "dayTimes must be an object keyed by day";
+    }
+    for (const [day, entries] of Object.entries(dayTimes)) {
+      if (!(WEEK_DAYS as readonly string[]).includes(day)) {
+        return `Unknown day in dayTimes: ${day}`;
+      }
+      if (!Array.isArray(entries)) {
+        return `dayTimes.${day} must be an array`;
+      }
+      for (const entry of entries) {
+        const valid =
+          typeof entry === "string" &&
+          (entry.includes("-") ? parseTimeRange(entry) !== null : parseSlotHour(entry) !== null);
+        if (!valid) {
+          return `Invalid time or range for ${day}: ${String(entry)}`;
+        }
+      }
+    }
+  }
+
+  if (minConsecutiveHours !== undefined && minConsecutiveHours !== null) {
+    if (
+      typeof minConsecutiveHours !== "number" ||
+      !Number.isInteger(minConsecutiveHours) ||
+      minConsecutiveHours < 1 ||
+      minConsecutiveHours > MAX_CONSECUTIVE_HOURS
+    ) {
+      return `minConsecutiveHours must be a whole number from 1 to ${MAX_CONSECUTIVE_HOURS}`;
+    }
+  }
+
+  if (excludedCourts !== undefined && excludedCourts !== null) {
+    if (
+      !Array.isArray(excludedCourts) ||
+      excludedCourts.length > MAX_EXCLUDED_COURTS ||
+      excludedCourts.some((c) => typeof c !== "string" || c.trim() === "")
+    ) {
+      return `excludedCourts must be a list of up to ${MAX_EXCLUDED_COURTS} court names`;
+    }
+  }
+
+  if (maxPrice !== undefined && maxPrice !== null) {
+    if (typeof maxPrice !== "number" || !Number.isFinite(maxPrice) || maxPrice <= 0) {
+      return "maxPrice must be a positive number";
+    }
+  }
+
+  if (specificDates !== undefined && specificDates !== null) {
+    if (
+      !Array.isArray(specificDates) ||
+      specificDates.length > MAX_SPECIFIC_DATES ||
+      specificDates.some((d) => typeof d !== "string" || !DATE_PATTERN.test(d))
+    ) {
+      return `specificDates must be a list of up to ${MAX_SPECIFIC_DATES} dates (YYYY-MM-DD)`;
+    }
+  }
+
+  for (const [field, value] of [["startDate", startDate], ["endDate", endDate]] as const) {
+    if (value !== undefined && value !== null && (typeof value !== "string" || !DATE_PATTERN.test(value))) {
+      return `${field} must be a date (YYYY-MM-DD)`;
+    }
+  }
+
+  if (typeof startDate === "string" && typeof endDate === "string" && endDate < startDate) {
+    return "endDate must not be before startDate";
+  }
+
+  return null;
+}
@@ -0,0 +1,32 @@
+import { db } from "./db";
+import { watches } from "./schema";
+import { and, eq, inArray, isNotNull, or } from "drizzle-orm";
+import { isWatchExpired, parseWatchRules } from "./watch-rules";
+import { getVenueToday } from "./utils/venue-time";
+
+// Deactivate watches whose specific dates or end date have all passed.
+// Returns the number of watches expired.
+export async function expireWatches(today = getVenueToday()): Promise<number> {
+  const candidates = await db
+    .select()
+    .from(watches)
+    .where(
+      and(
+        eq(watches.active, 1),
+        or(isNotNull(watches.endDate), isNotNull(watches.specificDates))
+      )
+    );
+
+  const expiredIds = candidates
+    .filter((watch) => isWatchExpired(parseWatchRules(watch), today))
+    .map((watch) => watch.id);
+
+  if (expiredIds.length === 0) return 0;
+
+  await db
+    .update(watches)
+    .set({ active: 0, expiredAt: new Date().toISOString() })
+    .where(inArray(watches.id, expiredIds));
+
+  return expiredIds.length;
+}
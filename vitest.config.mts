@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+import { fileURLToPath } from "url";
+
+export default defineConfig({
+  resolve: {
+    // Same "@/..." path alias as tsconfig.json, for tests of app routes
+    alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) },
+  },
+});